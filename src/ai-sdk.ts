@@ -0,0 +1,242 @@
+import {
+  CallFields,
+  track,
+  checkBudgets,
+  countTokens,
+  runStorage,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { CallContext } from "./context";
+import { textMessages } from "./content";
+import { promptFields } from "./fingerprint";
+import { errorTrackOptions } from "./errors";
+
+export interface AgentracerMiddlewareOptions {
+  /** Feature tag for every call through the wrapped model. Default: from context */
+  featureTag?: string;
+}
+
+// AI SDK provider IDs look like "openai.chat" or "google.generative-ai"
+const PROVIDERS: Record<string, string> = {
+  google: "gemini",
+  "amazon-bedrock": "bedrock",
+};
+
+function providerName(model: any): string {
+  const name = String(model?.provider ?? "custom").split(".")[0];
+  return PROVIDERS[name] ?? name;
+}
+
+/** Token counts are `NaN` when a v1 provider did not report them */
+function tokens(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** Usage in the v1 (`promptTokens`) or v2 (`inputTokens`) shape */
+function usageFields(usage: any): CallFields {
+  return {
+    inputTokens: tokens(usage?.inputTokens ?? usage?.promptTokens),
+    outputTokens: tokens(usage?.outputTokens ?? usage?.completionTokens),
+    cachedTokens: tokens(usage?.cachedInputTokens),
+    reasoningTokens: usage?.reasoningTokens ?? undefined,
+  };
+}
+
+function requestShape(params: any): Partial<CallFields> {
+  const tools = params.tools ?? params.mode?.tools;
+  return {
+    messageCount: params.prompt?.length,
+    toolCount: tools?.length,
+    maxTokens: params.maxOutputTokens ?? params.maxTokens,
+    temperature: params.temperature,
+  };
+}
+
+function requestFields(params: any, model: string, context: CallContext): Partial<CallFields> {
+  return {
+    operation: "chat",
+    ...requestShape(params),
+    ...promptFields(
+      () => ({ messages: textMessages(params.prompt), tools: params.tools ?? params.mode?.tools }),
+      (text) => countTokens(text, model),
+      _capturesContent(context.featureTag)
+    ),
+  };
+}
+
+/** Text and tool calls of a v1 result (`text`, `toolCalls`) or v2 result (`content` parts) */
+function generateOutcome(result: any): { fields: Partial<CallFields>; outputText: string } {
+  const parts: any[] = Array.isArray(result.content) ? result.content : [];
+  const outputText =
+    typeof result.text === "string"
+      ? result.text
+      : parts
+          .filter((part) => part.type === "text")
+          .map((part) => part.text)
+          .join("");
+  return {
+    fields: {
+      finishReason: result.finishReason,
+      toolCallCount: result.toolCalls?.length ?? parts.filter((part) => part.type === "tool-call").length,
+      responseModel: result.response?.modelId,
+    },
+    outputText,
+  };
+}
+
+/** Per-call context from `providerOptions.agentracer` (v2) or `providerMetadata.agentracer` (v1) */
+function callContext(params: any, featureTag: string | undefined): CallContext {
+  const agentracer = params.providerOptions?.agentracer ?? params.providerMetadata?.agentracer;
+  return _callContext(agentracer?.featureTag ?? featureTag, agentracer);
+}
+
+/** Re-exposes an async generator as the `ReadableStream` the AI SDK expects */
+function toReadableStream<T>(iterator: AsyncGenerator<T>): ReadableStream<T> {
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}
+
+/**
+ * Language model middleware for the Vercel AI SDK. Every `generateText`,
+ * `streamText`, `generateObject` and `streamObject` call through the wrapped
+ * model is tracked like a call through the provider wrappers:
+ *
+ * ```ts
+ * const model = wrapLanguageModel({ model: openai("gpt-4o"), middleware: agentracerMiddleware() });
+ * ```
+ *
+ * The feature tag comes from `providerOptions: { agentracer: { featureTag } }`
+ * on the call, then `options.featureTag`, then the current context.
+ */
+export function agentracerMiddleware(options: AgentracerMiddlewareOptions = {}) {
+  return {
+    async wrapGenerate({ doGenerate, params, model }: { doGenerate: () => Promise<any>; params: any; model: any }) {
+      const context = callContext(params, options.featureTag);
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const modelId = model?.modelId ?? "unknown";
+      const provider = providerName(model);
+      const callFields = requestFields(params, modelId, context);
+
+      const start = Date.now();
+      let result: any;
+      try {
+        result = await doGenerate();
+      } catch (err) {
+        _trackFailure(modelId, provider, context, callFields, start, err);
+        throw err;
+      }
+
+      _trackResponse(() => {
+        const usage = usageFields(result.usage);
+        const { fields, outputText } = generateOutcome(result);
+        const capture = _capturesContent(context.featureTag);
+        return {
+          model: modelId,
+          ...callFields,
+          ...usage,
+          ...fields,
+          ..._outputFields({ ...callFields, ...usage }, modelId, outputText, capture),
+          latencyMs: Date.now() - start,
+          ...context,
+          provider,
+        };
+      });
+
+      return result;
+    },
+
+    async wrapStream({ doStream, params, model }: { doStream: () => Promise<any>; params: any; model: any }) {
+      const context = callContext(params, options.featureTag);
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const modelId = model?.modelId ?? "unknown";
+      const provider = providerName(model);
+      const callFields = requestFields(params, modelId, context);
+
+      const start = Date.now();
+      let result: any;
+      try {
+        result = await doStream();
+      } catch (err) {
+        _trackFailure(modelId, provider, context, callFields, start, err, true);
+        throw err;
+      }
+
+      const fields: CallFields = { ...callFields, inputTokens: 0, outputTokens: 0, toolCallCount: 0 };
+      let outputText = "";
+      // Providers report failures mid-stream as `error` parts rather than throwing
+      let streamError: unknown;
+
+      const observed = observeStream(result.stream as AsyncIterable<any>, start, {
+        onChunk(part) {
+          if (part.type === "text-delta") outputText += part.delta ?? part.textDelta ?? "";
+          if (part.type === "tool-call") fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+          if (part.type === "response-metadata" && part.modelId) fields.responseModel = part.modelId;
+          if (part.type === "error") streamError = part.error;
+          if (part.type === "finish") {
+            Object.assign(fields, usageFields(part.usage));
+            fields.finishReason = part.finishReason;
+          }
+        },
+        isContent: (part) => part?.type === "text-delta" || part?.type === "tool-call",
+        onEnd(stats) {
+          track({
+            model: modelId,
+            ...fields,
+            ..._outputFields(fields, modelId, outputText, _capturesContent(context.featureTag)),
+            ...context,
+            provider,
+            ..._streamTrackOptions(stats),
+            ...(streamError !== undefined
+              ? { ...errorTrackOptions(streamError), streamStatus: "errored" as const }
+              : {}),
+          }).catch(() => {});
+        },
+      });
+
+      return { ...result, stream: toReadableStream(observed) };
+    },
+  };
+}
+
+/**
+ * Wraps the `execute` function of AI SDK tools so that, inside an
+ * `AgentRun`, every tool call the SDK makes is recorded as a `tool` step.
+ * Outside a run the tools execute untouched.
+ */
+export function agentracerTools<T extends Record<string, any>>(tools: T): T {
+  const wrapped: Record<string, any> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    if (typeof tool?.execute !== "function") {
+      wrapped[name] = tool;
+      continue;
+    }
+    wrapped[name] = {
+      ...tool,
+      execute: (...args: any[]) => {
+        const run = runStorage.getStore();
+        return run ? run.tool(name, () => tool.execute(...args)) : tool.execute(...args);
+      },
+    };
+  }
+  return wrapped as T;
+}
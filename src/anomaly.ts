@@ -0,0 +1,178 @@
+export type IncidentType =
+  | "latency_spike"
+  | "prompt_bloat"
+  | "output_spike"
+  | "cost_spike"
+  | "system_prompt_growth";
+
+export type AnomalyMetric =
+  | "latency_ms"
+  | "input_tokens"
+  | "output_tokens"
+  | "cost_usd"
+  | "system_prompt_share";
+
+export interface Incident {
+  type: IncidentType;
+  metric: AnomalyMetric;
+  provider: string;
+  model: string;
+  featureTag: string;
+  value: number;
+  /** 95th percentile of the recent baseline */
+  baselineP95: number;
+  /** Exponentially weighted moving average of the baseline */
+  baselineMean: number;
+  /** `value / baselineP95` */
+  ratio: number;
+  message: string;
+  detectedAt: number;
+}
+
+export interface AnomalyOptions {
+  /** Calls observed per key before incidents can fire. Default: 20 */
+  minSamples?: number;
+  /** How many times the baseline p95 a value must reach to count as a spike. Default: 3 */
+  threshold?: number;
+  /**
+   * How far a share (from 0 to 1) must rise above the baseline p95 to count as
+   * growth, e.g. 0.2 for 20 points. Default: 0.2
+   */
+  shareThreshold?: number;
+  /** Recent values kept per metric for the percentile baseline. Default: 100 */
+  windowSize?: number;
+  /** Minimum time between incidents for the same key and metric. Default: 60000 */
+  cooldownMs?: number;
+  /** Smoothing factor for the moving average. Default: 0.1 */
+  alpha?: number;
+}
+
+export interface AnomalySample {
+  provider: string;
+  model: string;
+  featureTag: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  /** Approximate share of the prompt taken by the system prompt, from 0 to 1 */
+  systemPromptShare?: number | null;
+}
+
+/** `share` metrics are bounded by 1, so they are compared by how far they rise rather than by a multiple */
+const METRICS: { metric: AnomalyMetric; type: IncidentType; label: string; share?: boolean }[] = [
+  { metric: "latency_ms", type: "latency_spike", label: "latency spike: latency" },
+  { metric: "input_tokens", type: "prompt_bloat", label: "prompt bloat: input tokens" },
+  { metric: "output_tokens", type: "output_spike", label: "output spike: output tokens" },
+  { metric: "cost_usd", type: "cost_spike", label: "cost spike: cost" },
+  {
+    metric: "system_prompt_share",
+    type: "system_prompt_growth",
+    label: "system prompt growth: system prompt share",
+    share: true,
+  },
+];
+
+function sampleValue(sample: AnomalySample, metric: AnomalyMetric): number | null {
+  switch (metric) {
+    case "latency_ms":
+      return sample.latencyMs;
+    case "input_tokens":
+      return sample.inputTokens;
+    case "output_tokens":
+      return sample.outputTokens;
+    case "cost_usd":
+      return sample.costUsd;
+    case "system_prompt_share":
+      return sample.systemPromptShare ?? null;
+  }
+}
+
+/** Rolling baseline for one metric: a ring buffer for percentiles plus an EWMA. */
+class MetricStats {
+  private values: number[] = [];
+  private next = 0;
+  count = 0;
+  mean = 0;
+  lastIncidentAt = -Infinity;
+
+  add(value: number, windowSize: number, alpha: number): void {
+    if (this.values.length < windowSize) {
+      this.values.push(value);
+    } else {
+      this.values[this.next] = value;
+      this.next = (this.next + 1) % windowSize;
+    }
+    this.mean = this.count === 0 ? value : alpha * value + (1 - alpha) * this.mean;
+    this.count++;
+  }
+
+  p95(): number {
+    const sorted = [...this.values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  }
+}
+
+/**
+ * Keeps per `(provider, model, feature_tag)` baselines of latency, token
+ * counts, cost and system prompt share, and reports calls that exceed `threshold` times the
+ * recent p95, or shares that rise `shareThreshold` above it.
+ */
+export class AnomalyDetector {
+  private stats = new Map<string, Map<AnomalyMetric, MetricStats>>();
+
+  observe(sample: AnomalySample, options: AnomalyOptions = {}, now = Date.now()): Incident[] {
+    const minSamples = options.minSamples ?? 20;
+    const threshold = options.threshold ?? 3;
+    const shareThreshold = options.shareThreshold ?? 0.2;
+    const windowSize = options.windowSize ?? 100;
+    const cooldownMs = options.cooldownMs ?? 60_000;
+    const alpha = options.alpha ?? 0.1;
+
+    const key = `${sample.provider}|${sample.model}|${sample.featureTag}`;
+    let byMetric = this.stats.get(key);
+    if (!byMetric) this.stats.set(key, (byMetric = new Map()));
+
+    const incidents: Incident[] = [];
+    for (const { metric, type, label, share } of METRICS) {
+      const value = sampleValue(sample, metric);
+      if (value == null) continue;
+
+      let stats = byMetric.get(metric);
+      if (!stats) byMetric.set(metric, (stats = new MetricStats()));
+
+      if (stats.count >= minSamples && now - stats.lastIncidentAt >= cooldownMs) {
+        const p95 = stats.p95();
+        const exceeded = share ? value - p95 >= shareThreshold : value >= p95 * threshold;
+        if (p95 > 0 && exceeded) {
+          const ratio = value / p95;
+          const change = share
+            ? `up ${Math.round((value - p95) * 100)} points over p95`
+            : `${ratio.toFixed(1)}x p95`;
+          stats.lastIncidentAt = now;
+          incidents.push({
+            type,
+            metric,
+            provider: sample.provider,
+            model: sample.model,
+            featureTag: sample.featureTag,
+            value,
+            baselineP95: p95,
+            baselineMean: stats.mean,
+            ratio,
+            message: `${label} ${change} for feature '${sample.featureTag}' (${sample.model})`,
+            detectedAt: now,
+          });
+        }
+      }
+
+      stats.add(value, windowSize, alpha);
+    }
+
+    return incidents;
+  }
+
+  clear(): void {
+    this.stats.clear();
+  }
+}
@@ -1,4 +1,25 @@
-import { getConfig, track, featureTagStorage } from "./index";
+import {
+  CallFields,
+  getConfig,
+  track,
+  checkBudgets,
+  computeCost,
+  countTokens,
+  _streamTrackOptions,
+  _trackBatch,
+  _callContext,
+  _capturesContent,
+  _chatRequestShape,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { CallContext } from "./context";
+import { contentText, textMessages } from "./content";
+import { Prompt, promptFields } from "./fingerprint";
+import { observeStream, StreamStatus } from "./streaming";
+import { proxyResource } from "./proxy";
+import { responseTrackOptions, withResponseHeaders } from "./errors";
 
 let _clientInstance: any = null;
 
@@ -17,106 +38,373 @@ function getClient(opts?: any) {
 /** @internal Test-only: inject a mock client */
 export function _setClientForTesting(client: any) {
   _clientInstance = client;
+  batchContexts.clear();
+  reconciledBatches.clear();
 }
 
-async function* wrapAnthropicStream(
+/** `input_tokens` excludes cache reads and writes, which are reported separately */
+function messageUsage(usage: any): CallFields {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cachedTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage?.cache_creation_input_tokens ?? 0,
+  };
+}
+
+/** The system prompt is a top-level param rather than a message */
+function messagesPrompt(params: any): Prompt {
+  const messages = textMessages(params.messages);
+  if (params.system) messages.unshift({ role: "system", content: contentText(params.system) });
+  return { messages, tools: params.tools };
+}
+
+function requestFields(params: any, context: CallContext): Partial<CallFields> {
+  const capture = _capturesContent(context.featureTag);
+  return {
+    ..._chatRequestShape(params, params.max_tokens),
+    ...promptFields(() => messagesPrompt(params), (text) => countTokens(text, params.model), capture),
+  };
+}
+
+function messageText(message: any): string {
+  return (message.content ?? [])
+    .filter((block: any) => block.type === "text")
+    .map((block: any) => block.text)
+    .join("");
+}
+
+function messageOutcome(message: any): Partial<CallFields> {
+  return {
+    finishReason: message.stop_reason ?? undefined,
+    toolCallCount: (message.content ?? []).filter((block: any) => block.type === "tool_use").length,
+    responseModel: message.model,
+  };
+}
+
+function foldStreamEvent(event: any, fields: CallFields) {
+  if (event.type === "message_start" && event.message) {
+    // Output tokens here are a placeholder until message_delta reports the count
+    if (event.message.usage) Object.assign(fields, messageUsage(event.message.usage), { outputTokens: 0 });
+    if (event.message.model) fields.responseModel = event.message.model;
+  }
+  if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+    fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+  }
+  if (event.type === "message_delta") {
+    if (event.usage) fields.outputTokens = event.usage.output_tokens ?? 0;
+    if (event.delta?.stop_reason) fields.finishReason = event.delta.stop_reason;
+  }
+}
+
+/** @internal Parsers `instrumentFetch()` shares, as the Messages API returns the same JSON */
+export const _parsers = { messageUsage, messageOutcome, messagesPrompt, messageText, foldStreamEvent };
+
+function textDelta(event: any): string {
+  return event.type === "content_block_delta" && event.delta?.type === "text_delta" ? event.delta.text : "";
+}
+
+function outputFields(params: any, context: CallContext, fields: CallFields, outputText: string) {
+  return _outputFields(fields, params.model, outputText, _capturesContent(context.featureTag));
+}
+
+function streamFields(params: any, context: CallContext): CallFields {
+  return {
+    ...requestFields(params, context),
+    inputTokens: 0,
+    outputTokens: 0,
+    toolCallCount: 0,
+  };
+}
+
+const isContentEvent = (event: any) => event.type === "content_block_delta";
+
+function resolveContext(params: any): CallContext {
+  return _callContext(params.feature_tag, params.agentracer);
+}
+
+function trackFailure(params: any, context: CallContext, start: number, err: any, streaming: boolean) {
+  _trackFailure(params.model, "anthropic", context, requestFields(params, context), start, err, streaming);
+}
+
+function wrapAnthropicStream(
   stream: AsyncIterable<any>,
-  model: string,
-  featureTag: string,
-  start: number
+  params: any,
+  context: CallContext,
+  start: number,
+  headers: any
 ) {
+  const fields = { ...streamFields(params, context), ...responseTrackOptions(headers) };
+  let outputText = "";
+
+  return observeStream(stream, start, {
+    onChunk(event) {
+      foldStreamEvent(event, fields);
+      outputText += textDelta(event);
+    },
+    isContent: isContentEvent,
+    onEnd(stats) {
+      track({
+        model: params.model,
+        ...fields,
+        ...outputFields(params, context, fields, outputText),
+        ...context,
+        provider: "anthropic",
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+}
+
+/**
+ * Tracks a `MessageStream` from `messages.stream()` through its events rather
+ * than re-yielding it, so the caller keeps `finalMessage()`, `on("text")` and
+ * the other helpers. Only `end` is listened for: an `error` or `abort`
+ * listener would stop the SDK from raising an unhandled rejection for errors
+ * the caller does not handle. The SDK emits `end` after those too, once that
+ * decision is made, so the error is read from `done()` from then on.
+ */
+function observeMessageStream(stream: any, params: any, context: CallContext, start: number) {
+  const fields = streamFields(params, context);
+  let outputText = "";
+  let firstTokenAt: number | null = null;
+  let chunkCount = 0;
+
+  try {
+    stream.on("streamEvent", (event: any) => {
+      chunkCount++;
+      if (firstTokenAt == null && isContentEvent(event)) firstTokenAt = Date.now();
+      foldStreamEvent(event, fields);
+      outputText += textDelta(event);
+    });
+    stream.on("end", () => {
+      const end = Date.now();
+      const status: StreamStatus = stream.aborted ? "aborted" : stream.errored ? "errored" : "completed";
+      const trackStream = (error?: unknown) =>
+        track({
+          model: params.model,
+          ...fields,
+          ...outputFields(params, context, fields, outputText),
+          ...context,
+          provider: "anthropic",
+          ..._streamTrackOptions({
+            status,
+            error,
+            latencyMs: end - start,
+            timeToFirstTokenMs: firstTokenAt == null ? null : firstTokenAt - start,
+            streamDurationMs: end - start,
+            chunkCount,
+          }),
+        }).catch(() => {});
+
+      if (status === "errored") Promise.resolve(stream.done()).then(() => trackStream(), trackStream);
+      else trackStream();
+    });
+  } catch {
+    // never break the caller's stream over telemetry
+  }
+}
+
+// Context of batches created by this process, until their results are read
+const batchContexts = new Map<string, CallContext>();
+// Batches whose results were read to the end, so re-reading them is not counted twice
+const reconciledBatches = new Set<string>();
+
+/**
+ * Re-yields batch results, tracking every succeeded request as a call priced
+ * at the batch discount, and records the batch totals once all results have
+ * been read.
+ */
+async function* reconcileBatchResults(results: AsyncIterable<any>, batchId: string, context: CallContext) {
+  const counts: Record<string, number> = { succeeded: 0, errored: 0, canceled: 0, expired: 0 };
   let inputTokens = 0;
   let outputTokens = 0;
+  let costUsd = 0;
+  let complete = false;
 
-  for await (const event of stream) {
-    if (event.type === "message_start" && event.message?.usage) {
-      inputTokens = event.message.usage.input_tokens ?? 0;
+  try {
+    for await (const entry of results) {
+      try {
+        const result = entry?.result;
+        if (result?.type in counts) counts[result.type]++;
+        if (result?.type === "succeeded") {
+          const message = result.message ?? {};
+          const usage = { model: message.model ?? "unknown", ...messageUsage(message.usage) };
+          inputTokens += usage.inputTokens;
+          outputTokens += usage.outputTokens;
+          costUsd += computeCost({ ...usage, provider: "anthropic", batch: true }) ?? 0;
+          // Batches report no per-request latency
+          track({
+            ...usage,
+            ...messageOutcome(message),
+            latencyMs: 0,
+            ...context,
+            provider: "anthropic",
+            batchId,
+          }).catch(() => {});
+        }
+      } catch {
+        // never block the results
+      }
+      yield entry;
     }
-    if (event.type === "message_delta" && event.usage) {
-      outputTokens = event.usage.output_tokens ?? 0;
+    complete = true;
+  } finally {
+    if (complete) {
+      reconciledBatches.add(batchId);
+      batchContexts.delete(batchId);
+      _trackBatch({
+        batchId,
+        provider: "anthropic",
+        context,
+        status: "reconciled",
+        requestCount: counts.succeeded + counts.errored + counts.canceled + counts.expired,
+        succeeded_count: counts.succeeded,
+        errored_count: counts.errored,
+        canceled_count: counts.canceled,
+        expired_count: counts.expired,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        cost_usd: Math.round(costUsd * 1e10) / 1e10,
+      });
     }
-    yield event;
   }
+}
+
+/** Wraps `messages` or `beta.messages`, which share the same surface */
+function proxyMessages(messages: any) {
+  return proxyResource(messages, {
+    create: async (params: any, ...rest: any[]) => {
+      const context = resolveContext(params);
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const start = Date.now();
+
+      let response: any;
+      let headers: any;
+      try {
+        ({ data: response, headers } = await withResponseHeaders(messages.create(cleanParams, ...rest)));
+      } catch (err: any) {
+        trackFailure(cleanParams, context, start, err, Boolean(cleanParams.stream));
+        throw err;
+      }
+
+      if (cleanParams.stream) {
+        return wrapAnthropicStream(response, cleanParams, context, start, headers);
+      }
+
+      _trackResponse(() => {
+        const request = requestFields(cleanParams, context);
+        const usage = messageUsage(response.usage);
+        return {
+          model: params.model,
+          ...request,
+          ...usage,
+          ...outputFields(cleanParams, context, { ...request, ...usage }, messageText(response)),
+          ...messageOutcome(response),
+          ...responseTrackOptions(headers),
+          latencyMs: Date.now() - start,
+          ...context,
+          provider: "anthropic",
+        };
+      });
+
+      return response;
+    },
+
+    stream: (params: any, ...rest: any[]) => {
+      const context = resolveContext(params);
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const start = Date.now();
 
-  track({
-    model,
-    inputTokens,
-    outputTokens,
-    latencyMs: Date.now() - start,
-    featureTag,
-    provider: "anthropic",
-  }).catch(() => {});
+      let stream: any;
+      try {
+        stream = messages.stream(cleanParams, ...rest);
+      } catch (err: any) {
+        trackFailure(cleanParams, context, start, err, true);
+        throw err;
+      }
+
+      observeMessageStream(stream, cleanParams, context, start);
+      return stream;
+    },
+
+    // Free to call, so only the tracking params need stripping: it lets the
+    // same params be counted before they are sent
+    countTokens: (params: any, ...rest: any[]) => {
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      return messages.countTokens(cleanParams, ...rest);
+    },
+
+    batches: proxyResource(messages?.batches, {
+      create: async (params: any, ...rest: any[]) => {
+        const context = resolveContext(params);
+        const { feature_tag, agentracer, ...cleanParams } = params;
+        checkBudgets(context.featureTag, context.endUserId);
+
+        const batch = await messages.batches.create(cleanParams, ...rest);
+
+        try {
+          batchContexts.set(batch.id, context);
+          _trackBatch({
+            batchId: batch.id,
+            provider: "anthropic",
+            context,
+            status: "created",
+            requestCount: cleanParams.requests?.length ?? 0,
+          });
+        } catch {
+          // never block the response
+        }
+
+        return batch;
+      },
+
+      results: async (batchId: string, ...rest: any[]) => {
+        const results = await messages.batches.results(batchId, ...rest);
+        if (reconciledBatches.has(batchId)) return results;
+
+        const context = batchContexts.get(batchId) ?? _callContext(undefined, undefined);
+        return reconcileBatchResults(results, batchId, context);
+      },
+    }),
+  });
 }
 
 function createAnthropicProxy(clientGetter: () => any) {
   return new Proxy({} as any, {
     get(_, prop) {
-      if (prop === "messages") {
-        return {
-          create: async (params: any) => {
-            const featureTag =
-              params.feature_tag ??
-              featureTagStorage.getStore() ??
-              "unknown";
-
-            const { feature_tag, ...cleanParams } = params;
-
-            const start = Date.now();
-            const client = clientGetter();
-
-            if (cleanParams.stream) {
-              const stream = await client.messages.create(cleanParams);
-              return wrapAnthropicStream(stream, params.model, featureTag, start);
-            }
-
-            let response: any;
-            try {
-              response = await client.messages.create(cleanParams);
-            } catch (err: any) {
-              track({
-                model: params.model,
-                inputTokens: 0,
-                outputTokens: 0,
-                latencyMs: Date.now() - start,
-                featureTag,
-                provider: "anthropic",
-                success: false,
-                errorType: err?.constructor?.name ?? "Error",
-              }).catch(() => {});
-              throw err;
-            }
-
-            track({
-              model: params.model,
-              inputTokens: response.usage?.input_tokens ?? 0,
-              outputTokens: response.usage?.output_tokens ?? 0,
-              cachedTokens: response.usage?.cache_read_input_tokens ?? 0,
-              latencyMs: Date.now() - start,
-              featureTag,
-              provider: "anthropic",
-            }).catch(() => {});
-
-            return response;
-          },
-        };
+      const client = clientGetter();
+
+      switch (prop) {
+        case "messages":
+          return proxyMessages(client.messages);
+        case "beta":
+          return proxyResource(client.beta, {
+            messages: proxyMessages(client.beta?.messages),
+          });
       }
 
-      return clientGetter()[prop];
+      const value = client[prop];
+      return typeof value === "function" ? value.bind(client) : value;
     },
   });
 }
 
+/**
+ * An Anthropic client built from explicit options. Exposes the full client
+ * surface; the same methods are tracked as on the default `anthropic` export.
+ */
 export class TrackedAnthropic {
-  private _proxy: any;
+  [key: string]: any;
 
   constructor(options?: any) {
     const Anthropic = require("@anthropic-ai/sdk").default || require("@anthropic-ai/sdk");
     const client = new Anthropic(options);
-    this._proxy = createAnthropicProxy(() => client);
-  }
-
-  get messages() {
-    return this._proxy.messages;
+    return createAnthropicProxy(() => client);
   }
 }
 
@@ -0,0 +1,404 @@
+import {
+  CallFields,
+  track,
+  checkBudgets,
+  countTokens,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { CallContext } from "./context";
+import { contentText, textMessages } from "./content";
+import { Prompt, promptFields } from "./fingerprint";
+
+let _clientInstance: any = null;
+let _sdk: any = null;
+
+function getClient() {
+  if (!_clientInstance) {
+    const { BedrockRuntimeClient } = require("@aws-sdk/client-bedrock-runtime");
+    _clientInstance = new BedrockRuntimeClient({});
+  }
+  return _clientInstance;
+}
+
+/** @internal Test-only: inject a mock client */
+export function _setClientForTesting(client: any) {
+  _clientInstance = client;
+}
+
+/** @internal Test-only: inject stand-ins for the SDK's command classes */
+export function _setSdkForTesting(sdk: any) {
+  _sdk = sdk;
+}
+
+/**
+ * How a command's request and response are read. Converse has one shape for
+ * every model; InvokeModel bodies are in the model vendor's own format.
+ */
+interface Command {
+  streaming: boolean;
+  request: (input: any) => Partial<CallFields>;
+  prompt: (input: any) => Prompt;
+  /** Usage and outcome of a non-streaming response */
+  response?: (output: any) => { fields: CallFields; outputText: string };
+  /** Folds a stream event into the fields collected so far, returning its text */
+  onEvent?: (event: any, fields: CallFields) => string;
+  /** Whether a stream event carries generated content. Defaults to every event. */
+  isContent?: (event: any) => boolean;
+  /** The stream member of the command output */
+  streamKey?: "stream" | "body";
+}
+
+// ----- Converse -----
+
+/** Like Anthropic, Converse reports cache reads and writes outside `inputTokens` */
+function converseUsage(usage: any): CallFields {
+  return {
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    cachedTokens: usage?.cacheReadInputTokens ?? 0,
+    cacheWriteTokens: usage?.cacheWriteInputTokens ?? 0,
+  };
+}
+
+function converseRequest(input: any): Partial<CallFields> {
+  return {
+    messageCount: input.messages?.length,
+    toolCount: input.toolConfig?.tools?.length,
+    maxTokens: input.inferenceConfig?.maxTokens,
+    temperature: input.inferenceConfig?.temperature,
+  };
+}
+
+function conversePrompt(input: any): Prompt {
+  const messages = textMessages(input.messages);
+  if (input.system?.length) messages.unshift({ role: "system", content: contentText(input.system) });
+  return { messages, tools: input.toolConfig?.tools };
+}
+
+function blocksText(blocks: any[] | undefined): string {
+  return (blocks ?? [])
+    .filter((block: any) => typeof block.text === "string")
+    .map((block: any) => block.text)
+    .join("");
+}
+
+const converse: Command = {
+  streaming: false,
+  request: converseRequest,
+  prompt: conversePrompt,
+  response: (output) => {
+    const content = output.output?.message?.content;
+    return {
+      fields: {
+        ...converseUsage(output.usage),
+        finishReason: output.stopReason,
+        toolCallCount: (content ?? []).filter((block: any) => block.toolUse).length,
+      },
+      outputText: blocksText(content),
+    };
+  },
+};
+
+const converseStream: Command = {
+  streaming: true,
+  streamKey: "stream",
+  request: converseRequest,
+  prompt: conversePrompt,
+  onEvent(event, fields) {
+    if (event.contentBlockStart?.start?.toolUse) fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+    if (event.messageStop?.stopReason) fields.finishReason = event.messageStop.stopReason;
+    if (event.metadata?.usage) Object.assign(fields, converseUsage(event.metadata.usage));
+    return event.contentBlockDelta?.delta?.text ?? "";
+  },
+  isContent: (event) => event?.contentBlockDelta != null,
+};
+
+// ----- InvokeModel -----
+
+const decoder = new TextDecoder();
+
+function decodeJson(body: unknown): any {
+  if (body == null) return undefined;
+  const text = typeof body === "string" ? body : decoder.decode(body as Uint8Array);
+  return JSON.parse(text);
+}
+
+function invokeRequest(input: any): Partial<CallFields> {
+  const body = decodeJson(input.body) ?? {};
+  return {
+    messageCount: body.messages?.length,
+    toolCount: body.tools?.length ?? body.toolConfig?.tools?.length,
+    maxTokens:
+      body.max_tokens ??
+      body.max_gen_len ??
+      body.inferenceConfig?.max_new_tokens ??
+      body.textGenerationConfig?.maxTokenCount,
+    temperature: body.temperature ?? body.inferenceConfig?.temperature ?? body.textGenerationConfig?.temperature,
+  };
+}
+
+/** Messages for Anthropic and Nova bodies, a single prompt for the others */
+function invokePrompt(input: any): Prompt {
+  const body = decodeJson(input.body) ?? {};
+  if (Array.isArray(body.messages)) {
+    const messages = textMessages(body.messages);
+    if (body.system?.length) messages.unshift({ role: "system", content: contentText(body.system) });
+    return { messages, tools: body.tools ?? body.toolConfig?.tools };
+  }
+  const prompt = body.prompt ?? body.inputText ?? body.message ?? body.texts;
+  return { messages: prompt == null ? [] : [{ role: "user", content: contentText(prompt) }] };
+}
+
+/** Usage as reported in the body by Anthropic, Nova, Llama and Titan models */
+function invokeUsage(body: any): CallFields {
+  if (body.usage?.input_tokens != null) {
+    return {
+      inputTokens: body.usage.input_tokens,
+      outputTokens: body.usage.output_tokens ?? 0,
+      cachedTokens: body.usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: body.usage.cache_creation_input_tokens ?? 0,
+    };
+  }
+  if (body.usage?.inputTokens != null) {
+    return {
+      inputTokens: body.usage.inputTokens,
+      outputTokens: body.usage.outputTokens ?? 0,
+      cachedTokens: body.usage.cacheReadInputTokenCount ?? 0,
+      cacheWriteTokens: body.usage.cacheWriteInputTokenCount ?? 0,
+    };
+  }
+  return {
+    inputTokens: body.prompt_token_count ?? body.inputTextTokenCount ?? 0,
+    outputTokens:
+      body.generation_token_count ??
+      (body.results ?? []).reduce((count: number, result: any) => count + (result.tokenCount ?? 0), 0),
+  };
+}
+
+function invokeText(body: any): string {
+  if (Array.isArray(body.content)) return blocksText(body.content);
+  if (body.output?.message) return blocksText(body.output.message.content);
+  return (
+    body.generation ??
+    body.results?.[0]?.outputText ??
+    body.outputs?.[0]?.text ??
+    body.text ??
+    body.generations?.[0]?.text ??
+    ""
+  );
+}
+
+function invokeFinishReason(body: any): string | undefined {
+  return (
+    body.stop_reason ??
+    body.stopReason ??
+    body.results?.[0]?.completionReason ??
+    body.outputs?.[0]?.stop_reason ??
+    body.finish_reason ??
+    undefined
+  );
+}
+
+const invokeModel: Command = {
+  streaming: false,
+  request: invokeRequest,
+  prompt: invokePrompt,
+  response: (output) => {
+    const body = decodeJson(output.body) ?? {};
+    const embedding = body.embedding != null || body.embeddings != null;
+    return {
+      fields: {
+        ...invokeUsage(body),
+        finishReason: invokeFinishReason(body),
+        ...(embedding ? { operation: "embeddings" } : {}),
+      },
+      outputText: invokeText(body),
+    };
+  },
+};
+
+const invokeModelStream: Command = {
+  streaming: true,
+  streamKey: "body",
+  request: invokeRequest,
+  prompt: invokePrompt,
+  onEvent(event, fields) {
+    if (!event.chunk?.bytes) return "";
+    const body = decodeJson(event.chunk.bytes);
+    // Every model's last chunk carries the token counts Bedrock billed
+    const metrics = body["amazon-bedrock-invocationMetrics"];
+    if (metrics) {
+      fields.inputTokens = metrics.inputTokenCount ?? fields.inputTokens;
+      fields.outputTokens = metrics.outputTokenCount ?? fields.outputTokens;
+      if (metrics.cacheReadInputTokenCount != null) fields.cachedTokens = metrics.cacheReadInputTokenCount;
+      if (metrics.cacheWriteInputTokenCount != null) fields.cacheWriteTokens = metrics.cacheWriteInputTokenCount;
+    }
+    const finishReason = body.delta?.stop_reason ?? body.messageStop?.stopReason ?? invokeFinishReason(body);
+    if (finishReason) fields.finishReason = finishReason;
+    if (body.type === "content_block_start" && body.content_block?.type === "tool_use") {
+      fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+    }
+
+    if (body.type === "content_block_delta") return body.delta?.text ?? "";
+    return body.contentBlockDelta?.delta?.text ?? invokeText(body);
+  },
+};
+
+// Keyed by the SDK export of each command class, as the SDK exports one class per operation
+const COMMANDS: Record<string, Command> = {
+  ConverseCommand: converse,
+  ConverseStreamCommand: converseStream,
+  InvokeModelCommand: invokeModel,
+  InvokeModelWithResponseStreamCommand: invokeModelStream,
+};
+
+/**
+ * The command a request is an instance of. Classes are compared rather than
+ * their names, which bundlers may minify.
+ */
+function commandFor(request: any): Command | undefined {
+  try {
+    _sdk ??= require("@aws-sdk/client-bedrock-runtime");
+  } catch {
+    return undefined;
+  }
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    if (typeof _sdk[name] === "function" && request instanceof _sdk[name]) return command;
+  }
+  return undefined;
+}
+
+function requestFields(command: Command, input: any): Partial<CallFields> {
+  try {
+    return command.request(input);
+  } catch {
+    return {};
+  }
+}
+
+function wrapBedrockStream(
+  stream: AsyncIterable<any>,
+  command: Command,
+  model: string,
+  context: CallContext,
+  start: number,
+  callFields: Partial<CallFields>,
+  capture: boolean
+) {
+  const fields: CallFields = { ...callFields, inputTokens: 0, outputTokens: 0, toolCallCount: 0 };
+  let outputText = "";
+
+  return observeStream(stream, start, {
+    onChunk(event) {
+      outputText += command.onEvent!(event, fields);
+    },
+    isContent: command.isContent,
+    onEnd(stats) {
+      track({
+        model,
+        ...fields,
+        ..._outputFields(fields, model, outputText, capture),
+        ...context,
+        provider: "bedrock",
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+}
+
+function instrumentSend(client: any) {
+  return async (request: any, ...rest: any[]) => {
+    const command = commandFor(request);
+    if (!command) return client.send(request, ...rest);
+
+    // `feature_tag` and `agentracer` ride on the command input and are removed
+    // before the SDK serializes it. A copy of the command is sent, so the
+    // caller's command keeps its input and can be sent again.
+    const { feature_tag, agentracer, ...input } = request.input ?? {};
+    const sent = Object.assign(Object.create(Object.getPrototypeOf(request)), request, { input });
+    const context = _callContext(feature_tag, agentracer);
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const model = input.modelId ?? "unknown";
+    const capture = _capturesContent(context.featureTag);
+    const callFields: Partial<CallFields> = {
+      operation: "chat",
+      ...requestFields(command, input),
+      ...promptFields(() => command.prompt(input), (text) => countTokens(text, model), capture),
+    };
+
+    const start = Date.now();
+    let output: any;
+    try {
+      output = await client.send(sent, ...rest);
+    } catch (err: any) {
+      _trackFailure(model, "bedrock", context, callFields, start, err, command.streaming);
+      throw err;
+    }
+
+    const responseFields = { ...callFields, requestId: output?.$metadata?.requestId };
+
+    if (command.streaming) {
+      const key = command.streamKey!;
+      const stream = wrapBedrockStream(output[key], command, model, context, start, responseFields, capture);
+      return { ...output, [key]: stream };
+    }
+
+    _trackResponse(() => {
+      const { fields, outputText } = command.response!(output);
+      return {
+        model,
+        ...responseFields,
+        ...fields,
+        ...(fields.operation === "embeddings"
+          ? {}
+          : _outputFields({ ...responseFields, ...fields }, model, outputText, capture)),
+        latencyMs: Date.now() - start,
+        ...context,
+        provider: "bedrock",
+      };
+    });
+
+    return output;
+  };
+}
+
+/**
+ * Bedrock clients run every operation through `send(command)`. Converse,
+ * ConverseStream, InvokeModel and InvokeModelWithResponseStream commands are
+ * tracked; any other command is sent untouched.
+ */
+function createBedrockProxy(clientGetter: () => any) {
+  return new Proxy({} as any, {
+    get(_, prop) {
+      const client = clientGetter();
+      if (prop === "send") return instrumentSend(client);
+
+      const value = client[prop];
+      return typeof value === "function" ? value.bind(client) : value;
+    },
+  });
+}
+
+/**
+ * A `BedrockRuntimeClient` built from explicit options, such as `region` or
+ * `credentials`. Exposes the full client surface; the same commands are
+ * tracked as on the default `bedrock` export.
+ */
+export class TrackedBedrock {
+  [key: string]: any;
+
+  constructor(options?: any) {
+    const { BedrockRuntimeClient } = require("@aws-sdk/client-bedrock-runtime");
+    const client = new BedrockRuntimeClient(options ?? {});
+    return createBedrockProxy(() => client);
+  }
+}
+
+export const bedrock = createBedrockProxy(() => getClient());
@@ -0,0 +1,225 @@
+export type BudgetScope = "global" | "feature" | "end_user" | "run";
+
+export type BudgetWindow = "minute" | "hour" | "day" | number;
+
+export interface Budget {
+  /** Label reported in callbacks and errors */
+  name?: string;
+  scope: BudgetScope;
+  /**
+   * Only apply to this feature tag, end user or run ID. When omitted, each
+   * feature / end user / run gets its own allowance.
+   */
+  match?: string;
+  /** Rolling window, or milliseconds. Omit to count everything since startup (or since the run began). */
+  window?: BudgetWindow;
+  maxCostUsd?: number;
+  maxTokens?: number;
+  /** `"block"` throws `BudgetExceededError`; `"warn"` only calls `onExceeded`. Default: `"block"` */
+  action?: "block" | "warn";
+  onExceeded?: (status: BudgetStatus) => void;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  /** The feature tag, end user or run ID the allowance belongs to; `"*"` for global budgets */
+  key: string;
+  costUsd: number;
+  tokens: number;
+}
+
+export interface BudgetContext {
+  featureTag?: string;
+  endUserId?: string;
+  runId?: string;
+}
+
+export class BudgetExceededError extends Error {
+  budget: Budget;
+  key: string;
+  costUsd: number;
+  tokens: number;
+
+  constructor(status: BudgetStatus) {
+    const label = status.budget.name ?? `${status.budget.scope} budget`;
+    super(
+      `agentracer: ${label} exceeded for "${status.key}" ` +
+        `($${status.costUsd.toFixed(4)}, ${status.tokens} tokens)`
+    );
+    this.name = "BudgetExceededError";
+    this.budget = status.budget;
+    this.key = status.key;
+    this.costUsd = status.costUsd;
+    this.tokens = status.tokens;
+  }
+}
+
+const WINDOW_MS: Record<string, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+function windowMs(window?: BudgetWindow): number {
+  if (window == null) return Infinity;
+  return typeof window === "number" ? window : WINDOW_MS[window];
+}
+
+function keyFor(budget: Budget, ctx: BudgetContext): string | undefined {
+  let key: string | undefined;
+  switch (budget.scope) {
+    case "global":
+      return "*";
+    case "feature":
+      key = ctx.featureTag;
+      break;
+    case "end_user":
+      key = ctx.endUserId;
+      break;
+    case "run":
+      key = ctx.runId;
+      break;
+  }
+  if (key == null) return undefined;
+  if (budget.match != null && budget.match !== key) return undefined;
+  return key;
+}
+
+/** Spend is kept in this many buckets per window, however many calls it spans */
+const BUCKETS_PER_WINDOW = 60;
+
+/** How often keys whose window has emptied are swept, for keys no call touches again */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/** Spend of the calls made within one bucket */
+interface UsageBucket {
+  /** Time of the bucket's first call */
+  start: number;
+  /** Time of its last call; the bucket leaves the window with it */
+  at: number;
+  costUsd: number;
+  tokens: number;
+}
+
+/** Rolling spend per budget and key, fed by locally computed cost and tokens. */
+export class BudgetTracker {
+  private usage = new Map<Budget, Map<string, UsageBucket[]>>();
+  private sweepAt = 0;
+
+  record(
+    budgets: Budget[],
+    ctx: BudgetContext,
+    costUsd: number,
+    tokens: number,
+    now = Date.now()
+  ): void {
+    if (now >= this.sweepAt) this.sweep(now);
+
+    for (const budget of budgets) {
+      const key = keyFor(budget, ctx);
+      if (key == null) continue;
+
+      let byKey = this.usage.get(budget);
+      if (!byKey) this.usage.set(budget, (byKey = new Map()));
+      const buckets = this.prune(budget, byKey.get(key) ?? [], now);
+
+      // Without a window the one bucket is the running total
+      const last = buckets[buckets.length - 1];
+      if (last && now - last.start < windowMs(budget.window) / BUCKETS_PER_WINDOW) {
+        last.at = now;
+        last.costUsd += costUsd;
+        last.tokens += tokens;
+      } else {
+        buckets.push({ start: now, at: now, costUsd, tokens });
+      }
+      byKey.set(key, buckets);
+    }
+  }
+
+  /**
+   * Checks every budget that applies to `ctx`. Calls `onExceeded` for each
+   * exhausted budget and throws for the first one whose action is `"block"`.
+   * `pending` is the expected usage of the call about to be made: a budget
+   * that call would overshoot counts as exhausted.
+   */
+  check(
+    budgets: Budget[],
+    ctx: BudgetContext,
+    now = Date.now(),
+    pending: { costUsd?: number; tokens?: number } = {}
+  ): void {
+    let blocking: BudgetStatus | undefined;
+
+    for (const budget of budgets) {
+      const key = keyFor(budget, ctx);
+      if (key == null) continue;
+
+      const status = this.status(budget, key, now);
+      const over = (spent: number, expected: number, max: number | undefined) =>
+        max != null && (spent >= max || spent + expected > max);
+      const exceeded =
+        over(status.costUsd, pending.costUsd ?? 0, budget.maxCostUsd) ||
+        over(status.tokens, pending.tokens ?? 0, budget.maxTokens);
+      if (!exceeded) continue;
+
+      try {
+        budget.onExceeded?.(status);
+      } catch {
+        // a faulty callback must not change the outcome
+      }
+      if ((budget.action ?? "block") === "block" && !blocking) blocking = status;
+    }
+
+    if (blocking) throw new BudgetExceededError(blocking);
+  }
+
+  status(budget: Budget, key: string, now = Date.now()): BudgetStatus {
+    const byKey = this.usage.get(budget);
+    const stored = byKey?.get(key);
+    const buckets = stored ? this.prune(budget, stored, now) : [];
+    if (stored && buckets.length === 0) byKey!.delete(key);
+    else if (stored && buckets !== stored) byKey!.set(key, buckets);
+
+    let costUsd = 0;
+    let tokens = 0;
+    for (const bucket of buckets) {
+      costUsd += bucket.costUsd;
+      tokens += bucket.tokens;
+    }
+    return { budget, key, costUsd, tokens };
+  }
+
+  /** Forget run-scoped spend once a run has ended. */
+  releaseRun(runId: string): void {
+    for (const [budget, byKey] of this.usage) {
+      if (budget.scope === "run") byKey.delete(runId);
+    }
+  }
+
+  clear(): void {
+    this.usage.clear();
+    this.sweepAt = 0;
+  }
+
+  private prune(budget: Budget, buckets: UsageBucket[], now: number): UsageBucket[] {
+    const span = windowMs(budget.window);
+    if (span === Infinity) return buckets;
+    const cutoff = now - span;
+    let i = 0;
+    while (i < buckets.length && buckets[i].at <= cutoff) i++;
+    return i === 0 ? buckets : buckets.slice(i);
+  }
+
+  /** Drops every key whose window has emptied */
+  private sweep(now: number): void {
+    this.sweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [budget, byKey] of this.usage) {
+      for (const [key, buckets] of byKey) {
+        const kept = this.prune(budget, buckets, now);
+        if (kept.length === 0) byKey.delete(key);
+        else if (kept !== buckets) byKey.set(key, kept);
+      }
+      if (byKey.size === 0) this.usage.delete(budget);
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  CallFields,
+  track,
+  checkBudgets,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _chatRequestFields,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { CallContext } from "./context";
+import { contentText } from "./content";
+
+let _clientInstance: any = null;
+
+function getClient() {
+  if (!_clientInstance) {
+    const { CohereClientV2 } = require("cohere-ai");
+    _clientInstance = new CohereClientV2();
+  }
+  return _clientInstance;
+}
+
+/** @internal Test-only: inject a mock client */
+export function _setClientForTesting(client: any) {
+  _clientInstance = client;
+}
+
+/**
+ * Billed units are what Cohere charges for; `tokens` also counts the
+ * template tokens Cohere adds around the prompt. The SDK camel-cases the
+ * HTTP API's snake_case keys.
+ */
+function chatUsage(usage: any): CallFields {
+  const billed = usage?.billedUnits ?? usage?.billed_units;
+  const tokens = usage?.tokens;
+  return {
+    inputTokens: billed?.inputTokens ?? billed?.input_tokens ?? tokens?.inputTokens ?? tokens?.input_tokens ?? 0,
+    outputTokens: billed?.outputTokens ?? billed?.output_tokens ?? tokens?.outputTokens ?? tokens?.output_tokens ?? 0,
+  };
+}
+
+/** @internal Parsers `instrumentFetch()` shares with the SDK wrapper */
+export const _parsers = { chatUsage };
+
+function responseOutcome(response: any): Partial<CallFields> {
+  return {
+    finishReason: response.finishReason ?? undefined,
+    toolCallCount: response.message?.toolCalls?.length ?? 0,
+  };
+}
+
+function foldStreamEvent(event: any, fields: CallFields) {
+  if (event.type === "tool-call-start") fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+  if (event.type === "message-end") {
+    if (event.delta?.finishReason) fields.finishReason = event.delta.finishReason;
+    if (event.delta?.usage) Object.assign(fields, chatUsage(event.delta.usage));
+  }
+}
+
+function textDelta(event: any): string {
+  return event.type === "content-delta" ? event.delta?.message?.content?.text ?? "" : "";
+}
+
+const isContentEvent = (event: any) => event?.type === "content-delta" || event?.type === "tool-call-start";
+
+function wrapCohereStream(
+  stream: AsyncIterable<any>,
+  params: any,
+  context: CallContext,
+  start: number,
+  requestFields: Partial<CallFields>
+) {
+  const fields: CallFields = { ...requestFields, inputTokens: 0, outputTokens: 0, toolCallCount: 0 };
+  let outputText = "";
+
+  return observeStream(stream, start, {
+    onChunk(event) {
+      foldStreamEvent(event, fields);
+      outputText += textDelta(event);
+    },
+    isContent: isContentEvent,
+    onEnd(stats) {
+      track({
+        model: params.model,
+        ...fields,
+        ..._outputFields(fields, params.model, outputText, _capturesContent(context.featureTag)),
+        ...context,
+        provider: "cohere",
+        operation: "chat",
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+}
+
+function resolveContext(params: any): CallContext {
+  return _callContext(params.feature_tag, params.agentracer);
+}
+
+function chatRequest(params: any, context: CallContext): Partial<CallFields> {
+  return { ..._chatRequestFields(params, params.maxTokens, context.featureTag), operation: "chat" };
+}
+
+function instrumentChat(client: any) {
+  return async (params: any, ...rest: any[]) => {
+    const context = resolveContext(params);
+    const { feature_tag, agentracer, ...cleanParams } = params;
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const requestFields = chatRequest(cleanParams, context);
+    const start = Date.now();
+    let response: any;
+    try {
+      response = await client.chat(cleanParams, ...rest);
+    } catch (err: any) {
+      _trackFailure(cleanParams.model ?? "unknown", "cohere", context, requestFields, start, err);
+      throw err;
+    }
+
+    _trackResponse(() => {
+      const usage = chatUsage(response.usage);
+      const outputText = contentText(response.message?.content);
+      const capture = _capturesContent(context.featureTag);
+      return {
+        model: cleanParams.model,
+        ...requestFields,
+        ...usage,
+        ...responseOutcome(response),
+        ..._outputFields({ ...requestFields, ...usage }, cleanParams.model, outputText, capture),
+        latencyMs: Date.now() - start,
+        ...context,
+        provider: "cohere",
+      };
+    });
+
+    return response;
+  };
+}
+
+function instrumentChatStream(client: any) {
+  return async (params: any, ...rest: any[]) => {
+    const context = resolveContext(params);
+    const { feature_tag, agentracer, ...cleanParams } = params;
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const requestFields = chatRequest(cleanParams, context);
+    const start = Date.now();
+    let stream: any;
+    try {
+      stream = await client.chatStream(cleanParams, ...rest);
+    } catch (err: any) {
+      _trackFailure(cleanParams.model ?? "unknown", "cohere", context, requestFields, start, err, true);
+      throw err;
+    }
+
+    return wrapCohereStream(stream, cleanParams, context, start, requestFields);
+  };
+}
+
+function instrumentEmbed(client: any) {
+  return async (params: any, ...rest: any[]) => {
+    const context = resolveContext(params);
+    const { feature_tag, agentracer, ...cleanParams } = params;
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const start = Date.now();
+    let response: any;
+    try {
+      response = await client.embed(cleanParams, ...rest);
+    } catch (err: any) {
+      _trackFailure(cleanParams.model ?? "unknown", "cohere", context, { operation: "embeddings" }, start, err);
+      throw err;
+    }
+
+    track({
+      model: cleanParams.model ?? "unknown",
+      inputTokens: response.meta?.billedUnits?.inputTokens ?? 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - start,
+      ...context,
+      provider: "cohere",
+      operation: "embeddings",
+    }).catch(() => {});
+
+    return response;
+  };
+}
+
+/** Chat, chat streaming and embeddings are tracked; the client itself is flat */
+function createCohereProxy(clientGetter: () => any) {
+  return new Proxy({} as any, {
+    get(_, prop) {
+      const client = clientGetter();
+
+      switch (prop) {
+        case "chat":
+          return instrumentChat(client);
+        case "chatStream":
+          return instrumentChatStream(client);
+        case "embed":
+          return instrumentEmbed(client);
+      }
+
+      const value = client[prop];
+      return typeof value === "function" ? value.bind(client) : value;
+    },
+  });
+}
+
+/**
+ * A Cohere v2 client built from explicit options. Exposes the full client
+ * surface; the same methods are tracked as on the default `cohere` export.
+ */
+export class TrackedCohere {
+  [key: string]: any;
+
+  constructor(options?: any) {
+    const { CohereClientV2 } = require("cohere-ai");
+    const client = new CohereClientV2(options);
+    return createCohereProxy(() => client);
+  }
+}
+
+export const cohere = createCohereProxy(() => getClient());
@@ -0,0 +1,121 @@
+import { createHash } from "crypto";
+
+/** A prompt message flattened to text */
+export interface ContentMessage {
+  role: string;
+  content: string;
+}
+
+export type Redactor = "email" | "phone" | "api_key" | "credit_card";
+
+export interface CaptureContentOptions {
+  /** Feature tags whose prompts and outputs are captured. Default: every feature */
+  features?: string[];
+  /** Built-in redactors to apply. Default: all of them */
+  redactors?: Redactor[];
+  /** Applied after the built-in redactors, e.g. to mask customer IDs */
+  redact?: (text: string) => string;
+  /** Characters kept per message and per output. Default: 4000 */
+  maxLength?: number;
+  /** Send a SHA-256 of the redacted text instead of the text itself */
+  hash?: boolean;
+}
+
+const DEFAULT_MAX_LENGTH = 4000;
+
+/** Luhn checksum, so order numbers and timestamps are not taken for cards */
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Applied in this order: keys and cards contain digit runs the phone pattern
+// would otherwise partially match
+const REDACTORS: { name: Redactor; pattern: RegExp; replacement: string; valid?: (match: string) => boolean }[] = [
+  {
+    name: "api_key",
+    // OpenAI and Anthropic, Google, AWS access key IDs, GitHub and Slack tokens
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{16,}|AIza[0-9A-Za-z_-]{35}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abpr]-[A-Za-z0-9-]{10,})/g,
+    replacement: "[API_KEY]",
+  },
+  {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: "[EMAIL]",
+  },
+  {
+    name: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: "[CREDIT_CARD]",
+    valid: (match) => luhn(match.replace(/\D/g, "")),
+  },
+  {
+    name: "phone",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b|\+\d{7,15}\b/g,
+    replacement: "[PHONE]",
+  },
+];
+
+/** Whether calls for `featureTag` have their content captured */
+export function capturesContent(options: CaptureContentOptions | undefined, featureTag: string): boolean {
+  if (!options) return false;
+  return options.features == null || options.features.includes(featureTag);
+}
+
+export function redactText(text: string, options: CaptureContentOptions = {}): string {
+  let redacted = text;
+  for (const redactor of REDACTORS) {
+    if (options.redactors && !options.redactors.includes(redactor.name)) continue;
+    redacted = redacted.replace(redactor.pattern, (match) =>
+      redactor.valid && !redactor.valid(match) ? match : redactor.replacement
+    );
+  }
+  return options.redact ? options.redact(redacted) : redacted;
+}
+
+/** Redacts, then truncates or hashes, a captured text */
+export function captureText(text: string, options: CaptureContentOptions): string {
+  const redacted = redactText(text, options);
+  if (options.hash) return `sha256:${createHash("sha256").update(redacted).digest("hex")}`;
+
+  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+  return redacted.length > maxLength ? `${redacted.slice(0, maxLength)}…` : redacted;
+}
+
+export function captureMessages(messages: ContentMessage[], options: CaptureContentOptions): ContentMessage[] {
+  return messages.map((message) => ({ role: message.role, content: captureText(message.content, options) }));
+}
+
+/**
+ * Flattens message content to text. Accepts a string or an array of parts in
+ * the OpenAI, Anthropic or Gemini shape; parts without text, such as images
+ * or tool calls, become a `[type]` placeholder.
+ */
+export function contentText(content: unknown): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return contentText([content]);
+
+  return content
+    .map((part: any) => {
+      if (typeof part === "string") return part;
+      if (typeof part?.text === "string") return part.text;
+      const type = part?.type ?? (part && typeof part === "object" ? Object.keys(part)[0] : undefined);
+      return `[${type ?? "unknown"}]`;
+    })
+    .join("\n");
+}
+
+/** Chat messages with a `role` and a `content`, flattened to text */
+export function textMessages(messages: any[] | undefined): ContentMessage[] {
+  return (messages ?? []).map((message: any) => ({ role: message.role, content: contentText(message.content) }));
+}
@@ -0,0 +1,109 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type MetadataValue = string | number | boolean;
+
+/** Who and what a call is made for, attached to every call and run event */
+export interface AgentracerContext {
+  featureTag?: string;
+  endUserId?: string;
+  sessionId?: string;
+  tenantId?: string;
+  metadata?: Record<string, MetadataValue>;
+}
+
+/** Context of a tracked call, with the feature tag resolved */
+export type CallContext = AgentracerContext & { featureTag: string };
+
+export interface ContextLimits {
+  /** Metadata keys kept per event; later keys are dropped. Default 20. */
+  maxMetadataKeys?: number;
+  /** Longer keys are dropped. Default 64. */
+  maxKeyLength?: number;
+  /** Longer string values and IDs are truncated. Default 256. */
+  maxValueLength?: number;
+  /**
+   * Distinct values recorded per metadata key; once reached, new values are
+   * sent as `"__other__"`. Default 1000.
+   */
+  maxDistinctValues?: number;
+}
+
+const DEFAULT_LIMITS: Required<ContextLimits> = {
+  maxMetadataKeys: 20,
+  maxKeyLength: 64,
+  maxValueLength: 256,
+  maxDistinctValues: 1000,
+};
+
+export const OVERFLOW_VALUE = "__other__";
+
+export const contextStorage = new AsyncLocalStorage<AgentracerContext>();
+
+/** Layers `override` on top of `base`; metadata is merged key by key */
+export function mergeContexts(
+  base: AgentracerContext | undefined,
+  override: AgentracerContext | undefined
+): AgentracerContext {
+  const merged: AgentracerContext = { ...base };
+  if (!override) return merged;
+
+  for (const key of ["featureTag", "endUserId", "sessionId", "tenantId"] as const) {
+    if (override[key] != null) merged[key] = override[key];
+  }
+  if (override.metadata) merged.metadata = { ...base?.metadata, ...override.metadata };
+  return merged;
+}
+
+/**
+ * Keeps context within size and cardinality limits, so a runaway metadata
+ * value (a request ID, a free-text field) cannot explode the number of
+ * distinct series downstream.
+ */
+export class ContextLimiter {
+  private seen = new Map<string, Set<MetadataValue>>();
+
+  apply(context: AgentracerContext, options?: ContextLimits): AgentracerContext {
+    const limits = { ...DEFAULT_LIMITS, ...options };
+    const truncate = (value: string | undefined) =>
+      value == null ? undefined : value.slice(0, limits.maxValueLength);
+
+    const limited: AgentracerContext = {
+      featureTag: context.featureTag,
+      endUserId: truncate(context.endUserId),
+      sessionId: truncate(context.sessionId),
+      tenantId: truncate(context.tenantId),
+    };
+
+    if (context.metadata) {
+      const metadata: Record<string, MetadataValue> = {};
+      let count = 0;
+      for (const [key, raw] of Object.entries(context.metadata)) {
+        if (count >= limits.maxMetadataKeys) break;
+        if (key.length > limits.maxKeyLength) continue;
+        if (typeof raw !== "string" && typeof raw !== "number" && typeof raw !== "boolean") continue;
+        const value = typeof raw === "string" ? raw.slice(0, limits.maxValueLength) : raw;
+        metadata[key] = this.track(key, value, limits.maxDistinctValues);
+        count++;
+      }
+      limited.metadata = metadata;
+    }
+
+    return limited;
+  }
+
+  private track(key: string, value: MetadataValue, maxDistinctValues: number): MetadataValue {
+    let values = this.seen.get(key);
+    if (!values) {
+      values = new Set();
+      this.seen.set(key, values);
+    }
+    if (values.has(value)) return value;
+    if (values.size >= maxDistinctValues) return OVERFLOW_VALUE;
+    values.add(value);
+    return value;
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+}
@@ -0,0 +1,157 @@
+export type ErrorCategory =
+  | "rate_limit"
+  | "timeout"
+  | "auth"
+  | "invalid_request"
+  | "content_filter"
+  | "server_error"
+  | "network"
+  | "unknown";
+
+export interface ErrorInfo {
+  category: ErrorCategory;
+  httpStatus?: number;
+  /** Provider request ID, for support tickets */
+  requestId?: string;
+  /** Whether the same request may succeed if sent again */
+  retryable: boolean;
+}
+
+const NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const CONTENT_FILTER_CODES = new Set(["content_filter", "content_policy_violation"]);
+
+const RETRYABLE_CATEGORIES = new Set<ErrorCategory>(["rate_limit", "timeout", "server_error", "network"]);
+
+/** Reads a header from a fetch `Headers` object or a plain record */
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") return headers.get(name) ?? undefined;
+  return headers[name] ?? headers[name.toLowerCase()];
+}
+
+function numberHeader(headers: any, name: string): number | undefined {
+  const value = header(headers, name);
+  if (value == null) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function requestIdFrom(headers: any): string | undefined {
+  return header(headers, "x-request-id") ?? header(headers, "request-id");
+}
+
+function categorize(err: any, status: number | undefined): ErrorCategory {
+  // SDK error classes keep the default `name`, DOMExceptions only set `name`
+  const name = `${err?.constructor?.name ?? ""} ${err?.name ?? ""}`;
+  const code: string | undefined = err?.code ?? err?.error?.code ?? err?.cause?.code;
+  const message: string = err?.message ?? "";
+
+  if (/timeout/i.test(name) || code === "ETIMEDOUT" || status === 408 || status === 504) return "timeout";
+  if (
+    (code && NETWORK_CODES.has(code)) ||
+    /\b(APIConnectionError|FetchError)\b/.test(name) ||
+    (err instanceof TypeError && /fetch failed/i.test(message))
+  ) {
+    return "network";
+  }
+  // Gemini throws response errors for blocked prompts and candidates
+  if (
+    (code && CONTENT_FILTER_CODES.has(code)) ||
+    (name.includes("GoogleGenerativeAIResponseError") && /SAFETY|blocked/i.test(message))
+  ) {
+    return "content_filter";
+  }
+  if (status === 429) return "rate_limit";
+  if (status === 401 || status === 403) return "auth";
+  if (status != null && status >= 500) return "server_error";
+  if ((status != null && status >= 400) || name.includes("GoogleGenerativeAIRequestInputError")) {
+    return "invalid_request";
+  }
+  return "unknown";
+}
+
+/**
+ * Maps a provider SDK error, or a network error from fetch, to one category
+ * shared across providers.
+ */
+export function classifyError(err: unknown): ErrorInfo {
+  const e: any = err;
+  // AWS SDK errors carry the response status in `$metadata`
+  const rawStatus = e?.status ?? e?.statusCode ?? e?.response?.status ?? e?.$metadata?.httpStatusCode;
+  const httpStatus = typeof rawStatus === "number" ? rawStatus : undefined;
+  const category = categorize(e, httpStatus);
+
+  // Exhausted billing quota is reported as a 429 but never clears by itself
+  let retryable = RETRYABLE_CATEGORIES.has(category) && e?.code !== "insufficient_quota";
+  // Both SDKs honour an explicit retry hint from the API
+  const shouldRetry = header(e?.headers, "x-should-retry");
+  if (shouldRetry === "true") retryable = true;
+  if (shouldRetry === "false") retryable = false;
+
+  return {
+    category,
+    httpStatus,
+    requestId: e?.request_id ?? e?.requestID ?? e?.$metadata?.requestId ?? requestIdFrom(e?.headers),
+    retryable,
+  };
+}
+
+export interface RateLimitInfo {
+  rateLimitRemainingRequests?: number;
+  rateLimitRemainingTokens?: number;
+}
+
+/** Remaining quota from OpenAI `x-ratelimit-*` or Anthropic `anthropic-ratelimit-*` headers */
+export function rateLimitFromHeaders(headers: any): RateLimitInfo {
+  return {
+    rateLimitRemainingRequests:
+      numberHeader(headers, "x-ratelimit-remaining-requests") ??
+      numberHeader(headers, "anthropic-ratelimit-requests-remaining"),
+    rateLimitRemainingTokens:
+      numberHeader(headers, "x-ratelimit-remaining-tokens") ??
+      numberHeader(headers, "anthropic-ratelimit-tokens-remaining"),
+  };
+}
+
+/** `track()` options describing a failed call */
+export function errorTrackOptions(err: unknown) {
+  const info = classifyError(err);
+  const e: any = err;
+  return {
+    success: false,
+    errorType: e?.constructor?.name ?? "Error",
+    errorCategory: info.category,
+    httpStatus: info.httpStatus,
+    requestId: info.requestId,
+    retryable: info.retryable,
+    ...rateLimitFromHeaders(e?.headers),
+  };
+}
+
+/**
+ * Awaits an SDK request, reading the response headers when the SDK exposes
+ * them through `withResponse()` (OpenAI and Anthropic API promises). The data
+ * is the same value the caller would get from awaiting the promise.
+ */
+export async function withResponseHeaders(request: any): Promise<{ data: any; headers?: any }> {
+  if (typeof request?.withResponse !== "function") return { data: await request };
+  const { data, response } = await request.withResponse();
+  return { data, headers: response?.headers };
+}
+
+/** `track()` options read from the headers of a successful response */
+export function responseTrackOptions(headers: any) {
+  if (!headers) return {};
+  return { requestId: requestIdFrom(headers), ...rateLimitFromHeaders(headers) };
+}
@@ -0,0 +1,160 @@
+import { promises as fs } from "fs";
+import { getConfig } from "./index";
+import { IngestHttpError, TelemetryEvent, parseRetryAfter } from "./transport";
+
+/**
+ * Destination for telemetry. Every exporter receives each batch of call,
+ * run and incident events; a rejected `export()` is retried with backoff.
+ */
+export interface Exporter {
+  export(events: TelemetryEvent[]): Promise<void>;
+  /** Called once by `shutdown()` after the final flush */
+  shutdown?(): Promise<void>;
+}
+
+/** Posts batches to the Agentracer ingest API. This is the default exporter. */
+export class HttpExporter implements Exporter {
+  constructor(
+    private options: {
+      /** Defaults to the `host` passed to `init()` */
+      host?: string;
+      /** Defaults to the `trackerApiKey` passed to `init()` */
+      apiKey?: string;
+      timeoutMs?: number;
+    } = {}
+  ) {}
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    const config = getConfig();
+    const response = await fetch(`${this.options.host ?? config.host}/api/ingest/batch`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.options.apiKey ?? config.trackerApiKey,
+      },
+      body: JSON.stringify({ events }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 2000),
+    });
+
+    if (!response.ok) {
+      throw new IngestHttpError(
+        response.status,
+        parseRetryAfter(response.headers?.get("retry-after"))
+      );
+    }
+  }
+}
+
+function formatEvent(event: TelemetryEvent): string {
+  const p = event.payload;
+  switch (event.type) {
+    case "call": {
+      const cost = p.cost_usd == null ? "$?" : `$${Number(p.cost_usd).toFixed(6)}`;
+      const status = p.success === false ? ` FAILED ${p.error_type ?? ""}`.trimEnd() : "";
+      return (
+        `call ${p.provider}/${p.model} [${p.feature_tag}] ` +
+        `${p.input_tokens} in / ${p.output_tokens} out ${cost} ${p.latency_ms}ms${status}`
+      );
+    }
+    case "run_start":
+      return `run_start ${p.run_id}${p.run_name ? ` (${p.run_name})` : ""} [${p.feature_tag}]`;
+    case "run_step":
+      return `run_step ${p.run_id} #${p.step_index} ${p.step_type} ${p.model ?? ""}`.trimEnd();
+    case "run_heartbeat":
+      return `run_heartbeat ${p.run_id} ${p.duration_ms}ms ${p.step_count} steps`;
+    case "run_end":
+      return `run_end ${p.run_id} ${p.status}${p.error_type ? ` ${p.error_type}` : ""}`;
+    case "incident":
+      return `incident ${p.message}`;
+    default:
+      return `${event.type} ${JSON.stringify(p)}`;
+  }
+}
+
+/** Prints one human-readable line per event. */
+export class ConsoleExporter implements Exporter {
+  constructor(private options: { log?: (line: string) => void } = {}) {}
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    const log = this.options.log ?? console.log;
+    for (const event of events) log(`[agentracer] ${formatEvent(event)}`);
+  }
+}
+
+/** Keeps every exported event in memory. Intended for tests. */
+export class MemoryExporter implements Exporter {
+  events: TelemetryEvent[] = [];
+
+  async export(events: TelemetryEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  /** Payloads of the exported events, optionally narrowed to one type */
+  payloads(type?: TelemetryEvent["type"]): Record<string, any>[] {
+    return this.events.filter((e) => type == null || e.type === type).map((e) => e.payload);
+  }
+
+  reset(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Appends events as JSON lines. When the file would grow past `maxBytes` it
+ * is rotated to `<path>.1`, shifting older files up to `<path>.<maxFiles>`.
+ */
+export class FileExporter implements Exporter {
+  private size: number | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private options: {
+      path: string;
+      /** Default: 10 MB */
+      maxBytes?: number;
+      /** Rotated files kept besides the active one. Default: 5 */
+      maxFiles?: number;
+    }
+  ) {}
+
+  export(events: TelemetryEvent[]): Promise<void> {
+    // Serialize writes so rotation never races with an append
+    const next = this.writing.then(() => this.write(events));
+    this.writing = next.catch(() => {});
+    return next;
+  }
+
+  private async write(events: TelemetryEvent[]): Promise<void> {
+    const chunk = events.map((e) => JSON.stringify(e) + "\n").join("");
+    const bytes = Buffer.byteLength(chunk);
+    const maxBytes = this.options.maxBytes ?? 10 * 1024 * 1024;
+
+    if (this.size == null) {
+      try {
+        this.size = (await fs.stat(this.options.path)).size;
+      } catch {
+        this.size = 0;
+      }
+    }
+
+    if (this.size > 0 && this.size + bytes > maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+
+    await fs.appendFile(this.options.path, chunk);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const { path } = this.options;
+    const maxFiles = this.options.maxFiles ?? 5;
+
+    await fs.rm(`${path}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+    }
+    if (maxFiles > 0) await fs.rename(path, `${path}.1`);
+    else await fs.rm(path, { force: true });
+  }
+}
@@ -0,0 +1,400 @@
+import {
+  CallFields,
+  track,
+  checkBudgets,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _chatRequestShape,
+  _outputFields,
+  _trackFailure,
+} from "./index";
+import { observeStream } from "./streaming";
+import { ingestStorage } from "./transport";
+import { CallContext } from "./context";
+import { ContentMessage, contentText, textMessages } from "./content";
+import { responseTrackOptions } from "./errors";
+import { Endpoint, _endpoints as openaiEndpoints, _endpointPrompt } from "./openai";
+import { _parsers as anthropic } from "./anthropic";
+import { _parsers as gemini } from "./gemini";
+import { _parsers as cohere } from "./cohere";
+
+export interface InstrumentFetchOptions {
+  /**
+   * Further hosts to track, mapped to a provider name, e.g.
+   * `{ "localhost:11434": "ollama" }`. Hosts of providers other than
+   * `anthropic`, `gemini` and `cohere` are parsed as OpenAI-compatible APIs.
+   */
+  hosts?: Record<string, string>;
+  /** Feature tag for every tracked request. Default: from context */
+  featureTag?: string;
+}
+
+const KNOWN_HOSTS: Record<string, string> = {
+  "api.openai.com": "openai",
+  "api.anthropic.com": "anthropic",
+  "generativelanguage.googleapis.com": "gemini",
+  "api.mistral.ai": "mistral",
+  "api.cohere.com": "cohere",
+  "api.cohere.ai": "cohere",
+  "api.groq.com": "groq",
+  "api.together.xyz": "together",
+  "api.fireworks.ai": "fireworks",
+  "api.deepseek.com": "deepseek",
+  "api.x.ai": "xai",
+  "openrouter.ai": "openrouter",
+};
+
+const anthropicMessages: Endpoint = {
+  operation: "chat",
+  request: (params) => _chatRequestShape(params, params.max_tokens),
+  usage: (message) => ({ ...anthropic.messageUsage(message.usage), ...anthropic.messageOutcome(message) }),
+  stream: {
+    onChunk: anthropic.foldStreamEvent,
+    isContent: (event) => event.type === "content_block_delta",
+  },
+  prompt: (params) => anthropic.messagesPrompt(params).messages,
+  content: {
+    output: anthropic.messageText,
+    delta: (event) =>
+      event.type === "content_block_delta" && event.delta?.type === "text_delta" ? event.delta.text : undefined,
+  },
+};
+
+const geminiGenerate: Endpoint = {
+  operation: "chat",
+  request: (params) => ({
+    messageCount: params.contents?.length,
+    toolCount: params.tools?.reduce(
+      (count: number, tool: any) => count + (tool.functionDeclarations?.length ?? 1),
+      0
+    ),
+    maxTokens: params.generationConfig?.maxOutputTokens,
+    temperature: params.generationConfig?.temperature,
+  }),
+  usage: (response) => ({ ...gemini.geminiUsage(response.usageMetadata), ...gemini.responseOutcome(response) }),
+  stream: {
+    // Every chunk repeats the usage so far; the last one is final
+    onChunk(chunk, fields) {
+      if (chunk.usageMetadata) Object.assign(fields, gemini.geminiUsage(chunk.usageMetadata));
+      if (chunk.modelVersion) fields.responseModel = chunk.modelVersion;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (finishReason) fields.finishReason = finishReason;
+      fields.toolCallCount = (fields.toolCallCount ?? 0) + gemini.countFunctionCalls(chunk);
+    },
+    isContent: (chunk) => chunk.candidates?.[0]?.content?.parts?.length > 0,
+  },
+  prompt: (params) => {
+    const messages: ContentMessage[] = [];
+    const system = params.systemInstruction ?? params.system_instruction;
+    if (system) messages.push({ role: "system", content: contentText(system.parts ?? system) });
+    for (const content of params.contents ?? []) {
+      messages.push({ role: content.role ?? "user", content: contentText(content.parts) });
+    }
+    return messages;
+  },
+  content: { output: gemini.responseText, delta: gemini.responseText },
+};
+
+// The embedding endpoints report no token usage
+const geminiEmbed: Endpoint = {
+  operation: "embeddings",
+  usage: () => ({ inputTokens: 0, outputTokens: 0 }),
+};
+
+const cohereChat: Endpoint = {
+  operation: "chat",
+  request: (params) => _chatRequestShape(params, params.max_tokens),
+  usage: (response) => ({
+    ...cohere.chatUsage(response.usage),
+    finishReason: response.finish_reason ?? undefined,
+    toolCallCount: response.message?.tool_calls?.length ?? 0,
+  }),
+  stream: {
+    onChunk(event, fields) {
+      if (event.type === "tool-call-start") fields.toolCallCount = (fields.toolCallCount ?? 0) + 1;
+      if (event.type === "message-end") {
+        if (event.delta?.finish_reason) fields.finishReason = event.delta.finish_reason;
+        if (event.delta?.usage) Object.assign(fields, cohere.chatUsage(event.delta.usage));
+      }
+    },
+    isContent: (event) => event.type === "content-delta" || event.type === "tool-call-start",
+  },
+  prompt: (params) => textMessages(params.messages),
+  content: {
+    output: (response) => contentText(response.message?.content),
+    delta: (event) => (event.type === "content-delta" ? event.delta?.message?.content?.text : undefined),
+  },
+};
+
+const cohereEmbed: Endpoint = {
+  operation: "embeddings",
+  usage: (response) => ({ inputTokens: response.meta?.billed_units?.input_tokens ?? 0, outputTokens: 0 }),
+};
+
+interface Route {
+  provider: string;
+  endpoint: Endpoint;
+  /** Gemini names the model in the path rather than the body */
+  model?: string;
+}
+
+/** The tracked endpoint a request goes to, if any */
+function route(url: URL, hosts: Record<string, string> | undefined): Route | undefined {
+  const provider = hosts?.[url.host] ?? hosts?.[url.hostname] ?? KNOWN_HOSTS[url.hostname];
+  if (provider == null) return undefined;
+  const path = url.pathname.replace(/\/+$/, "");
+
+  switch (provider) {
+    case "anthropic":
+      return path.endsWith("/messages") ? { provider, endpoint: anthropicMessages } : undefined;
+    case "gemini": {
+      const match = /models\/([^/:]+):(\w+)$/.exec(path);
+      if (!match) return undefined;
+      const [, model, method] = match;
+      if (method === "generateContent" || method === "streamGenerateContent") {
+        return { provider, endpoint: geminiGenerate, model };
+      }
+      if (method === "embedContent" || method === "batchEmbedContents") {
+        return { provider, endpoint: geminiEmbed, model };
+      }
+      return undefined;
+    }
+    case "cohere":
+      if (path.endsWith("/chat")) return { provider, endpoint: cohereChat };
+      if (path.endsWith("/embed")) return { provider, endpoint: cohereEmbed };
+      return undefined;
+    default:
+      if (path.endsWith("/chat/completions")) return { provider, endpoint: openaiEndpoints.chatCompletions };
+      if (path.endsWith("/responses")) return { provider, endpoint: openaiEndpoints.responses };
+      if (path.endsWith("/embeddings")) return { provider, endpoint: openaiEndpoints.embeddings };
+      return undefined;
+  }
+}
+
+function requestUrl(input: any): URL | undefined {
+  try {
+    const href = typeof input === "string" ? input : input instanceof URL ? input.href : input?.url;
+    return href == null ? undefined : new URL(href);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJson(body: unknown): any {
+  if (typeof body === "string") return JSON.parse(body);
+  if (ArrayBuffer.isView(body)) {
+    return JSON.parse(Buffer.from(body.buffer, body.byteOffset, body.byteLength).toString());
+  }
+  if (body instanceof ArrayBuffer) return JSON.parse(Buffer.from(body).toString());
+  // Streams and form data cannot be read without consuming them
+  return {};
+}
+
+/**
+ * The JSON request body. A `Request` is cloned before it is sent, so the
+ * caller's body is never read.
+ */
+function requestParams(input: any, init: RequestInit | undefined): Promise<any> {
+  try {
+    if (init?.body != null) return Promise.resolve(parseJson(init.body));
+    if (typeof Request !== "undefined" && input instanceof Request && input.body) {
+      return input
+        .clone()
+        .json()
+        .catch(() => ({}));
+    }
+  } catch {
+    // not a JSON request
+  }
+  return Promise.resolve({});
+}
+
+/** A non-2xx provider response, shaped like the SDK errors `classifyError` reads */
+class ProviderHttpError extends Error {
+  constructor(public status: number, public headers: Headers, public code?: string) {
+    super(`Provider request failed with status ${status}`);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/** JSON payloads of a server-sent event stream; `[DONE]` and non-JSON data are skipped */
+async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+
+  function* dispatch() {
+    const payload = data.join("\n");
+    data = [];
+    if (payload === "" || payload === "[DONE]") return;
+    try {
+      yield JSON.parse(payload);
+    } catch {
+      // keep-alives and other non-JSON data
+    }
+  }
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? "" : lines.pop()!;
+      for (const line of lines) {
+        if (line === "") yield* dispatch();
+        else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+      }
+      if (done) {
+        yield* dispatch();
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface TrackedRequest {
+  route: Route;
+  context: CallContext;
+  start: number;
+  /** Aborted by the caller, e.g. when an SDK stops reading a stream early */
+  signal?: AbortSignal | null;
+}
+
+/** Tracks a response from a copy of it, so the caller's body is left untouched */
+async function trackResponse(request: TrackedRequest, params: any, response: Response) {
+  const { route, context, start } = request;
+  const { endpoint, provider } = route;
+  const model = route.model ?? params.model ?? "unknown";
+  const capture = Boolean(endpoint.content) && _capturesContent(context.featureTag);
+  const callFields: Partial<CallFields> = {
+    ...endpoint.request?.(params),
+    ..._endpointPrompt(endpoint, params, model, capture),
+    ...responseTrackOptions(response.headers),
+  };
+  const base = { model, ...context, provider, operation: endpoint.operation };
+
+  if (!response.ok) {
+    const body: any = await response.json().catch(() => undefined);
+    const error = new ProviderHttpError(response.status, response.headers, body?.error?.code ?? body?.error?.type);
+    _trackFailure(model, provider, context, { ...callFields, operation: endpoint.operation }, start, error);
+    return;
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.includes("text/event-stream") && endpoint.stream && response.body) {
+    const fields: CallFields = { ...callFields, inputTokens: 0, outputTokens: 0 };
+    let outputText = "";
+    const events = observeStream(serverSentEvents(response.body), start, {
+      onChunk(event) {
+        endpoint.stream!.onChunk(event, fields);
+        if (endpoint.content) outputText += endpoint.content.delta(event) ?? "";
+      },
+      isContent: endpoint.stream.isContent,
+      onEnd(stats) {
+        // The copy errors when the caller aborts; that is the caller stopping, not a failure
+        const aborted = stats.status === "errored" && request.signal?.aborted;
+        track({
+          ...fields,
+          ...(endpoint.content ? _outputFields(fields, model, outputText, capture) : {}),
+          ...base,
+          ..._streamTrackOptions(aborted ? { ...stats, status: "aborted", error: undefined } : stats),
+        }).catch(() => {});
+      },
+    });
+    for await (const _ of events) {
+      // drain the copy; the caller reads the original at its own pace
+    }
+    return;
+  }
+
+  const json = await response.json();
+  // Gemini streams without `alt=sse` arrive as one JSON array of chunks
+  let usage: CallFields;
+  let outputText: string | undefined;
+  if (Array.isArray(json) && endpoint.stream) {
+    usage = { inputTokens: 0, outputTokens: 0 };
+    outputText = "";
+    for (const chunk of json) {
+      endpoint.stream.onChunk(chunk, usage);
+      outputText += endpoint.content?.delta(chunk) ?? "";
+    }
+  } else {
+    usage = endpoint.usage(json, params);
+    outputText = endpoint.content?.output(json);
+  }
+  track({
+    ...callFields,
+    ...usage,
+    // OpenAI-compatible servers may omit usage
+    ...(endpoint.content ? _outputFields({ ...callFields, ...usage }, model, outputText, capture) : {}),
+    latencyMs: Date.now() - start,
+    ...base,
+  }).catch(() => {});
+}
+
+function trackNetworkFailure(request: TrackedRequest, params: any, err: unknown) {
+  const { route, context, start } = request;
+  const fields = { ...route.endpoint.request?.(params), operation: route.endpoint.operation };
+  _trackFailure(route.model ?? params.model ?? "unknown", route.provider, context, fields, start, err);
+}
+
+function instrumentedFetch(original: typeof fetch, options: InstrumentFetchOptions): typeof fetch {
+  return async function fetch(input: any, init?: RequestInit): Promise<Response> {
+    // Exporters may send batches through fetch themselves
+    if (ingestStorage.getStore()) return original(input, init);
+    const url = requestUrl(input);
+    const target = url && route(url, options.hosts);
+    if (!target) return original(input, init);
+
+    const context = _callContext(options.featureTag, undefined);
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const params = requestParams(input, init);
+    const signal = init?.signal ?? (typeof Request !== "undefined" && input instanceof Request ? input.signal : null);
+    const request: TrackedRequest = { route: target, context, start: Date.now(), signal };
+    let response: Response;
+    try {
+      response = await original(input, init);
+    } catch (err) {
+      params.then((params) => trackNetworkFailure(request, params, err)).catch(() => {});
+      throw err;
+    }
+
+    try {
+      // Cloned before the caller can start reading the body
+      const copy = response.clone();
+      params.then((params) => trackResponse(request, params, copy)).catch(() => {});
+    } catch {
+      // never block the response
+    }
+    return response;
+  } as typeof fetch;
+}
+
+let installed: { original: typeof fetch; patched: typeof fetch } | null = null;
+
+/**
+ * Patches the global `fetch` so that requests to known LLM APIs are tracked
+ * like calls through the provider wrappers, whichever SDK (or none) makes
+ * them. Usage is read from a copy of the JSON or server-sent event response;
+ * the caller's body is never consumed. Calling it again replaces the options.
+ *
+ * Returns a function that restores the previous `fetch`.
+ */
+export function instrumentFetch(options: InstrumentFetchOptions = {}): () => void {
+  if (installed && globalThis.fetch === installed.patched) globalThis.fetch = installed.original;
+
+  const original = globalThis.fetch;
+  const patched = instrumentedFetch(original, options);
+  globalThis.fetch = patched;
+  installed = { original, patched };
+
+  return () => {
+    if (globalThis.fetch === patched) globalThis.fetch = original;
+    if (installed?.patched === patched) installed = null;
+  };
+}
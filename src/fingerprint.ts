@@ -0,0 +1,117 @@
+import { createHash } from "crypto";
+import { ContentMessage } from "./content";
+import { approximateTokens } from "./tokens";
+
+/**
+ * Content-free summary of a request's prompt. Hashes and sizes change when a
+ * feature's prompt template does, while the prompt text never leaves the
+ * process.
+ */
+export interface PromptFingerprint {
+  /** Hash of the system prompt text, if the request has one */
+  systemPromptHash?: string;
+  /** Hash of the tool definitions, if the request offers tools */
+  toolSchemaHash?: string;
+  /** Approximate tokens per message role, from the configured tokenizer if any */
+  roleTokens: Record<string, number>;
+}
+
+/** Hashes in the payload only need to tell templates apart, not resist attacks */
+function shortHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+/** JSON with sorted keys, so the same tools hash the same in any key order */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function promptFingerprint(
+  messages: ContentMessage[],
+  tools?: unknown[],
+  countTokens: (text: string) => number = approximateTokens
+): PromptFingerprint {
+  const roleTokens: Record<string, number> = {};
+  const system: string[] = [];
+  for (const message of messages) {
+    roleTokens[message.role] = (roleTokens[message.role] ?? 0) + countTokens(message.content);
+    if (message.role === "system" || message.role === "developer") system.push(message.content);
+  }
+
+  const fingerprint: PromptFingerprint = { roleTokens };
+  if (system.length) fingerprint.systemPromptHash = shortHash(system.join("\n"));
+  if (tools?.length) fingerprint.toolSchemaHash = shortHash(stableStringify(tools));
+  return fingerprint;
+}
+
+/** A request's prompt, as read by a provider wrapper */
+export interface Prompt {
+  messages: ContentMessage[];
+  tools?: unknown[];
+}
+
+/** The `track()` fields describing a call's prompt */
+export interface PromptFields extends Partial<PromptFingerprint> {
+  inputMessages?: ContentMessage[];
+}
+
+/**
+ * Fingerprint of the prompt `read` returns, plus the prompt itself when
+ * `capture` is set. A request in an unexpected shape yields no fields, as
+ * reading its prompt must never fail the call itself.
+ */
+export function promptFields(
+  read: () => Prompt,
+  countTokens: (text: string) => number,
+  capture: boolean
+): PromptFields {
+  try {
+    const { messages, tools } = read();
+    return { ...promptFingerprint(messages, tools, countTokens), ...(capture ? { inputMessages: messages } : {}) };
+  } catch {
+    return {};
+  }
+}
+
+/** Share of the prompt's approximate tokens taken by system messages */
+export function systemPromptShare(roleTokens: Record<string, number>): number | null {
+  let total = 0;
+  for (const tokens of Object.values(roleTokens)) total += tokens;
+  if (total === 0) return null;
+  return ((roleTokens.system ?? 0) + (roleTokens.developer ?? 0)) / total;
+}
+
+// A feature with a system prompt rendered per call would otherwise grow without bound
+const MAX_HASHES_PER_FEATURE = 100;
+
+/** Remembers the system prompt hashes seen per feature */
+export class PromptHashRegistry {
+  private seen = new Map<string, Set<string>>();
+
+  /**
+   * Whether `hash` is new for a feature that already had a different system
+   * prompt. The first hash seen for a feature is its baseline.
+   */
+  observe(featureTag: string, hash: string): boolean {
+    const hashes = this.seen.get(featureTag);
+    if (!hashes) {
+      this.seen.set(featureTag, new Set([hash]));
+      return false;
+    }
+    if (hashes.has(hash) || hashes.size >= MAX_HASHES_PER_FEATURE) return false;
+    hashes.add(hash);
+    return true;
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+}
@@ -1,9 +1,26 @@
-import { getConfig, track, featureTagStorage } from "./index";
+import {
+  CallFields,
+  getConfig,
+  track,
+  checkBudgets,
+  countTokens,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { AgentracerContext, CallContext } from "./context";
+import { ContentMessage, contentText } from "./content";
+import { Prompt, promptFields } from "./fingerprint";
 
 let _clientInstance: any = null;
 
 function getClient(opts?: { apiKey?: string }) {
-  if (opts?.apiKey) {
+  // An explicit key, even an empty one, never falls back to the shared client
+  if (opts?.apiKey !== undefined) {
     const { GoogleGenerativeAI } = require("@google/generative-ai");
     return new GoogleGenerativeAI(opts.apiKey);
   }
@@ -21,103 +38,380 @@ export function _setClientForTesting(client: any) {
   _clientInstance = client;
 }
 
-function extractFeatureTag(params: any): [string, any] {
+function extractContext(params: any): [CallContext, any] {
   if (
     params &&
     typeof params === "object" &&
     !Array.isArray(params) &&
-    params.feature_tag
+    (params.feature_tag || params.agentracer)
   ) {
-    const { feature_tag, ...remaining } = params;
-    return [feature_tag, remaining];
+    const { feature_tag, agentracer, ...remaining } = params;
+    return [_callContext(feature_tag, agentracer), remaining];
   }
-  return [featureTagStorage.getStore() ?? "unknown", params];
+  return [_callContext(undefined, undefined), params];
 }
 
-async function* wrapGeminiStream(
-  stream: AsyncIterable<any>,
+/**
+ * Gemini reports thinking and tool-use prompt tokens outside of the candidate
+ * and prompt counts. They are billed as output and input respectively, so they
+ * are folded in to keep `outputTokens` and `inputTokens` comparable with the
+ * other providers.
+ */
+function geminiUsage(usage: any): CallFields {
+  const thoughts = usage?.thoughtsTokenCount;
+  const toolUsePrompt = usage?.toolUsePromptTokenCount;
+  return {
+    inputTokens: (usage?.promptTokenCount ?? 0) + (toolUsePrompt ?? 0),
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (thoughts ?? 0),
+    cachedTokens: usage?.cachedContentTokenCount ?? 0,
+    reasoningTokens: thoughts,
+    toolUsePromptTokens: toolUsePrompt,
+  };
+}
+
+/** Parts of a request that can come from the call or from the model's defaults */
+interface ModelDefaults {
+  tools?: any[];
+  generationConfig?: any;
+  systemInstruction?: any;
+}
+
+/** `tools` entries group function declarations; other tools count once */
+function countTools(tools: any[] | undefined): number | undefined {
+  return tools?.reduce((count, tool) => count + (tool.functionDeclarations?.length ?? 1), 0);
+}
+
+function requestShape(request: any, defaults: ModelDefaults | undefined): Partial<CallFields> {
+  const isParams = request && typeof request === "object" && !Array.isArray(request);
+  // A string or an array of parts is a single user message
+  const messageCount = isParams ? request.contents?.length : request != null ? 1 : undefined;
+  const config = { ...defaults?.generationConfig, ...(isParams ? request.generationConfig : undefined) };
+  return {
+    messageCount,
+    toolCount: countTools((isParams ? request.tools : undefined) ?? defaults?.tools),
+    maxTokens: config.maxOutputTokens,
+    temperature: config.temperature,
+  };
+}
+
+function geminiPrompt(request: any, defaults: ModelDefaults | undefined): Prompt {
+  const isParams = request && typeof request === "object" && !Array.isArray(request);
+  const messages: ContentMessage[] = [];
+  const system = (isParams ? request.systemInstruction : undefined) ?? defaults?.systemInstruction;
+  if (system) messages.push({ role: "system", content: contentText(system.parts ?? system) });
+  if (isParams) {
+    for (const content of request.contents ?? []) {
+      messages.push({ role: content.role ?? "user", content: contentText(content.parts) });
+    }
+  } else if (request != null) {
+    messages.push({ role: "user", content: contentText(request) });
+  }
+  return { messages, tools: (isParams ? request.tools : undefined) ?? defaults?.tools };
+}
+
+function requestFields(
+  modelName: string,
+  context: CallContext,
+  request: any,
+  defaults: ModelDefaults | undefined
+): Partial<CallFields> {
+  return {
+    ...requestShape(request, defaults),
+    ...promptFields(
+      () => geminiPrompt(request, defaults),
+      (text) => countTokens(text, modelName),
+      _capturesContent(context.featureTag)
+    ),
+  };
+}
+
+/** Text of the first candidate; `response.text()` would throw for blocked responses */
+function responseText(response: any): string {
+  const parts = response?.candidates?.[0]?.content?.parts ?? [];
+  return parts
+    .filter((part: any) => typeof part.text === "string")
+    .map((part: any) => part.text)
+    .join("");
+}
+
+function countFunctionCalls(response: any): number {
+  const parts = response?.candidates?.[0]?.content?.parts ?? [];
+  return parts.filter((part: any) => part.functionCall).length;
+}
+
+function responseOutcome(response: any): Partial<CallFields> {
+  return {
+    finishReason: response?.candidates?.[0]?.finishReason,
+    toolCallCount: countFunctionCalls(response),
+    responseModel: response?.modelVersion,
+  };
+}
+
+/** `track()` options for a complete `GenerateContentResponse` */
+function responseTrackOptions(
   modelName: string,
-  featureTag: string,
+  context: CallContext,
+  request: Partial<CallFields>,
+  response: any,
   start: number
 ) {
-  let inputTokens = 0;
-  let outputTokens = 0;
-
-  for await (const chunk of stream) {
-    const usage = chunk.usageMetadata;
-    if (usage) {
-      inputTokens = usage.promptTokenCount ?? 0;
-      outputTokens = usage.candidatesTokenCount ?? 0;
-    }
-    yield chunk;
+  const usage = geminiUsage(response?.usageMetadata);
+  const outputText = responseText(response);
+  return {
+    model: modelName,
+    ...request,
+    ...usage,
+    ..._outputFields({ ...request, ...usage }, modelName, outputText, _capturesContent(context.featureTag)),
+    ...responseOutcome(response),
+    latencyMs: Date.now() - start,
+    ...context,
+    provider: "gemini",
+  };
+}
+
+/** @internal Parsers `instrumentFetch()` shares, as the REST API returns the same JSON */
+export const _parsers = { geminiUsage, responseOutcome, responseText, countFunctionCalls };
+
+/**
+ * Wraps a `generateContentStream` result. The SDK resolves `response` from its
+ * own copy of the stream, so a caller may read `stream`, await `response`, or
+ * both: the call is tracked once, from the stream when the caller reads it and
+ * from `response` otherwise.
+ */
+function wrapGeminiStream(
+  result: any,
+  modelName: string,
+  context: CallContext,
+  request: Partial<CallFields>,
+  start: number
+) {
+  const fields: CallFields = { ...request, inputTokens: 0, outputTokens: 0, toolCallCount: 0 };
+  // Chunk texts are reassembled for content capture, and to estimate the
+  // output of streams that carry no usageMetadata
+  let outputText = "";
+  let reading = false;
+  let tracked = false;
+
+  const stream = observeStream(result.stream as AsyncIterable<any>, start, {
+    onChunk(chunk) {
+      reading = true;
+      outputText += responseText(chunk);
+      if (chunk.usageMetadata) Object.assign(fields, geminiUsage(chunk.usageMetadata));
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (finishReason) fields.finishReason = finishReason;
+      if (chunk.modelVersion) fields.responseModel = chunk.modelVersion;
+      fields.toolCallCount! += countFunctionCalls(chunk);
+    },
+    onEnd(stats) {
+      if (tracked) return;
+      tracked = true;
+      track({
+        model: modelName,
+        ...fields,
+        ..._outputFields(fields, modelName, outputText, _capturesContent(context.featureTag)),
+        ...context,
+        provider: "gemini",
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+
+  // Settles whether or not the caller reads `stream`, so it is only observed once the caller takes it
+  let response: Promise<any> | undefined;
+  const observeResponse = () =>
+    Promise.resolve(result.response).then(
+      (value) => {
+        if (tracked || reading) return value;
+        tracked = true;
+        _trackResponse(() => ({
+          ...responseTrackOptions(modelName, context, request, value, start),
+          streamStatus: "completed" as const,
+        }));
+        return value;
+      },
+      (err) => {
+        if (!tracked && !reading) {
+          tracked = true;
+          _trackFailure(modelName, "gemini", context, request, start, err, true);
+        }
+        throw err;
+      }
+    );
+
+  return {
+    ...result,
+    stream,
+    get response() {
+      return (response ??= observeResponse());
+    },
+  };
+}
+
+/** `generateContent` and `ChatSession.sendMessage` */
+async function trackGenerate(
+  modelName: string,
+  context: CallContext,
+  request: Partial<CallFields>,
+  invoke: () => Promise<any>
+) {
+  checkBudgets(context.featureTag, context.endUserId);
+
+  const start = Date.now();
+  let result: any;
+  try {
+    result = await invoke();
+  } catch (err: any) {
+    _trackFailure(modelName, "gemini", context, request, start, err);
+    throw err;
+  }
+
+  _trackResponse(() => responseTrackOptions(modelName, context, request, result.response, start));
+
+  return result;
+}
+
+/** `generateContentStream` and `ChatSession.sendMessageStream` */
+async function trackGenerateStream(
+  modelName: string,
+  context: CallContext,
+  request: Partial<CallFields>,
+  invoke: () => Promise<any>
+) {
+  checkBudgets(context.featureTag, context.endUserId);
+
+  const start = Date.now();
+  let result: any;
+  try {
+    result = await invoke();
+  } catch (err: any) {
+    _trackFailure(modelName, "gemini", context, request, start, err, true);
+    throw err;
+  }
+
+  return wrapGeminiStream(result, modelName, context, request, start);
+}
+
+/**
+ * `embedContent` and `batchEmbedContents`. The embedding endpoints report no
+ * token usage, so these calls carry counts and latency only.
+ */
+async function trackEmbed(modelName: string, context: CallContext, invoke: () => Promise<any>) {
+  checkBudgets(context.featureTag, context.endUserId);
+
+  const start = Date.now();
+  let result: any;
+  try {
+    result = await invoke();
+  } catch (err: any) {
+    _trackFailure(modelName, "gemini", context, { operation: "embeddings" }, start, err);
+    throw err;
   }
 
   track({
     model: modelName,
-    inputTokens,
-    outputTokens,
+    inputTokens: 0,
+    outputTokens: 0,
     latencyMs: Date.now() - start,
-    featureTag,
+    ...context,
     provider: "gemini",
+    operation: "embeddings",
   }).catch(() => {});
+
+  return result;
 }
 
-function createTrackedModel(model: any, modelName: string) {
-  return new Proxy(model, {
+/**
+ * Tracks every message sent in a chat session. A `feature_tag` or
+ * `agentracer` context passed to `startChat` applies to the whole session,
+ * layered over the context current at send time.
+ */
+function createTrackedChat(
+  chat: any,
+  modelName: string,
+  sessionTag: string | undefined,
+  sessionContext: AgentracerContext | undefined,
+  params: any,
+  defaults: ModelDefaults | undefined
+) {
+  const context = () => _callContext(sessionTag, sessionContext);
+  const sessionDefaults: ModelDefaults = {
+    tools: params?.tools ?? defaults?.tools,
+    generationConfig: { ...defaults?.generationConfig, ...params?.generationConfig },
+    systemInstruction: params?.systemInstruction ?? defaults?.systemInstruction,
+  };
+  // Each send adds the user message and the model's reply to the history
+  let historyLength = params?.history?.length ?? 0;
+
+  const send = (message: any, invoke: () => Promise<any>, instrument: typeof trackGenerate) => {
+    const callContext = context();
+    const request = {
+      ...requestFields(modelName, callContext, message, sessionDefaults),
+      messageCount: historyLength + 1,
+    };
+    return instrument(modelName, callContext, request, invoke).then((result) => {
+      historyLength += 2;
+      return result;
+    });
+  };
+
+  return new Proxy(chat, {
     get(target, prop) {
-      if (prop === "generateContent") {
-        return async (params: any, ...rest: any[]) => {
-          const [featureTag, cleanParams] = extractFeatureTag(params);
-
-          const start = Date.now();
-          let result: any;
-          try {
-            result = await target.generateContent(cleanParams, ...rest);
-          } catch (err: any) {
-            track({
-              model: modelName,
-              inputTokens: 0,
-              outputTokens: 0,
-              latencyMs: Date.now() - start,
-              featureTag,
-              provider: "gemini",
-              success: false,
-              errorType: err?.constructor?.name ?? "Error",
-            }).catch(() => {});
-            throw err;
-          }
+      if (prop === "sendMessage") {
+        return (request: any, ...rest: any[]) =>
+          send(request, () => target.sendMessage(request, ...rest), trackGenerate);
+      }
 
-          try {
-            const usage = result.response?.usageMetadata;
-            track({
-              model: modelName,
-              inputTokens: usage?.promptTokenCount ?? 0,
-              outputTokens: usage?.candidatesTokenCount ?? 0,
-              cachedTokens: usage?.cachedContentTokenCount ?? 0,
-              latencyMs: Date.now() - start,
-              featureTag,
-              provider: "gemini",
-            }).catch(() => {});
-          } catch {
-            // never block the response
-          }
+      if (prop === "sendMessageStream") {
+        return (request: any, ...rest: any[]) =>
+          send(request, () => target.sendMessageStream(request, ...rest), trackGenerateStream);
+      }
 
-          return result;
+      const value = target[prop];
+      if (typeof value === "function") {
+        return value.bind(target);
+      }
+      return value;
+    },
+  });
+}
+
+function createTrackedModel(model: any, modelName: string, defaults: ModelDefaults | undefined) {
+  return new Proxy(model, {
+    get(target, prop) {
+      if (prop === "generateContent") {
+        return (params: any, ...rest: any[]) => {
+          const [context, cleanParams] = extractContext(params);
+          const request = requestFields(modelName, context, cleanParams, defaults);
+          return trackGenerate(modelName, context, request, () => target.generateContent(cleanParams, ...rest));
         };
       }
 
       if (prop === "generateContentStream") {
-        return async (params: any, ...rest: any[]) => {
-          const [featureTag, cleanParams] = extractFeatureTag(params);
+        return (params: any, ...rest: any[]) => {
+          const [context, cleanParams] = extractContext(params);
+          const request = requestFields(modelName, context, cleanParams, defaults);
+          return trackGenerateStream(modelName, context, request, () =>
+            target.generateContentStream(cleanParams, ...rest)
+          );
+        };
+      }
 
-          const start = Date.now();
-          const result = await target.generateContentStream(cleanParams, ...rest);
+      if (prop === "startChat") {
+        return (params?: any, ...rest: any[]) => {
+          if (params?.feature_tag || params?.agentracer) {
+            const { feature_tag, agentracer, ...cleanParams } = params;
+            const chat = target.startChat(cleanParams, ...rest);
+            return createTrackedChat(chat, modelName, feature_tag, agentracer, cleanParams, defaults);
+          }
+          const chat = target.startChat(params, ...rest);
+          return createTrackedChat(chat, modelName, undefined, undefined, params, defaults);
+        };
+      }
 
-          return {
-            ...result,
-            stream: wrapGeminiStream(result.stream, modelName, featureTag, start),
-            response: result.response,
-          };
+      if (prop === "embedContent" || prop === "batchEmbedContents") {
+        return (params: any, ...rest: any[]) => {
+          const [context, cleanParams] = extractContext(params);
+          return trackEmbed(modelName, context, () => target[prop](cleanParams, ...rest));
         };
       }
 
@@ -130,22 +424,53 @@ function createTrackedModel(model: any, modelName: string) {
   });
 }
 
-export const gemini = new Proxy({} as any, {
-  get(_, prop) {
-    if (prop === "getGenerativeModel") {
-      return (params: any, ...rest: any[]) => {
-        const client = getClient();
-        const modelName = params?.model ?? "unknown";
-        const realModel = client.getGenerativeModel(params, ...rest);
-        return createTrackedModel(realModel, modelName);
-      };
-    }
+function createGeminiProxy(clientGetter: () => any) {
+  return new Proxy({} as any, {
+    get(_, prop) {
+      if (prop === "getGenerativeModel") {
+        return (params: any, ...rest: any[]) => {
+          const client = clientGetter();
+          const modelName = params?.model ?? "unknown";
+          const realModel = client.getGenerativeModel(params, ...rest);
+          return createTrackedModel(realModel, modelName, params);
+        };
+      }
 
-    const client = getClient();
-    const value = client[prop];
-    if (typeof value === "function") {
-      return value.bind(client);
-    }
-    return value;
-  },
-});
+      if (prop === "getGenerativeModelFromCachedContent") {
+        return (cachedContent: any, modelParams?: any, ...rest: any[]) => {
+          const client = clientGetter();
+          const modelName = cachedContent?.model ?? "unknown";
+          const realModel = client.getGenerativeModelFromCachedContent(cachedContent, modelParams, ...rest);
+          return createTrackedModel(realModel, modelName, {
+            tools: cachedContent?.tools,
+            generationConfig: modelParams?.generationConfig,
+            systemInstruction: cachedContent?.systemInstruction,
+          });
+        };
+      }
+
+      const client = clientGetter();
+      const value = client[prop];
+      if (typeof value === "function") {
+        return value.bind(client);
+      }
+      return value;
+    },
+  });
+}
+
+/**
+ * A Gemini client for an explicit API key, e.g. one key per tenant. Exposes
+ * the full client surface; the same methods are tracked as on the default
+ * `gemini` export.
+ */
+export class TrackedGemini {
+  [key: string]: any;
+
+  constructor(apiKey: string) {
+    const client = getClient({ apiKey });
+    return createGeminiProxy(() => client);
+  }
+}
+
+export const gemini = createGeminiProxy(() => getClient());
@@ -1,13 +1,104 @@
 import { AsyncLocalStorage } from "async_hooks";
 import { randomUUID } from "crypto";
+import { BatchTransport, DropPolicy, TelemetryEvent, TelemetryEventType } from "./transport";
+import { Exporter, HttpExporter } from "./exporters";
+import { ModelPricing, computeCost as computeCatalogCost } from "./pricing";
+import { Budget, BudgetExceededError, BudgetTracker } from "./budget";
+import { AnomalyDetector, AnomalyOptions, Incident } from "./anomaly";
+import { StreamStats, StreamStatus } from "./streaming";
+import { ErrorCategory, errorTrackOptions } from "./errors";
+import { SamplingOptions, resolveSampleRate, sampled } from "./sampling";
+import {
+  CaptureContentOptions,
+  ContentMessage,
+  captureMessages,
+  captureText,
+  capturesContent,
+  textMessages,
+} from "./content";
+import { PromptHashRegistry, promptFields, systemPromptShare } from "./fingerprint";
+import { Tokenizer, countTextTokens } from "./tokens";
+import {
+  AgentracerContext,
+  CallContext,
+  ContextLimiter,
+  ContextLimits,
+  MetadataValue,
+  contextStorage,
+  mergeContexts,
+} from "./context";
 
-interface AgentracerConfig {
+export type { DropPolicy, TelemetryEvent, TelemetryEventType } from "./transport";
+export type { Exporter } from "./exporters";
+export { HttpExporter, ConsoleExporter, FileExporter, MemoryExporter } from "./exporters";
+export type { ModelPricing } from "./pricing";
+export { MODEL_PRICING, PRICING_VERSION, BATCH_DISCOUNT, getModelPricing } from "./pricing";
+export type { Budget, BudgetScope, BudgetStatus, BudgetWindow } from "./budget";
+export { BudgetExceededError } from "./budget";
+export type { AnomalyMetric, AnomalyOptions, Incident, IncidentType } from "./anomaly";
+export type { StreamStats, StreamStatus } from "./streaming";
+export type { ErrorCategory, ErrorInfo } from "./errors";
+export { classifyError } from "./errors";
+export type { AgentracerContext, ContextLimits, MetadataValue } from "./context";
+export type { SamplingOptions } from "./sampling";
+export type { CaptureContentOptions, ContentMessage, Redactor } from "./content";
+export { redactText } from "./content";
+export type { PromptFingerprint } from "./fingerprint";
+export { promptFingerprint } from "./fingerprint";
+export type { Tokenizer } from "./tokens";
+
+export interface AgentracerConfig {
   trackerApiKey: string;
   projectId: string;
   environment?: string;
   host?: string;
   debug?: boolean;
   enabled?: boolean;
+  /** Maximum number of events sent in a single batch request */
+  maxBatchSize?: number;
+  /** Maximum time an event waits in the queue before its batch is sent */
+  flushIntervalMs?: number;
+  /** Flush queued events on `beforeExit` and `SIGTERM` */
+  flushOnExit?: boolean;
+  /** Maximum number of events held in memory while the ingest host is unreachable */
+  maxQueueSize?: number;
+  /** Which events to discard when the queue is full */
+  dropPolicy?: DropPolicy;
+  /** Retries per batch for network errors and retryable HTTP statuses */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries */
+  retryBaseDelayMs?: number;
+  /** Upper bound for a single backoff delay, `Retry-After` included */
+  retryMaxDelayMs?: number;
+  /** Per-model price overrides (USD per 1M tokens), e.g. negotiated rates */
+  pricing?: Record<string, ModelPricing>;
+  /** Spend limits checked before each wrapped provider call */
+  budgets?: Budget[];
+  /** Tuning for in-process spike detection, or `false` to turn it off */
+  anomalyDetection?: AnomalyOptions | false;
+  /** Called synchronously for every detected incident */
+  onIncident?: (incident: Incident) => void;
+  /** Where telemetry is delivered. Default: a single `HttpExporter` */
+  exporters?: Exporter[];
+  /** Size and cardinality limits for context IDs and metadata */
+  contextLimits?: ContextLimits;
+  /** Head sampling for successful calls; failed and anomalous calls are always kept */
+  sampling?: SamplingOptions;
+  /**
+   * Called with every event before it is queued. Return the event, changed
+   * or not, to send it, or `null` to drop it.
+   */
+  beforeSend?: (event: TelemetryEvent) => TelemetryEvent | null;
+  /**
+   * Opt in to recording prompts and outputs, redacted, for the given feature
+   * tags. Off by default: only counts and timing are sent.
+   */
+  captureContent?: CaptureContentOptions;
+  /**
+   * Counts tokens for `countTokens`, prompt fingerprints and usage estimates.
+   * Default: about four characters per token.
+   */
+  tokenizer?: Tokenizer;
 }
 
 let config: AgentracerConfig = {
@@ -17,45 +108,585 @@ let config: AgentracerConfig = {
   host: "https://api.agentracer.dev",
   debug: false,
   enabled: true,
+  maxBatchSize: 50,
+  flushIntervalMs: 1000,
+  flushOnExit: false,
+  maxQueueSize: 1000,
+  dropPolicy: "drop_oldest",
+  maxRetries: 3,
+  retryBaseDelayMs: 200,
+  retryMaxDelayMs: 10000,
 };
 
 export const featureTagStorage = new AsyncLocalStorage<string>();
 export const runStorage = new AsyncLocalStorage<AgentRun>();
 
+/** Usage of the calls tracked in a scope, see `getTotals` */
+export interface CallTotals {
+  callCount: number;
+  /** Calls that failed */
+  errorCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Calls of models without known pricing add nothing */
+  costUsd: number;
+}
+
+interface TotalsScope {
+  totals: CallTotals;
+  /** Set for the totals of an `AgentRun`, which `getTotals` skips */
+  run?: AgentRun;
+}
+
+// Totals of every enclosing scope; a call counts towards all of them
+const totalsStorage = new AsyncLocalStorage<TotalsScope[]>();
+
+function withTotalsScope<T>(scope: TotalsScope, fn: () => T): T {
+  return totalsStorage.run([...(totalsStorage.getStore() ?? []), scope], fn);
+}
+
+/**
+ * @internal Runs `fn` while adding every call tracked inside it to `totals`,
+ * sampled or not. Used by the framework middleware for per-request totals.
+ */
+export function _withTotals<T>(totals: CallTotals, fn: () => T): T {
+  return withTotalsScope({ totals }, fn);
+}
+
+/**
+ * Running totals of the innermost scope that collects them, such as the
+ * current HTTP request under the `agentracer/middleware` integrations.
+ * Totals of a run are on `AgentRun.totals`.
+ */
+export function getTotals(): CallTotals | undefined {
+  const scopes = (totalsStorage.getStore() ?? []).filter((scope) => !scope.run);
+  return scopes[scopes.length - 1]?.totals;
+}
+
+function emptyTotals(): CallTotals {
+  return { callCount: 0, errorCount: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+interface StepFrame {
+  run: AgentRun;
+  stepId: string;
+}
+
+// The step currently executing, so nested steps and LLM calls know their parent
+const stepStorage = new AsyncLocalStorage<StepFrame>();
+
+/** Parent step for work happening inside `run`, if any */
+function currentStepId(run: AgentRun): string | undefined {
+  const frame = stepStorage.getStore();
+  return frame?.run === run ? frame.stepId : undefined;
+}
+
 export function init(options: AgentracerConfig) {
   config = { ...config, ...options };
+  closed = false;
+  if (config.flushOnExit) registerExitHooks();
+  else unregisterExitHooks();
 }
 
 export function getConfig() {
   return config;
 }
 
+/**
+ * USD cost of a call based on the built-in pricing catalog and any `pricing`
+ * overrides passed to `init()`. Returns `null` for unknown models.
+ */
+export function computeCost(usage: {
+  model: string;
+  provider?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens?: number;
+  cacheWriteTokens?: number;
+  batch?: boolean;
+}): number | null {
+  return computeCatalogCost(usage, config.pricing);
+}
+
+const defaultExporters: Exporter[] = [new HttpExporter()];
+
+// One queue per exporter, so a retry for a failing destination never
+// re-delivers a batch to the others
+const transports = new Map<Exporter, BatchTransport>();
+
+function transportFor(exporter: Exporter): BatchTransport {
+  let transport = transports.get(exporter);
+  if (!transport) {
+    transport = new BatchTransport(
+      (events) => exporter.export(events),
+      () => ({
+        maxBatchSize: config.maxBatchSize ?? 50,
+        flushIntervalMs: config.flushIntervalMs ?? 1000,
+        maxQueueSize: config.maxQueueSize ?? 1000,
+        dropPolicy: config.dropPolicy ?? "drop_oldest",
+        maxRetries: config.maxRetries ?? 3,
+        retryBaseDelayMs: config.retryBaseDelayMs ?? 200,
+        retryMaxDelayMs: config.retryMaxDelayMs ?? 10000,
+      })
+    );
+    transports.set(exporter, transport);
+  }
+  return transport;
+}
+
+function pendingEvents(): number {
+  let pending = 0;
+  for (const transport of transports.values()) pending += transport.pending;
+  return pending;
+}
+
+async function flushTransports(): Promise<void> {
+  await Promise.all([...transports.values()].map((t) => t.flush()));
+}
+
+let closed = false;
+
+function enqueue(type: TelemetryEventType, payload: Record<string, any>): void {
+  if (!config.enabled || closed) return;
+
+  let event: TelemetryEvent | null = { type, payload };
+  if (config.beforeSend) {
+    try {
+      event = config.beforeSend(event);
+    } catch (err) {
+      // The hook may be redacting data, so an event it failed on is not sent
+      if (config.debug) console.log("[agentracer] beforeSend failed, dropping event", err);
+      event = null;
+    }
+  }
+  if (!event) return;
+
+  if (config.debug) console.log("[agentracer]", event.type, event.payload);
+  for (const exporter of config.exporters ?? defaultExporters) {
+    transportFor(exporter).enqueue(event);
+  }
+}
+
+/**
+ * @internal Hooks used by optional integrations such as `agentracer/otel`.
+ * Register them with `_registerInstrumentation`.
+ */
+export interface Instrumentation {
+  /** Called with every call payload as it is tracked */
+  onCall?(payload: Record<string, any>): void;
+  /** Wraps the body of `AgentRun.execute` */
+  wrapRun?<T>(run: AgentRun, fn: () => Promise<T>): Promise<T>;
+  /** Wraps the body of `AgentRun.step` */
+  wrapStep?<T>(run: AgentRun, step: StepInfo, fn: () => Promise<T>): Promise<T>;
+}
+
+export type StepType = "llm_call" | "tool" | "retrieval" | "sub_agent" | "retry" | "custom";
+
+export interface StepInfo {
+  stepId: string;
+  parentStepId?: string;
+  stepIndex: number;
+  name: string;
+  type: StepType;
+}
+
+const instrumentations = new Set<Instrumentation>();
+
+/** @internal Returns a function that removes the instrumentation again */
+export function _registerInstrumentation(instrumentation: Instrumentation): () => void {
+  instrumentations.add(instrumentation);
+  return () => {
+    instrumentations.delete(instrumentation);
+  };
+}
+
 export async function sendTelemetry(payload: object): Promise<void> {
-  if (!config.enabled) return;
+  enqueue("call", payload as Record<string, any>);
+}
 
+/**
+ * @internal Records the lifecycle of a provider batch job. The calls inside
+ * the batch are tracked individually with `batchId` once results arrive.
+ */
+export function _trackBatch(event: {
+  batchId: string;
+  provider: string;
+  context: CallContext;
+  status: "created" | "reconciled";
+  requestCount: number;
+  [field: string]: unknown;
+}): void {
+  const { batchId, provider, context, status, requestCount, ...totals } = event;
+  enqueue("batch", {
+    project_id: config.projectId,
+    batch_id: batchId,
+    provider,
+    feature_tag: context.featureTag,
+    ...contextPayload(context),
+    status,
+    request_count: requestCount,
+    ...totals,
+    environment: config.environment,
+  });
+}
+
+/** Send all queued telemetry and wait until delivery has settled. */
+export async function flush(): Promise<void> {
+  await flushTransports();
+}
+
+/**
+ * Flush queued telemetry and stop accepting new events. Call `init()` again
+ * to resume tracking.
+ */
+export async function shutdown(): Promise<void> {
+  closed = true;
+  unregisterExitHooks();
+  await flushTransports();
+  await Promise.all(
+    [...transports.keys()].map((exporter) => exporter.shutdown?.().catch(() => {}))
+  );
+}
+
+/**
+ * Number of events discarded since startup, either because a queue was full
+ * or because an exporter rejected them with a non-retryable status. Counted
+ * once per exporter.
+ */
+export function getDroppedCount(): number {
+  let dropped = 0;
+  for (const transport of transports.values()) dropped += transport.dropped;
+  return dropped;
+}
+
+/** @internal Test-only: drop queued events and reopen the transport */
+export function _resetTransportForTesting() {
+  for (const transport of transports.values()) transport.clear();
+  transports.clear();
+  closed = false;
+}
+
+let exitHooksRegistered = false;
+let exitFlushed = false;
+
+function onBeforeExit() {
+  // beforeExit fires again once the flush settles. Flush only once so events
+  // requeued after a failed delivery cannot keep the process alive forever.
+  if (exitFlushed || pendingEvents() === 0) return;
+  exitFlushed = true;
+  flushTransports().catch(() => {});
+}
+
+function onSigterm() {
+  unregisterExitHooks();
+  shutdown().finally(() => {
+    // Preserve the default behaviour of exiting on SIGTERM unless the app handles it
+    if (process.listenerCount("SIGTERM") === 0) process.kill(process.pid, "SIGTERM");
+  });
+}
+
+function registerExitHooks() {
+  if (exitHooksRegistered) return;
+  exitHooksRegistered = true;
+  process.on("beforeExit", onBeforeExit);
+  process.on("SIGTERM", onSigterm);
+}
+
+function unregisterExitHooks() {
+  if (!exitHooksRegistered) return;
+  exitHooksRegistered = false;
+  process.off("beforeExit", onBeforeExit);
+  process.off("SIGTERM", onSigterm);
+}
+
+/**
+ * Runs `fn` with `context` layered over the current context. Every call made
+ * inside it carries the merged feature tag, end user, session, tenant and
+ * metadata.
+ */
+export function withContext<T>(context: AgentracerContext, fn: () => T): T {
+  const merged = mergeContexts(contextStorage.getStore(), context);
+  const run = () => contextStorage.run(merged, fn);
+  // featureTagStorage stays the source of truth for the tag, so code reading
+  // or setting it directly keeps working
+  return context.featureTag != null ? featureTagStorage.run(context.featureTag, run) : run();
+}
+
+/** The context calls made at this point would be tracked with */
+export function getContext(): AgentracerContext {
+  const context = { ...contextStorage.getStore() };
+  const featureTag = featureTagStorage.getStore();
+  if (featureTag != null) context.featureTag = featureTag;
+  return context;
+}
+
+export function observe<T extends (...args: any[]) => any>(fn: T, options: AgentracerContext): T {
+  return ((...args: any[]) => withContext(options, () => fn(...args))) as T;
+}
+
+/**
+ * @internal Context of a wrapped provider call: the call's `feature_tag` and
+ * `agentracer` params layered over the current context.
+ */
+export function _callContext(
+  featureTag: string | undefined,
+  callContext: AgentracerContext | undefined
+): CallContext {
+  const context = mergeContexts(getContext(), callContext);
+  return { ...context, featureTag: featureTag ?? context.featureTag ?? "unknown" };
+}
+
+const contextLimiter = new ContextLimiter();
+
+function contextPayload(context: AgentracerContext): Record<string, any> {
+  const limited = contextLimiter.apply(context, config.contextLimits);
+  const payload: Record<string, any> = {};
+  if (limited.endUserId != null) payload.end_user_id = limited.endUserId;
+  if (limited.sessionId != null) payload.session_id = limited.sessionId;
+  if (limited.tenantId != null) payload.tenant_id = limited.tenantId;
+  if (limited.metadata && Object.keys(limited.metadata).length) payload.metadata = limited.metadata;
+  return payload;
+}
+
+/** @internal Whether the wrappers should collect prompts and outputs for `featureTag` */
+export function _capturesContent(featureTag: string): boolean {
+  return capturesContent(config.captureContent, featureTag);
+}
+
+/**
+ * Redacted prompt and output fields, or none when the hook fails: unredacted
+ * content is never sent.
+ */
+function contentPayload(inputMessages: ContentMessage[] | undefined, outputText: string | undefined) {
+  const options = config.captureContent!;
+  const payload: Record<string, any> = {};
   try {
-    if (config.debug) console.log("[agentracer]", payload);
+    if (inputMessages) payload.input_messages = captureMessages(inputMessages, options);
+    if (outputText != null) payload.output_text = captureText(outputText, options);
+  } catch {
+    return {};
+  }
+  return payload;
+}
 
-    const response = await fetch(`${config.host}/api/ingest`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": config.trackerApiKey,
-      },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(2000),
-    });
+/** @internal Test-only: forget the metadata values seen for cardinality limits */
+export function _resetContextForTesting() {
+  contextLimiter.clear();
+}
+
+const budgetTracker = new BudgetTracker();
+
+/**
+ * Throws `BudgetExceededError` (or invokes the budget's `onExceeded` callback)
+ * when a configured budget is already exhausted. Called by the provider
+ * wrappers before a request is forwarded. Pass the expected usage of the next
+ * call, e.g. from `countTokens`, to also stop calls that would overshoot.
+ * Inside an `AgentRun` that was aborted or used up its `maxSteps` or
+ * `maxCostUsd`, throws the run's `RunAbortedError` instead.
+ */
+export function checkBudgets(
+  featureTag: string,
+  endUserId?: string,
+  pending?: { costUsd?: number; tokens?: number }
+): void {
+  const activeRun = runStorage.getStore();
+  activeRun?._checkLimits();
+  const budgets = config.budgets;
+  if (!budgets?.length) return;
+  budgetTracker.check(
+    budgets,
+    {
+      featureTag,
+      endUserId: endUserId ?? activeRun?.endUserId,
+      runId: activeRun?.runId,
+    },
+    Date.now(),
+    pending
+  );
+}
+
+/**
+ * Counts the tokens of a text or of prompt messages with the configured
+ * `tokenizer`, or approximately (about four characters per token) without one.
+ */
+export function countTokens(input: string | ContentMessage[], model = "unknown"): number {
+  if (typeof input === "string") return countTextTokens(config.tokenizer, input, model);
+  let tokens = 0;
+  for (const message of input) tokens += countTextTokens(config.tokenizer, message.content, model);
+  return tokens;
+}
+
+/**
+ * @internal Fills in token counts the provider did not report, from the
+ * prompt's `roleTokens` and the generated text. A count of zero is treated as
+ * missing.
+ */
+export function _estimateMissingUsage(
+  fields: { inputTokens: number; outputTokens: number; roleTokens?: Record<string, number> },
+  model: string,
+  outputText: string | undefined
+): { inputTokens?: number; outputTokens?: number; estimated?: boolean } {
+  const estimate: { inputTokens?: number; outputTokens?: number; estimated?: boolean } = {};
+  if (fields.inputTokens === 0 && fields.roleTokens) {
+    const input = Object.values(fields.roleTokens).reduce((sum, tokens) => sum + tokens, 0);
+    if (input > 0) estimate.inputTokens = input;
+  }
+  if (fields.outputTokens === 0 && outputText) estimate.outputTokens = countTokens(outputText, model);
+  if (estimate.inputTokens != null || estimate.outputTokens != null) estimate.estimated = true;
+  return estimate;
+}
+
+/** @internal Test-only: forget all recorded budget spend */
+export function _resetBudgetsForTesting() {
+  budgetTracker.clear();
+}
+
+const anomalyDetector = new AnomalyDetector();
+const promptHashes = new PromptHashRegistry();
+
+function detectAnomalies(sample: {
+  provider: string;
+  model: string;
+  featureTag: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+  systemPromptShare?: number | null;
+  runId?: string;
+}): boolean {
+  if (config.anomalyDetection === false) return false;
+
+  const incidents = anomalyDetector.observe(sample, config.anomalyDetection);
+  for (const incident of incidents) {
+    try {
+      config.onIncident?.(incident);
+    } catch {
+      // a faulty handler must never break tracking
+    }
+
+    const payload: Record<string, any> = {
+      project_id: config.projectId,
+      incident_type: incident.type,
+      metric: incident.metric,
+      provider: incident.provider,
+      model: incident.model,
+      feature_tag: incident.featureTag,
+      value: incident.value,
+      baseline_p95: incident.baselineP95,
+      baseline_mean: incident.baselineMean,
+      ratio: incident.ratio,
+      message: incident.message,
+      environment: config.environment,
+      detected_at: new Date(incident.detectedAt).toISOString(),
+    };
+    if (sample.runId != null) payload.run_id = sample.runId;
+    enqueue("incident", payload);
+  }
+  return incidents.length > 0;
+}
+
+/** @internal The `track()` options a provider wrapper reads from a request and its response */
+export type CallFields = Omit<Parameters<typeof track>[0], "model" | "latencyMs" | "featureTag" | "provider">;
+
+/** @internal Request fields of chat APIs that take `messages` and `tools` arrays */
+export function _chatRequestShape(params: any, maxTokens: number | undefined): Partial<CallFields> {
+  return {
+    messageCount: params.messages?.length,
+    toolCount: params.tools?.length,
+    maxTokens,
+    temperature: params.temperature,
+  };
+}
+
+/** @internal Shape and prompt fields of a chat request with `messages` and `tools` arrays */
+export function _chatRequestFields(
+  params: any,
+  maxTokens: number | undefined,
+  featureTag: string
+): Partial<CallFields> {
+  return {
+    ..._chatRequestShape(params, maxTokens),
+    ...promptFields(
+      () => ({ messages: textMessages(params.messages), tools: params.tools }),
+      (text) => countTokens(text, params.model),
+      _capturesContent(featureTag)
+    ),
+  };
+}
+
+/**
+ * @internal Fields read from a call's generated text: output tokens the
+ * provider did not report, estimated from it, and the text itself when
+ * capturing content. Streaming wrappers reassemble the text from deltas, so
+ * streams that end before their usage event are estimated too.
+ */
+export function _outputFields(
+  fields: { inputTokens: number; outputTokens: number; roleTokens?: Record<string, number> },
+  model: string,
+  outputText: string | undefined,
+  capture: boolean
+) {
+  return { ..._estimateMissingUsage(fields, model, outputText), ...(capture ? { outputText } : {}) };
+}
+
+/**
+ * @internal Tracks a call that got a response. `build` reads the response,
+ * and throws on shapes it does not expect; that must never block the response.
+ */
+export function _trackResponse(build: () => Parameters<typeof track>[0]): void {
+  try {
+    track(build()).catch(() => {});
   } catch {
-    // always silent
+    // never block the response
   }
 }
 
-export function observe<T extends (...args: any[]) => any>(
-  fn: T,
-  options: { featureTag: string }
-): T {
-  return ((...args: any[]) =>
-    featureTagStorage.run(options.featureTag, () => fn(...args))) as T;
+/**
+ * @internal Tracks a wrapped call that failed before a response arrived:
+ * the request's fields, no tokens, and the classified error.
+ */
+export function _trackFailure(
+  model: string,
+  provider: string,
+  context: CallContext,
+  fields: Partial<CallFields>,
+  start: number,
+  err: unknown,
+  streaming = false
+): void {
+  track({
+    model,
+    ...fields,
+    inputTokens: 0,
+    outputTokens: 0,
+    latencyMs: Date.now() - start,
+    ...context,
+    provider,
+    ...errorTrackOptions(err),
+    ...(streaming ? { streamStatus: "errored" as const } : {}),
+  }).catch(() => {});
+}
+
+/**
+ * @internal Maps the stats of a finished stream to `track()` options, marking
+ * streams that threw as failed calls.
+ */
+export function _streamTrackOptions(stats: StreamStats) {
+  return {
+    latencyMs: stats.latencyMs,
+    timeToFirstTokenMs: stats.timeToFirstTokenMs,
+    streamDurationMs: stats.streamDurationMs,
+    chunkCount: stats.chunkCount,
+    streamStatus: stats.status,
+    ...(stats.status === "errored" ? errorTrackOptions(stats.error) : {}),
+  };
+}
+
+/** @internal Test-only: forget all anomaly baselines */
+export function _resetAnomaliesForTesting() {
+  anomalyDetector.clear();
+  promptHashes.clear();
 }
 
 export async function track(options: {
@@ -67,25 +698,121 @@ export async function track(options: {
   environment?: string;
   provider?: string;
   cachedTokens?: number;
+  /** Input tokens written to the prompt cache (Anthropic) */
+  cacheWriteTokens?: number;
+  /** Reasoning or thinking tokens, included in `outputTokens` */
+  reasoningTokens?: number;
+  /** Audio input tokens, included in `inputTokens` */
+  audioInputTokens?: number;
+  /** Audio output tokens, included in `outputTokens` */
+  audioOutputTokens?: number;
+  /** Tokens of tool results fed back to the model (Gemini), included in `inputTokens` */
+  toolUsePromptTokens?: number;
   success?: boolean;
   errorType?: string;
+  /** Provider-independent failure class, see `classifyError` */
+  errorCategory?: ErrorCategory;
+  httpStatus?: number;
+  /** Provider request ID of the call */
+  requestId?: string;
+  /** Whether a failed call may succeed if sent again */
+  retryable?: boolean;
+  /** Remaining requests in the provider's rate-limit window */
+  rateLimitRemainingRequests?: number;
+  /** Remaining tokens in the provider's rate-limit window */
+  rateLimitRemainingTokens?: number;
   endUserId?: string;
+  sessionId?: string;
+  tenantId?: string;
+  /** Free-form key/value pairs, merged over the context's metadata */
+  metadata?: Record<string, MetadataValue>;
   runId?: string;
   stepIndex?: number;
+  /** Request start until the first streamed token */
+  timeToFirstTokenMs?: number | null;
+  /** Time spent consuming the stream */
+  streamDurationMs?: number;
+  chunkCount?: number;
+  /** Set for streamed calls */
+  streamStatus?: StreamStatus;
+  /** Provider endpoint, e.g. `"chat"`, `"responses"` or `"embeddings"` */
+  operation?: string;
+  /** Images produced by an image generation call */
+  imageCount?: number;
+  /** Audio duration billed by a transcription call */
+  audioSeconds?: number;
+  /** Provider batch job the call ran in; priced at the batch discount */
+  batchId?: string;
+  /** Why generation stopped, as reported by the provider, e.g. `"stop"` or `"max_tokens"` */
+  finishReason?: string;
+  /** Tool calls requested by the model in the response */
+  toolCallCount?: number;
+  /** Messages (or contents) in the request */
+  messageCount?: number;
+  /** Tools offered to the model in the request */
+  toolCount?: number;
+  maxTokens?: number;
+  temperature?: number;
+  /** Concrete model that served the call, e.g. `"gpt-4o-2024-08-06"` for `"gpt-4o"` */
+  responseModel?: string;
+  /** Prompt messages; only recorded when `captureContent` covers the feature */
+  inputMessages?: ContentMessage[];
+  /** Generated text; only recorded when `captureContent` covers the feature */
+  outputText?: string;
+  /** Hash of the system prompt, see `promptFingerprint` */
+  systemPromptHash?: string;
+  /** Hash of the tool definitions, see `promptFingerprint` */
+  toolSchemaHash?: string;
+  /** Approximate prompt tokens per message role, see `promptFingerprint` */
+  roleTokens?: Record<string, number>;
+  /** Token counts were estimated locally because the provider reported none */
+  estimated?: boolean;
 }): Promise<void> {
-  const currentTag = featureTagStorage.getStore();
+  const costUsd = computeCost({ ...options, batch: options.batchId != null });
 
   // Auto-detect active AgentRun
   let runId = options.runId;
   let stepIndex = options.stepIndex;
   const activeRun = runStorage.getStore();
+  const context = mergeContexts(getContext(), {
+    featureTag: options.featureTag,
+    endUserId: options.endUserId ?? activeRun?.endUserId,
+    sessionId: options.sessionId,
+    tenantId: options.tenantId,
+    metadata: options.metadata,
+  });
+  const featureTag = context.featureTag ?? "unknown";
+
+  if (config.budgets?.length) {
+    budgetTracker.record(
+      config.budgets,
+      {
+        featureTag,
+        endUserId: context.endUserId,
+        runId: runId ?? activeRun?.runId,
+      },
+      costUsd ?? 0,
+      options.inputTokens + options.outputTokens
+    );
+  }
+
+  for (const { totals, run } of totalsStorage.getStore() ?? []) {
+    totals.callCount++;
+    if (options.success === false) totals.errorCount++;
+    totals.inputTokens += options.inputTokens;
+    totals.outputTokens += options.outputTokens;
+    totals.costUsd += costUsd ?? 0;
+    run?._afterCall();
+  }
+
   if (activeRun && runId == null) {
     runId = activeRun.runId;
     stepIndex = activeRun._nextStep();
-    // Fire-and-forget step recording
-    sendRunApi("/api/runs/step", {
+    enqueue("run_step", {
       project_id: config.projectId,
       run_id: activeRun.runId,
+      step_id: randomUUID(),
+      parent_step_id: currentStepId(activeRun) ?? null,
       step_index: stepIndex,
       step_type: "llm_call",
       model: options.model,
@@ -93,68 +820,200 @@ export async function track(options: {
       input_tokens: options.inputTokens,
       output_tokens: options.outputTokens,
       cached_tokens: options.cachedTokens ?? 0,
-      cost_usd: 0,
+      cost_usd: costUsd,
       latency_ms: options.latencyMs,
       success: options.success ?? true,
       error_type: options.errorType ?? null,
-    }).catch(() => {});
+    });
+  }
+
+  const success = options.success ?? true;
+  const environment = options.environment ?? config.environment;
+
+  // A system prompt this feature has not used before means its template changed
+  const systemPromptChanged =
+    options.systemPromptHash != null && promptHashes.observe(featureTag, options.systemPromptHash);
+
+  // Anomaly baselines see every call, sampled or not. Failed calls have no
+  // meaningful token counts and batch results no meaningful latency; either
+  // would skew them.
+  let anomalous = false;
+  if (success && options.batchId == null) {
+    anomalous = detectAnomalies({
+      provider: options.provider ?? "custom",
+      model: options.model,
+      featureTag,
+      latencyMs: options.latencyMs,
+      inputTokens: options.inputTokens,
+      outputTokens: options.outputTokens,
+      costUsd,
+      systemPromptShare: options.roleTokens ? systemPromptShare(options.roleTokens) : null,
+      runId,
+    });
   }
 
+  const sampleRate =
+    success && !anomalous && !systemPromptChanged
+      ? resolveSampleRate(config.sampling, { featureTag, model: options.model, environment })
+      : 1;
+
   const payload: Record<string, any> = {
     project_id: config.projectId,
     provider: options.provider ?? "custom",
     model: options.model,
-    feature_tag: options.featureTag ?? currentTag ?? "unknown",
+    feature_tag: featureTag,
     input_tokens: options.inputTokens,
     output_tokens: options.outputTokens,
     cached_tokens: options.cachedTokens ?? 0,
+    cost_usd: costUsd,
     latency_ms: options.latencyMs,
-    success: options.success ?? true,
-    environment: options.environment ?? config.environment,
+    success,
+    environment,
   };
 
+  if (options.cacheWriteTokens != null) payload.cache_write_tokens = options.cacheWriteTokens;
+  if (options.reasoningTokens != null) payload.reasoning_tokens = options.reasoningTokens;
+  if (options.audioInputTokens != null) payload.audio_input_tokens = options.audioInputTokens;
+  if (options.audioOutputTokens != null) payload.audio_output_tokens = options.audioOutputTokens;
+  if (options.toolUsePromptTokens != null) payload.tool_use_prompt_tokens = options.toolUsePromptTokens;
+  if (options.operation != null) payload.operation = options.operation;
+  if (options.imageCount != null) payload.image_count = options.imageCount;
+  if (options.audioSeconds != null) payload.audio_seconds = options.audioSeconds;
+  if (options.batchId != null) payload.batch_id = options.batchId;
+  if (options.finishReason != null) payload.finish_reason = options.finishReason;
+  if (options.toolCallCount != null) payload.tool_call_count = options.toolCallCount;
+  if (options.messageCount != null) payload.message_count = options.messageCount;
+  if (options.toolCount != null) payload.tool_count = options.toolCount;
+  if (options.maxTokens != null) payload.max_tokens = options.maxTokens;
+  if (options.temperature != null) payload.temperature = options.temperature;
+  if (options.responseModel != null) payload.response_model = options.responseModel;
+  if (options.systemPromptHash != null) payload.system_prompt_hash = options.systemPromptHash;
+  if (options.toolSchemaHash != null) payload.tool_schema_hash = options.toolSchemaHash;
+  if (options.roleTokens != null) payload.role_tokens = options.roleTokens;
+  if (systemPromptChanged) payload.system_prompt_changed = true;
+  if (options.estimated) payload.estimated = true;
   if (options.errorType != null) payload.error_type = options.errorType;
-  if (options.endUserId != null) payload.end_user_id = options.endUserId;
+  if (options.errorCategory != null) payload.error_category = options.errorCategory;
+  if (options.httpStatus != null) payload.http_status = options.httpStatus;
+  if (options.requestId != null) payload.request_id = options.requestId;
+  if (options.retryable != null) payload.retryable = options.retryable;
+  if (options.rateLimitRemainingRequests != null) {
+    payload.ratelimit_remaining_requests = options.rateLimitRemainingRequests;
+  }
+  if (options.rateLimitRemainingTokens != null) {
+    payload.ratelimit_remaining_tokens = options.rateLimitRemainingTokens;
+  }
+  Object.assign(payload, contextPayload(context));
   if (runId != null) payload.run_id = runId;
   if (stepIndex != null) payload.step_index = stepIndex;
+  if (sampleRate < 1) payload.sample_rate = sampleRate;
+  if (_capturesContent(featureTag)) Object.assign(payload, contentPayload(options.inputMessages, options.outputText));
+  if (options.streamStatus != null) {
+    payload.stream = true;
+    payload.stream_status = options.streamStatus;
+    payload.ttft_ms = options.timeToFirstTokenMs ?? null;
+    payload.stream_duration_ms = options.streamDurationMs ?? null;
+    payload.chunk_count = options.chunkCount ?? 0;
+  }
+
+  for (const instrumentation of instrumentations) {
+    try {
+      instrumentation.onCall?.(payload);
+    } catch {
+      // integrations must never break tracking
+    }
+  }
 
+  // Sampling happens last so budgets, runs, baselines and spans stay complete; it only limits what is sent
+  if (!sampled(sampleRate)) return;
   await sendTelemetry(payload);
 }
 
-async function sendRunApi(path: string, payload: object): Promise<void> {
-  if (!config.enabled) return;
-  try {
-    await fetch(`${config.host}${path}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": config.trackerApiKey,
-      },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(2000),
-    });
-  } catch {
-    // silent
+/** How a run ended, reported as the `status` of its `run_end` event */
+export type RunStatus = "completed" | "failed" | "timeout" | "cancelled" | "budget_exceeded";
+
+/**
+ * Why a run was stopped: the `reason` of the signal passed to `execute()`'s
+ * `fn`, and the error `execute()` rejects with.
+ */
+export class RunAbortedError extends Error {
+  status: Exclude<RunStatus, "completed" | "failed">;
+
+  constructor(status: Exclude<RunStatus, "completed" | "failed">, message: string) {
+    super(`agentracer: ${message}`);
+    this.name = "RunAbortedError";
+    this.status = status;
   }
 }
 
+export interface AgentRunOptions {
+  runName?: string;
+  /** Default: the feature tag of the context the run executes in, else `"unknown"` */
+  featureTag?: string;
+  endUserId?: string;
+  runId?: string;
+  /** Ends the run with status `timeout` after this long */
+  maxDurationMs?: number;
+  /** Ends the run with status `budget_exceeded` instead of starting another step; LLM calls count as steps */
+  maxSteps?: number;
+  /** Ends the run with status `budget_exceeded` once its LLM calls, sub-runs included, cost more */
+  maxCostUsd?: number;
+  /** Ends the run with status `cancelled` when aborted */
+  signal?: AbortSignal;
+  /** Interval of `run_heartbeat` events while the run executes; 0 disables them. Default: 30000 */
+  heartbeatIntervalMs?: number;
+}
+
+type RunLimits = Pick<AgentRunOptions, "maxDurationMs" | "maxSteps" | "maxCostUsd" | "signal" | "heartbeatIntervalMs">;
+
 export class AgentRun {
   runId: string;
   runName?: string;
   featureTag: string;
   endUserId?: string;
+  /** Set when this run was started inside another run's `execute()` */
+  parentRunId?: string;
+  /** The `sub_agent` step of the parent run that this run executes in */
+  parentStepId?: string;
+  /** ID of the outermost run in the tree; equals `runId` for top-level runs */
+  rootRunId: string;
+  /** LLM usage of the run so far, calls of its sub-runs included */
+  totals: CallTotals = emptyTotals();
   private stepCounter = 0;
+  private failedSteps = 0;
+  private limits: RunLimits;
+  private controller = new AbortController();
+  // Without a `featureTag` option, calls keep the tag of their context
+  private inheritsTag: boolean;
 
-  constructor(options: {
-    runName?: string;
-    featureTag?: string;
-    endUserId?: string;
-    runId?: string;
-  } = {}) {
+  constructor(options: AgentRunOptions = {}) {
     this.runId = options.runId ?? randomUUID();
     this.runName = options.runName;
     this.featureTag = options.featureTag ?? "unknown";
+    this.inheritsTag = options.featureTag == null;
     this.endUserId = options.endUserId;
+    this.rootRunId = this.runId;
+    this.limits = {
+      maxDurationMs: options.maxDurationMs,
+      maxSteps: options.maxSteps,
+      maxCostUsd: options.maxCostUsd,
+      signal: options.signal,
+      heartbeatIntervalMs: options.heartbeatIntervalMs,
+    };
+  }
+
+  /** Aborted when the run is stopped; its `reason` is a `RunAbortedError` */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Stops the run: `execute()` rejects and the run ends with status `cancelled` */
+  cancel(reason = "run was cancelled"): void {
+    this.abort("cancelled", reason);
+  }
+
+  private abort(status: RunAbortedError["status"], message: string) {
+    if (!this.controller.signal.aborted) this.controller.abort(new RunAbortedError(status, message));
   }
 
   /** @internal */
@@ -162,39 +1021,243 @@ export class AgentRun {
     return ++this.stepCounter;
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    // Fire start
-    sendRunApi("/api/runs/start", {
+  /**
+   * @internal Throws the run's `RunAbortedError` when it was stopped, or
+   * stops it when another step would exceed `maxSteps` or `maxCostUsd`.
+   */
+  _checkLimits(): void {
+    const { maxSteps, maxCostUsd } = this.limits;
+    if (maxSteps != null && this.stepCounter >= maxSteps) {
+      this.abort("budget_exceeded", `run reached its limit of ${maxSteps} steps`);
+    } else if (maxCostUsd != null && this.totals.costUsd >= maxCostUsd) {
+      this.abort("budget_exceeded", `run reached its cost limit of $${maxCostUsd}`);
+    }
+    if (this.signal.aborted) throw this.signal.reason;
+  }
+
+  /** @internal Stops the run right after the call that exceeded `maxCostUsd`, not at the next one */
+  _afterCall(): void {
+    const { maxCostUsd } = this.limits;
+    if (maxCostUsd != null && this.totals.costUsd > maxCostUsd) {
+      this.abort("budget_exceeded", `run exceeded its cost limit of $${maxCostUsd}`);
+    }
+  }
+
+  /**
+   * @internal Runs `fn` inside the run, as its body runs: calls made in it
+   * belong to the run and count towards its totals.
+   */
+  _enter<T>(fn: () => T): T {
+    const inner = () => withTotalsScope({ totals: this.totals, run: this }, fn);
+    return runStorage.run(this, () => (this.inheritsTag ? inner() : featureTagStorage.run(this.featureTag, inner)));
+  }
+
+  /**
+   * Records a non-LLM step such as a tool call, retrieval or retry loop.
+   * Steps and LLM calls made inside `fn` become children of this step.
+   * Throws without calling `fn` once the run was stopped.
+   */
+  async step<T>(name: string, type: StepType, fn: () => Promise<T> | T): Promise<T> {
+    this._checkLimits();
+    const step: StepInfo = {
+      stepId: randomUUID(),
+      parentStepId: currentStepId(this),
+      stepIndex: this._nextStep(),
+      name,
+      type,
+    };
+
+    let body = () =>
+      runStorage.run(this, () =>
+        stepStorage.run({ run: this, stepId: step.stepId }, async () => fn())
+      );
+    for (const instrumentation of instrumentations) {
+      if (!instrumentation.wrapStep) continue;
+      const inner = body;
+      body = () => instrumentation.wrapStep!(this, step, inner);
+    }
+
+    const start = Date.now();
+    const record = (success: boolean, errorType: string | null) =>
+      enqueue("run_step", {
+        project_id: config.projectId,
+        run_id: this.runId,
+        step_id: step.stepId,
+        parent_step_id: step.parentStepId ?? null,
+        step_index: step.stepIndex,
+        step_type: type,
+        step_name: name,
+        latency_ms: Date.now() - start,
+        success,
+        error_type: errorType,
+      });
+
+    try {
+      const result = await body();
+      record(true, null);
+      return result;
+    } catch (err: any) {
+      this.failedSteps++;
+      record(false, err?.constructor?.name ?? "Error");
+      throw err;
+    }
+  }
+
+  /** Shorthand for `step(name, "tool", fn)` */
+  tool<T>(name: string, fn: () => Promise<T> | T): Promise<T> {
+    return this.step(name, "tool", fn);
+  }
+
+  /**
+   * Executes `fn` as this run. `fn` receives the run's `signal`, which is
+   * aborted on `maxDurationMs`, `maxSteps`, `maxCostUsd`, `cancel()` or the
+   * `signal` option; `execute()` then rejects with a `RunAbortedError` right
+   * away, even while `fn` is still pending.
+   */
+  async execute<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const parentRun = runStorage.getStore();
+    if (parentRun && parentRun !== this && this.parentRunId == null) {
+      // A run started inside another run is recorded as a sub_agent step of
+      // the enclosing run, so nested runs form a tree
+      this.parentRunId = parentRun.runId;
+      this.rootRunId = parentRun.rootRunId;
+      return parentRun.step(this.runName ?? "sub_agent", "sub_agent", () => {
+        this.parentStepId = currentStepId(parentRun);
+        return this.executeRun(fn, parentRun.signal);
+      });
+    }
+    return this.executeRun(fn);
+  }
+
+  /** Counters for `run_heartbeat` and `run_end` events */
+  private aggregates(start: number) {
+    return {
+      duration_ms: Date.now() - start,
+      step_count: this.stepCounter,
+      step_error_count: this.failedSteps,
+      llm_call_count: this.totals.callCount,
+      llm_error_count: this.totals.errorCount,
+      input_tokens: this.totals.inputTokens,
+      output_tokens: this.totals.outputTokens,
+      cost_usd: this.totals.costUsd,
+    };
+  }
+
+  /**
+   * Starts the duration limit, heartbeats and forwarding of the `signal`
+   * option and the parent run's signal; returns a function stopping them.
+   */
+  private watch(start: number, parentSignal?: AbortSignal): () => void {
+    const { maxDurationMs, signal, heartbeatIntervalMs = 30_000 } = this.limits;
+    const stops: (() => void)[] = [];
+
+    if (maxDurationMs != null) {
+      const timer = setTimeout(
+        () => this.abort("timeout", `run exceeded its limit of ${maxDurationMs}ms`),
+        maxDurationMs
+      );
+      stops.push(() => clearTimeout(timer));
+    }
+    if (heartbeatIntervalMs > 0) {
+      const timer = setInterval(() => {
+        enqueue("run_heartbeat", { project_id: config.projectId, run_id: this.runId, ...this.aggregates(start) });
+      }, heartbeatIntervalMs);
+      // A run that never settles must not keep the process alive; it is what heartbeats report
+      timer.unref?.();
+      stops.push(() => clearInterval(timer));
+    }
+
+    const sources: [AbortSignal | undefined, string][] = [
+      [signal, "run was cancelled"],
+      [parentSignal, "parent run was stopped"],
+    ];
+    for (const [source, message] of sources) {
+      if (!source) continue;
+      const onAbort = () => this.abort("cancelled", message);
+      if (source.aborted) onAbort();
+      source.addEventListener("abort", onAbort, { once: true });
+      stops.push(() => source.removeEventListener("abort", onAbort));
+    }
+
+    return () => stops.forEach((stop) => stop());
+  }
+
+  /** Settles like `promise`, or rejects as soon as the run is stopped */
+  private untilAborted<T>(promise: Promise<T>): Promise<T> {
+    const signal = this.signal;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * An inherited tag is read again when the run ends, because some contexts
+   * only learn their tag while the run executes (routes in Express).
+   */
+  private resolveFeatureTag() {
+    if (this.inheritsTag) this.featureTag = getContext().featureTag ?? "unknown";
+  }
+
+  private async executeRun<T>(fn: (signal: AbortSignal) => Promise<T>, parentSignal?: AbortSignal): Promise<T> {
+    const start = Date.now();
+    this.resolveFeatureTag();
+    enqueue("run_start", {
       project_id: config.projectId,
       run_id: this.runId,
       run_name: this.runName,
       feature_tag: this.featureTag,
-      end_user_id: this.endUserId,
-    }).catch(() => {});
+      ...contextPayload(mergeContexts(getContext(), { endUserId: this.endUserId })),
+      parent_run_id: this.parentRunId,
+      parent_step_id: this.parentStepId,
+      root_run_id: this.rootRunId,
+    });
 
+    const signal = this.signal;
+    let body = () => this._enter(() => fn(signal));
+    for (const instrumentation of instrumentations) {
+      if (!instrumentation.wrapRun) continue;
+      const inner = body;
+      body = () => instrumentation.wrapRun!(this, inner);
+    }
+
+    const stopWatching = this.watch(start, parentSignal);
     try {
-      const result = await runStorage.run(this, () =>
-        featureTagStorage.run(this.featureTag, fn)
-      );
+      if (signal.aborted) throw signal.reason;
+      const result = await this.untilAborted(body());
 
-      // Fire end — completed
-      sendRunApi("/api/runs/end", {
+      this.resolveFeatureTag();
+      enqueue("run_end", {
         project_id: config.projectId,
         run_id: this.runId,
+        run_name: this.runName,
+        feature_tag: this.featureTag,
         status: "completed",
-      }).catch(() => {});
+        ...this.aggregates(start),
+      });
 
       return result;
     } catch (err: any) {
-      // Fire end — failed
-      sendRunApi("/api/runs/end", {
+      let status: RunStatus = "failed";
+      if (signal.aborted && err === signal.reason) status = err.status;
+      else if (err instanceof BudgetExceededError) status = "budget_exceeded";
+
+      this.resolveFeatureTag();
+      enqueue("run_end", {
         project_id: config.projectId,
         run_id: this.runId,
-        status: "failed",
+        run_name: this.runName,
+        feature_tag: this.featureTag,
+        status,
         error_type: err?.constructor?.name ?? "Error",
-      }).catch(() => {});
+        ...this.aggregates(start),
+      });
 
       throw err;
+    } finally {
+      stopWatching();
+      budgetTracker.releaseRun(this.runId);
     }
   }
 }
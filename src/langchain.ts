@@ -0,0 +1,392 @@
+import { AsyncResource } from "async_hooks";
+import {
+  AgentRun,
+  CallFields,
+  StepType,
+  track,
+  countTokens,
+  runStorage,
+  _callContext,
+  _capturesContent,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { CallContext } from "./context";
+import { ContentMessage, contentText } from "./content";
+import { promptFields } from "./fingerprint";
+
+type TrackOptions = Parameters<typeof track>[0];
+
+export interface AgentracerCallbackHandlerOptions {
+  /** Feature tag for every call. Default: `metadata.feature_tag` of the run, then the current context */
+  featureTag?: string;
+  /** Run that chain, tool and retriever steps are recorded in. Default: the active `AgentRun` */
+  run?: AgentRun;
+  /** Record chains as steps. Default: true */
+  chains?: boolean;
+}
+
+// `ls_provider` values LangChain chat models report in their run metadata
+const PROVIDERS: Record<string, string> = {
+  google_genai: "gemini",
+  google_vertexai: "gemini",
+  amazon_bedrock: "bedrock",
+  mistralai: "mistral",
+};
+
+// Providers whose prices count cache reads apart from input tokens, see computeCost
+const SEPARATE_CACHE = new Set(["anthropic", "bedrock"]);
+
+const ROLES: Record<string, string> = { human: "user", ai: "assistant", generic: "user" };
+
+interface LLMCall {
+  model: string;
+  provider: string;
+  context: CallContext;
+  parentRunId?: string;
+  start: number;
+  firstTokenAt: number | null;
+  chunkCount: number;
+  fields: Partial<CallFields>;
+}
+
+/** A chain, tool or retriever step that is still running */
+interface OpenStep {
+  /** Async context inside the step, so nested steps and LLM calls know their parent */
+  scope: AsyncResource;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+function messageRole(message: any): string {
+  const type = message?._getType?.() ?? message?.getType?.() ?? message?.role ?? "user";
+  return ROLES[type] ?? type;
+}
+
+function modelName(extraParams: any, metadata: any): string {
+  const params = extraParams?.invocation_params;
+  return metadata?.ls_model_name ?? params?.model ?? params?.model_name ?? params?.modelName ?? "unknown";
+}
+
+function providerName(metadata: any): string {
+  const provider = metadata?.ls_provider;
+  if (provider == null) return "custom";
+  return PROVIDERS[provider] ?? provider;
+}
+
+/**
+ * Usage from the message's `usage_metadata`, where LangChain normalizes it
+ * for every provider, or from the older `llmOutput.tokenUsage`.
+ * `usage_metadata.input_tokens` includes cache reads and writes.
+ */
+function llmUsage(output: any, provider: string): CallFields {
+  const usage = output?.generations?.[0]?.[0]?.message?.usage_metadata;
+  if (usage) {
+    const cachedTokens = usage.input_token_details?.cache_read ?? 0;
+    const cacheWriteTokens = usage.input_token_details?.cache_creation ?? 0;
+    const inputTokens = usage.input_tokens ?? 0;
+    return {
+      inputTokens: SEPARATE_CACHE.has(provider)
+        ? Math.max(0, inputTokens - cachedTokens - cacheWriteTokens)
+        : inputTokens,
+      outputTokens: usage.output_tokens ?? 0,
+      cachedTokens,
+      cacheWriteTokens: cacheWriteTokens || undefined,
+      reasoningTokens: usage.output_token_details?.reasoning,
+    };
+  }
+  const legacy = output?.llmOutput?.tokenUsage ?? output?.llmOutput?.estimatedTokenUsage;
+  return { inputTokens: legacy?.promptTokens ?? 0, outputTokens: legacy?.completionTokens ?? 0 };
+}
+
+function llmOutcome(output: any): { fields: Partial<CallFields>; outputText: string } {
+  const generations: any[] = output?.generations?.[0] ?? [];
+  const first = generations[0];
+  const metadata = first?.message?.response_metadata;
+  return {
+    fields: {
+      finishReason:
+        first?.generationInfo?.finish_reason ?? metadata?.finish_reason ?? metadata?.stop_reason ?? undefined,
+      toolCallCount: generations.reduce(
+        (count, generation) => count + (generation.message?.tool_calls?.length ?? 0),
+        0
+      ),
+      responseModel: metadata?.model_name ?? metadata?.model,
+    },
+    outputText: generations.map((generation) => generation.text ?? "").join(""),
+  };
+}
+
+/**
+ * A LangChain.js callback handler. Chat model and LLM calls are tracked like
+ * calls through the provider wrappers; inside an `AgentRun`, chains, tools
+ * and retrievers become run steps, nested the way LangChain ran them.
+ *
+ * ```ts
+ * await chain.invoke(input, { callbacks: [new AgentracerCallbackHandler()] });
+ * ```
+ *
+ * The handler runs inline (`awaitHandlers`) so it sees the caller's
+ * `observe()` context and active run.
+ */
+export class AgentracerCallbackHandler {
+  name = "agentracer";
+  awaitHandlers = true;
+  raiseError = false;
+  ignoreLLM = false;
+  ignoreChain = false;
+  ignoreAgent = false;
+  ignoreRetriever = false;
+
+  private options: AgentracerCallbackHandlerOptions;
+  private llmCalls = new Map<string, LLMCall>();
+  private steps = new Map<string, OpenStep>();
+  // Parent of every LangChain run seen, so children of unrecorded runs find
+  // the closest recorded ancestor
+  private parents = new Map<string, string | undefined>();
+
+  constructor(options: AgentracerCallbackHandlerOptions = {}) {
+    this.options = options;
+  }
+
+  handleChatModelStart(
+    _llm: any,
+    messages: any[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: any,
+    _tags?: string[],
+    metadata?: Record<string, any>
+  ) {
+    const prompt: ContentMessage[] = (messages?.[0] ?? []).map((message: any) => ({
+      role: messageRole(message),
+      content: contentText(message?.content),
+    }));
+    this.startLLM(runId, parentRunId, extraParams, metadata, prompt);
+  }
+
+  handleLLMStart(
+    _llm: any,
+    prompts: string[],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: any,
+    _tags?: string[],
+    metadata?: Record<string, any>
+  ) {
+    this.startLLM(runId, parentRunId, extraParams, metadata, [{ role: "user", content: prompts?.[0] ?? "" }]);
+  }
+
+  handleLLMNewToken(_token: string, _idx: unknown, runId: string) {
+    const call = this.llmCalls.get(runId);
+    if (!call) return;
+    call.chunkCount++;
+    call.firstTokenAt ??= Date.now();
+  }
+
+  handleLLMEnd(output: any, runId: string) {
+    const call = this.llmCalls.get(runId);
+    if (!call) return;
+    this.llmCalls.delete(runId);
+    this.parents.delete(runId);
+
+    this.inScope(call.parentRunId, () =>
+      _trackResponse(() => {
+        const usage = llmUsage(output, call.provider);
+        const { fields, outputText } = llmOutcome(output);
+        const capture = _capturesContent(call.context.featureTag);
+        return {
+          model: call.model,
+          ...call.fields,
+          ...usage,
+          ...fields,
+          ..._outputFields({ ...call.fields, ...usage }, call.model, outputText, capture),
+          latencyMs: Date.now() - call.start,
+          ...call.context,
+          provider: call.provider,
+          ...this.streamFields(call),
+        };
+      })
+    );
+  }
+
+  handleLLMError(err: unknown, runId: string) {
+    const call = this.llmCalls.get(runId);
+    if (!call) return;
+    this.llmCalls.delete(runId);
+    this.parents.delete(runId);
+
+    this.inScope(call.parentRunId, () =>
+      _trackFailure(call.model, call.provider, call.context, call.fields, call.start, err)
+    );
+  }
+
+  handleChainStart(
+    chain: any,
+    _inputs: unknown,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: unknown,
+    runType?: string,
+    runName?: string
+  ) {
+    // Prompt templates and output parsers are chains too; only real chains are steps
+    const hidden = tags?.includes("langsmith:hidden") || (runType != null && runType !== "chain");
+    if (this.options.chains === false || hidden) {
+      this.parents.set(runId, parentRunId);
+      return;
+    }
+    this.startStep(runId, parentRunId, runName ?? this.serializedName(chain, "chain"), "custom");
+  }
+
+  handleChainEnd(_outputs: unknown, runId: string) {
+    this.endStep(runId);
+  }
+
+  handleChainError(err: unknown, runId: string) {
+    this.endStep(runId, err);
+  }
+
+  handleToolStart(
+    tool: any,
+    _input: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: unknown,
+    runName?: string
+  ) {
+    this.startStep(runId, parentRunId, runName ?? this.serializedName(tool, "tool"), "tool");
+  }
+
+  handleToolEnd(_output: unknown, runId: string) {
+    this.endStep(runId);
+  }
+
+  handleToolError(err: unknown, runId: string) {
+    this.endStep(runId, err);
+  }
+
+  handleRetrieverStart(
+    retriever: any,
+    _query: string,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    _metadata?: unknown,
+    name?: string
+  ) {
+    this.startStep(runId, parentRunId, name ?? this.serializedName(retriever, "retriever"), "retrieval");
+  }
+
+  handleRetrieverEnd(_documents: unknown, runId: string) {
+    this.endStep(runId);
+  }
+
+  handleRetrieverError(err: unknown, runId: string) {
+    this.endStep(runId, err);
+  }
+
+  private startLLM(
+    runId: string,
+    parentRunId: string | undefined,
+    extraParams: any,
+    metadata: Record<string, any> | undefined,
+    prompt: ContentMessage[]
+  ) {
+    this.parents.set(runId, parentRunId);
+    const model = modelName(extraParams, metadata);
+    // Resolved where the call is tracked, so it defaults to the run's feature tag
+    const featureTag = this.options.featureTag ?? metadata?.feature_tag;
+    const context = this.inScope(parentRunId, () => _callContext(featureTag, undefined));
+    const params = extraParams?.invocation_params;
+
+    this.llmCalls.set(runId, {
+      model,
+      provider: providerName(metadata),
+      context,
+      parentRunId,
+      start: Date.now(),
+      firstTokenAt: null,
+      chunkCount: 0,
+      fields: {
+        operation: "chat",
+        messageCount: prompt.length,
+        toolCount: params?.tools?.length,
+        maxTokens: params?.max_tokens ?? params?.max_completion_tokens ?? params?.maxTokens,
+        temperature: params?.temperature,
+        ...promptFields(
+          () => ({ messages: prompt, tools: params?.tools }),
+          (text) => countTokens(text, model),
+          _capturesContent(context.featureTag)
+        ),
+      },
+    });
+  }
+
+  private streamFields(call: LLMCall): Partial<TrackOptions> {
+    if (call.chunkCount === 0) return {};
+    return {
+      streamStatus: "completed",
+      timeToFirstTokenMs: call.firstTokenAt == null ? null : call.firstTokenAt - call.start,
+      chunkCount: call.chunkCount,
+    };
+  }
+
+  private serializedName(serialized: any, fallback: string): string {
+    return serialized?.name ?? serialized?.id?.[serialized.id.length - 1] ?? fallback;
+  }
+
+  /** The closest recorded step above a LangChain run */
+  private openAncestor(parentRunId: string | undefined): OpenStep | undefined {
+    const seen = new Set<string>();
+    let id = parentRunId;
+    while (id != null && !seen.has(id)) {
+      const step = this.steps.get(id);
+      if (step) return step;
+      seen.add(id);
+      id = this.parents.get(id);
+    }
+    return undefined;
+  }
+
+  private inScope<T>(parentRunId: string | undefined, fn: () => T): T {
+    const parent = this.openAncestor(parentRunId);
+    if (parent) return parent.scope.runInAsyncScope(fn);
+    return this.options.run ? this.options.run._enter(fn) : fn();
+  }
+
+  /**
+   * Opens an `AgentRun` step that stays open until LangChain reports the end
+   * of the run, so steps get the same events, nesting and spans as
+   * `run.step()`.
+   */
+  private startStep(runId: string, parentRunId: string | undefined, name: string, type: StepType) {
+    this.parents.set(runId, parentRunId);
+    this.inScope(parentRunId, () => {
+      const run = runStorage.getStore();
+      if (!run) return;
+      run
+        .step(
+          name,
+          type,
+          () =>
+            new Promise<void>((resolve, reject) => {
+              this.steps.set(runId, { scope: new AsyncResource("agentracer.langchain"), resolve, reject });
+            })
+        )
+        .catch(() => {});
+    });
+  }
+
+  private endStep(runId: string, err?: unknown) {
+    const step = this.steps.get(runId);
+    this.parents.delete(runId);
+    if (!step) return;
+    this.steps.delete(runId);
+    if (err === undefined) step.resolve();
+    else step.reject(err);
+  }
+}
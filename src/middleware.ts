@@ -0,0 +1,370 @@
+import { AsyncResource } from "async_hooks";
+import { AgentRun, CallTotals, getContext, _withTotals } from "./index";
+import { AgentracerContext, contextStorage, mergeContexts } from "./context";
+
+export interface MiddlewareOptions<Req = any> {
+  /** Feature tag of a request. Default: the matched route, e.g. `"POST /chats/:id"` */
+  featureTag?: string | ((req: Req) => string | undefined);
+  /** End user, session, tenant and metadata of a request, e.g. from its auth token */
+  context?: (req: Req) => AgentracerContext | undefined | Promise<AgentracerContext | undefined>;
+  /** Record every request as an `AgentRun`. Default: false */
+  run?: boolean | ((req: Req) => boolean);
+  /** Send the request's totals as `x-agentracer-*` response headers. Default: true */
+  headers?: boolean;
+}
+
+/** Per-request state, available to handlers as `req.agentracer` (or `c.get("agentracer")` in Hono) */
+export interface RequestScope {
+  /** LLM usage of the request so far */
+  totals: CallTotals;
+  /** The request's run, when `run` is enabled */
+  run?: AgentRun;
+}
+
+interface Scope extends RequestScope {
+  context: AgentracerContext;
+}
+
+/** Marks runs of requests answered with a 5xx status as failed */
+class HttpError extends Error {
+  constructor(public status: number) {
+    super(`Request failed with status ${status}`);
+    this.name = "HttpError";
+  }
+}
+
+function explicitTag<Req>(req: Req, options: MiddlewareOptions<Req>): string | undefined {
+  return typeof options.featureTag === "function" ? options.featureTag(req) : options.featureTag;
+}
+
+/**
+ * Resolves the request's context. Without an explicit feature tag, the tag
+ * is read from `route` whenever a call asks for it, because some frameworks
+ * (Express) only match the route after the middleware has run.
+ */
+async function openScope<Req>(
+  req: Req,
+  options: MiddlewareOptions<Req>,
+  route: () => string | undefined
+): Promise<Scope> {
+  const extracted = await options.context?.(req);
+  const context = mergeContexts(getContext(), extracted);
+  const tag = explicitTag(req, options) ?? extracted?.featureTag;
+  if (tag != null) {
+    context.featureTag = tag;
+  } else {
+    const fallback = context.featureTag;
+    Object.defineProperty(context, "featureTag", { get: () => route() ?? fallback, enumerable: true });
+  }
+
+  const wantsRun = typeof options.run === "function" ? options.run(req) : options.run;
+  let run: AgentRun | undefined;
+  if (wantsRun && tag != null) {
+    run = new AgentRun({ runName: tag, featureTag: tag, endUserId: context.endUserId });
+  } else if (wantsRun) {
+    // The run takes its tag from the context, and its name from the route once matched
+    run = new AgentRun({ endUserId: context.endUserId });
+    Object.defineProperty(run, "runName", { get: () => context.featureTag, enumerable: true });
+  }
+
+  return {
+    context,
+    run,
+    totals: { callCount: 0, errorCount: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+  };
+}
+
+function enterScope<T>(scope: Scope, fn: () => Promise<T>): Promise<T> {
+  return contextStorage.run(scope.context, () =>
+    _withTotals(scope.totals, () => (scope.run ? scope.run.execute(fn) : fn()))
+  );
+}
+
+function totalsHeaders(scope: RequestScope): Record<string, string> {
+  const headers: Record<string, string> = {
+    "x-agentracer-llm-calls": String(scope.totals.callCount),
+    "x-agentracer-input-tokens": String(scope.totals.inputTokens),
+    "x-agentracer-output-tokens": String(scope.totals.outputTokens),
+    "x-agentracer-cost-usd": scope.totals.costUsd.toFixed(6),
+  };
+  if (scope.run) headers["x-agentracer-run-id"] = scope.run.runId;
+  return headers;
+}
+
+function expressRoute(req: any): string | undefined {
+  // `req.route` is set once the router has matched the request
+  if (req.route?.path == null) return undefined;
+  return `${req.method} ${req.baseUrl ?? ""}${req.route.path}`;
+}
+
+/** Calls `callback` once, when a Node.js response has been sent or the connection closed */
+function onResponseEnd(res: any, callback: () => void) {
+  let called = false;
+  const done = () => {
+    if (called) return;
+    called = true;
+    callback();
+  };
+  res.once("finish", done);
+  res.once("close", done);
+}
+
+/**
+ * Express middleware. Every request is handled inside its own context, so
+ * the LLM calls it makes carry its feature tag, user and session:
+ *
+ * ```ts
+ * app.use(agentracerExpress({ context: (req) => ({ endUserId: req.user?.id }) }));
+ * ```
+ *
+ * The default feature tag is the route pattern, e.g. `"POST /chats/:id"`.
+ * Totals are added as response headers right before the headers are sent.
+ */
+export function agentracerExpress(options: MiddlewareOptions = {}) {
+  return (req: any, res: any, next: (err?: unknown) => void) => {
+    openScope(req, options, () => expressRoute(req)).then(
+      (scope) => {
+        req.agentracer = scope;
+        if (options.headers !== false) {
+          const writeHead = res.writeHead;
+          res.writeHead = function (this: any, ...args: any[]) {
+            if (!this.headersSent) {
+              for (const [name, value] of Object.entries(totalsHeaders(scope))) this.setHeader(name, value);
+            }
+            return writeHead.apply(this, args);
+          };
+        }
+
+        enterScope(
+          scope,
+          () =>
+            new Promise<void>((resolve, reject) => {
+              onResponseEnd(res, () => (res.statusCode >= 500 ? reject(new HttpError(res.statusCode)) : resolve()));
+              next();
+            })
+        ).catch(() => {
+          // a failed request is already recorded on its run
+        });
+      },
+      // A failing context extractor must never fail the request
+      () => next()
+    );
+  };
+}
+
+function fastifyRoute(request: any): string | undefined {
+  const url = request.routeOptions?.url ?? request.routerPath;
+  return url == null ? undefined : `${request.method} ${url}`;
+}
+
+interface PendingRequest {
+  /** Async context inside the request scope; body parsing loses it */
+  resource: AsyncResource;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+  error?: unknown;
+}
+
+/**
+ * Fastify plugin. Registered at the top level, it applies to every route:
+ *
+ * ```ts
+ * await app.register(agentracerFastify({ run: true }));
+ * ```
+ *
+ * Handlers read the request's totals from `request.agentracer`.
+ */
+export function agentracerFastify(options: MiddlewareOptions = {}) {
+  const pending = new WeakMap<object, PendingRequest>();
+
+  const plugin = (fastify: any, _opts: unknown, done: () => void) => {
+    fastify.decorateRequest("agentracer", null);
+
+    fastify.addHook("onRequest", (request: any, _reply: any, hookDone: () => void) => {
+      openScope(request, options, () => fastifyRoute(request)).then(
+        (scope) => {
+          request.agentracer = scope;
+          enterScope(
+            scope,
+            () =>
+              new Promise<void>((resolve, reject) => {
+                const resource = new AsyncResource("agentracer.request");
+                pending.set(request, { resource, resolve, reject });
+                hookDone();
+              })
+          ).catch(() => {
+            // a failed request is already recorded on its run
+          });
+        },
+        () => hookDone()
+      );
+    });
+
+    // Back into the request scope after the body was read from the socket
+    fastify.addHook("preValidation", (request: any, _reply: any, hookDone: () => void) => {
+      const entry = pending.get(request);
+      if (entry) entry.resource.runInAsyncScope(hookDone);
+      else hookDone();
+    });
+
+    fastify.addHook("onError", (request: any, _reply: any, error: unknown, hookDone: () => void) => {
+      const entry = pending.get(request);
+      if (entry) entry.error = error;
+      hookDone();
+    });
+
+    fastify.addHook(
+      "onSend",
+      (request: any, reply: any, payload: unknown, hookDone: (err: null, payload: unknown) => void) => {
+        if (options.headers !== false && request.agentracer) {
+          for (const [name, value] of Object.entries(totalsHeaders(request.agentracer))) reply.header(name, value);
+        }
+        hookDone(null, payload);
+      }
+    );
+
+    fastify.addHook("onResponse", (request: any, reply: any, hookDone: () => void) => {
+      const entry = pending.get(request);
+      pending.delete(request);
+      if (entry) {
+        const status = reply.statusCode;
+        if (entry.error !== undefined) entry.reject(entry.error);
+        else if (status >= 500) entry.reject(new HttpError(status));
+        else entry.resolve();
+      }
+      hookDone();
+    });
+
+    done();
+  };
+
+  // What `fastify-plugin` does: the hooks apply outside the plugin's own scope
+  return Object.assign(plugin, {
+    [Symbol.for("skip-override")]: true,
+    [Symbol.for("fastify.display-name")]: "agentracer",
+  });
+}
+
+function honoRoute(c: any): string | undefined {
+  const routes: any[] = c.req.matchedRoutes ?? [];
+  // Middleware is registered for all methods; the handler is the last route for this method
+  const route = [...routes].reverse().find((candidate) => candidate.method !== "ALL") ?? routes[routes.length - 1];
+  return route ? `${c.req.method} ${route.path}` : undefined;
+}
+
+/**
+ * Runs `fn` inside the request scope. Errors `fn` throws reach the caller;
+ * `failure` only marks the request's run as failed.
+ */
+async function handleInScope<T>(scope: Scope, fn: () => Promise<T>, failure: (result: T) => unknown): Promise<T> {
+  let result: T;
+  let thrown: { error: unknown } | undefined;
+  await enterScope(scope, async () => {
+    try {
+      result = await fn();
+    } catch (error) {
+      thrown = { error };
+      throw error;
+    }
+    const error = failure(result);
+    if (error !== undefined) throw error;
+  }).catch(() => {
+    // a failed request is already recorded on its run
+  });
+  if (thrown) throw thrown.error;
+  return result!;
+}
+
+/**
+ * Hono middleware:
+ *
+ * ```ts
+ * app.use(agentracerHono({ context: (c) => ({ endUserId: c.get("userId") }) }));
+ * ```
+ *
+ * Handlers read the request's totals from `c.get("agentracer")`.
+ */
+export function agentracerHono(options: MiddlewareOptions = {}) {
+  return async (c: any, next: () => Promise<void>) => {
+    let scope: Scope;
+    try {
+      scope = await openScope(c, options, () => honoRoute(c));
+    } catch {
+      return next();
+    }
+    c.set("agentracer", scope);
+
+    await handleInScope(scope, next, () => {
+      // Hono turns handler errors into an error response and keeps the error
+      if (c.error) return c.error;
+      return c.res?.status >= 500 ? new HttpError(c.res.status) : undefined;
+    });
+
+    if (options.headers !== false) {
+      for (const [name, value] of Object.entries(totalsHeaders(scope))) c.header(name, value);
+    }
+  };
+}
+
+/**
+ * Next.js has no route pattern at runtime, so it is rebuilt from the path and
+ * the dynamic params: `/chats/42` with `{ id: "42" }` becomes `/chats/[id]`.
+ */
+async function nextRoute(req: Request, ctx: any): Promise<string> {
+  const params: Record<string, string | string[]> = (await ctx?.params) ?? {};
+  const segments = new URL(req.url).pathname.split("/").map((segment) => decodeURIComponent(segment));
+  for (const [name, value] of Object.entries(params)) {
+    if (Array.isArray(value)) {
+      const at = segments.findIndex((_, i) => value.every((part, j) => segments[i + j] === part));
+      if (value.length > 0 && at > 0) segments.splice(at, value.length, `[...${name}]`);
+    } else {
+      const at = segments.indexOf(value);
+      if (at > 0) segments[at] = `[${name}]`;
+    }
+  }
+  return `${req.method} ${segments.join("/")}`;
+}
+
+function withTotalsHeaders(response: Response, scope: RequestScope): Response {
+  const headers = Object.entries(totalsHeaders(scope));
+  try {
+    for (const [name, value] of headers) response.headers.set(name, value);
+    return response;
+  } catch {
+    // Headers of redirects and fetched responses are immutable
+    const copy = new Response(response.body, response);
+    for (const [name, value] of headers) copy.headers.set(name, value);
+    return copy;
+  }
+}
+
+/**
+ * Wraps a Next.js App Router route handler:
+ *
+ * ```ts
+ * export const POST = withAgentracer(async (req) => { ... }, { run: true });
+ * ```
+ *
+ * Handlers read the request's totals with `getTotals()`.
+ */
+export function withAgentracer<Ctx = any>(
+  handler: (req: Request, ctx: Ctx) => Response | Promise<Response>,
+  options: MiddlewareOptions<Request> = {}
+): (req: Request, ctx: Ctx) => Promise<Response> {
+  return async (req, ctx) => {
+    let scope: Scope;
+    try {
+      const route = await nextRoute(req, ctx);
+      scope = await openScope(req, options, () => route);
+    } catch {
+      return handler(req, ctx);
+    }
+
+    const response = await handleInScope(
+      scope,
+      async () => handler(req, ctx),
+      (response) => (response.status >= 500 ? new HttpError(response.status) : undefined)
+    );
+    return options.headers === false ? response : withTotalsHeaders(response, scope);
+  };
+}
@@ -0,0 +1,229 @@
+import {
+  CallFields,
+  track,
+  checkBudgets,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _chatRequestFields,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { proxyResource } from "./proxy";
+import { CallContext } from "./context";
+import { contentText } from "./content";
+
+let _clientInstance: any = null;
+
+function getClient() {
+  if (!_clientInstance) {
+    const { Mistral } = require("@mistralai/mistralai");
+    _clientInstance = new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+  }
+  return _clientInstance;
+}
+
+/** @internal Test-only: inject a mock client */
+export function _setClientForTesting(client: any) {
+  _clientInstance = client;
+}
+
+function chatUsage(usage: any): CallFields {
+  return {
+    inputTokens: usage?.promptTokens ?? 0,
+    outputTokens: usage?.completionTokens ?? 0,
+  };
+}
+
+function completionOutcome(response: any): Partial<CallFields> {
+  return {
+    finishReason: response.choices?.[0]?.finishReason ?? undefined,
+    toolCallCount: (response.choices ?? []).reduce(
+      (count: number, choice: any) => count + (choice.message?.toolCalls?.length ?? 0),
+      0
+    ),
+    responseModel: response.model,
+  };
+}
+
+/** `chat.stream()` yields server-sent events whose `data` is the completion chunk */
+function foldStreamEvent(event: any, fields: CallFields) {
+  const chunk = event?.data ?? event;
+  if (chunk.model) fields.responseModel = chunk.model;
+  for (const choice of chunk.choices ?? []) {
+    if (choice.finishReason) fields.finishReason = choice.finishReason;
+    const started = (choice.delta?.toolCalls ?? []).filter((call: any) => call.id).length;
+    fields.toolCallCount = (fields.toolCallCount ?? 0) + started;
+  }
+  if (chunk.usage) Object.assign(fields, chatUsage(chunk.usage));
+}
+
+function textDelta(event: any): string {
+  return contentText((event?.data ?? event)?.choices?.[0]?.delta?.content);
+}
+
+const isContentEvent = (event: any) => {
+  const delta = (event?.data ?? event)?.choices?.[0]?.delta;
+  return Boolean(delta?.content || delta?.toolCalls?.length);
+};
+
+function wrapMistralStream(
+  stream: AsyncIterable<any>,
+  params: any,
+  context: CallContext,
+  start: number,
+  requestFields: Partial<CallFields>
+) {
+  const fields: CallFields = { ...requestFields, inputTokens: 0, outputTokens: 0, toolCallCount: 0 };
+  let outputText = "";
+
+  return observeStream(stream, start, {
+    onChunk(event) {
+      foldStreamEvent(event, fields);
+      outputText += textDelta(event);
+    },
+    isContent: isContentEvent,
+    onEnd(stats) {
+      track({
+        model: params.model,
+        ...fields,
+        ..._outputFields(fields, params.model, outputText, _capturesContent(context.featureTag)),
+        ...context,
+        provider: "mistral",
+        operation: "chat",
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+}
+
+function resolveContext(params: any): CallContext {
+  return _callContext(params.feature_tag, params.agentracer);
+}
+
+function chatRequest(params: any, context: CallContext): Partial<CallFields> {
+  return { ..._chatRequestFields(params, params.maxTokens, context.featureTag), operation: "chat" };
+}
+
+function proxyChat(chat: any) {
+  return proxyResource(chat, {
+    complete: async (params: any, ...rest: any[]) => {
+      const context = resolveContext(params);
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const requestFields = chatRequest(cleanParams, context);
+      const start = Date.now();
+      let response: any;
+      try {
+        response = await chat.complete(cleanParams, ...rest);
+      } catch (err: any) {
+        _trackFailure(cleanParams.model ?? "unknown", "mistral", context, requestFields, start, err);
+        throw err;
+      }
+
+      _trackResponse(() => {
+        const usage = chatUsage(response.usage);
+        const outputText = contentText(response.choices?.[0]?.message?.content);
+        const capture = _capturesContent(context.featureTag);
+        return {
+          model: cleanParams.model,
+          ...requestFields,
+          ...usage,
+          ...completionOutcome(response),
+          ..._outputFields({ ...requestFields, ...usage }, cleanParams.model, outputText, capture),
+          latencyMs: Date.now() - start,
+          ...context,
+          provider: "mistral",
+        };
+      });
+
+      return response;
+    },
+
+    stream: async (params: any, ...rest: any[]) => {
+      const context = resolveContext(params);
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const requestFields = chatRequest(cleanParams, context);
+      const start = Date.now();
+      let stream: any;
+      try {
+        stream = await chat.stream(cleanParams, ...rest);
+      } catch (err: any) {
+        _trackFailure(cleanParams.model ?? "unknown", "mistral", context, requestFields, start, err, true);
+        throw err;
+      }
+
+      return wrapMistralStream(stream, cleanParams, context, start, requestFields);
+    },
+  });
+}
+
+function proxyEmbeddings(embeddings: any) {
+  return proxyResource(embeddings, {
+    create: async (params: any, ...rest: any[]) => {
+      const context = resolveContext(params);
+      const { feature_tag, agentracer, ...cleanParams } = params;
+      checkBudgets(context.featureTag, context.endUserId);
+
+      const start = Date.now();
+      let response: any;
+      try {
+        response = await embeddings.create(cleanParams, ...rest);
+      } catch (err: any) {
+        _trackFailure(cleanParams.model ?? "unknown", "mistral", context, { operation: "embeddings" }, start, err);
+        throw err;
+      }
+
+      track({
+        model: cleanParams.model ?? "mistral-embed",
+        inputTokens: response.usage?.promptTokens ?? 0,
+        outputTokens: 0,
+        latencyMs: Date.now() - start,
+        ...context,
+        provider: "mistral",
+        operation: "embeddings",
+      }).catch(() => {});
+
+      return response;
+    },
+  });
+}
+
+function createMistralProxy(clientGetter: () => any) {
+  return new Proxy({} as any, {
+    get(_, prop) {
+      const client = clientGetter();
+
+      switch (prop) {
+        case "chat":
+          return proxyChat(client.chat);
+        case "embeddings":
+          return proxyEmbeddings(client.embeddings);
+      }
+
+      const value = client[prop];
+      return typeof value === "function" ? value.bind(client) : value;
+    },
+  });
+}
+
+/**
+ * A Mistral client built from explicit options. Exposes the full client
+ * surface; the same methods are tracked as on the default `mistral` export.
+ */
+export class TrackedMistral {
+  [key: string]: any;
+
+  constructor(options?: any) {
+    const { Mistral } = require("@mistralai/mistralai");
+    const client = new Mistral(options);
+    return createMistralProxy(() => client);
+  }
+}
+
+export const mistral = createMistralProxy(() => getClient());
@@ -1,4 +1,23 @@
-import { getConfig, track, featureTagStorage } from "./index";
+import {
+  CallFields,
+  getConfig,
+  track,
+  checkBudgets,
+  countTokens,
+  _streamTrackOptions,
+  _callContext,
+  _capturesContent,
+  _chatRequestShape,
+  _outputFields,
+  _trackFailure,
+  _trackResponse,
+} from "./index";
+import { observeStream } from "./streaming";
+import { proxyResource } from "./proxy";
+import { CallContext } from "./context";
+import { ContentMessage, contentText, textMessages } from "./content";
+import { promptFields } from "./fingerprint";
+import { responseTrackOptions, withResponseHeaders } from "./errors";
 
 let _clientInstance: any = null;
 
@@ -19,109 +38,363 @@ export function _setClientForTesting(client: any) {
   _clientInstance = client;
 }
 
-async function* wrapOpenAIStream(
+/** @internal Also used by `instrumentFetch()`, which sees the same JSON over HTTP */
+export interface Endpoint {
+  operation: string;
+  /** Message and tool counts and sampling params of the request */
+  request?: (params: any) => Partial<CallFields>;
+  /** Usage and outcome of a non-streaming response */
+  usage: (response: any, params: any) => CallFields;
+  stream?: {
+    /** Adjust params before a streaming request is sent */
+    prepare?: (params: any) => void;
+    /** Folds a chunk into the fields collected so far */
+    onChunk: (chunk: any, fields: CallFields) => void;
+    isContent: (chunk: any) => boolean;
+  };
+  /** Prompt messages flattened to text, for the prompt fingerprint and content capture */
+  prompt?: (params: any) => ContentMessage[];
+  /** Generated text, read only when content capture is on */
+  content?: {
+    output: (response: any) => string;
+    /** Generated text carried by a stream chunk */
+    delta: (chunk: any) => string | undefined;
+  };
+}
+
+function chatUsage(usage: any): CallFields {
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
+    audioInputTokens: usage?.prompt_tokens_details?.audio_tokens,
+    audioOutputTokens: usage?.completion_tokens_details?.audio_tokens,
+  };
+}
+
+const chatCompletions: Endpoint = {
+  operation: "chat",
+  request: (params) => _chatRequestShape(params, params.max_completion_tokens ?? params.max_tokens),
+  usage: (response) => ({
+    ...chatUsage(response.usage),
+    finishReason: response.choices?.[0]?.finish_reason ?? undefined,
+    toolCallCount: (response.choices ?? []).reduce(
+      (count: number, choice: any) => count + (choice.message?.tool_calls?.length ?? 0),
+      0
+    ),
+    responseModel: response.model,
+  }),
+  stream: {
+    prepare(params) {
+      params.stream_options = { ...params.stream_options, include_usage: true };
+    },
+    onChunk(chunk, fields) {
+      if (chunk.model) fields.responseModel = chunk.model;
+      for (const choice of chunk.choices ?? []) {
+        if (choice.finish_reason) fields.finishReason = choice.finish_reason;
+        // Only the first delta of each tool call carries its id
+        const started = (choice.delta?.tool_calls ?? []).filter((call: any) => call.id).length;
+        fields.toolCallCount = (fields.toolCallCount ?? 0) + started;
+      }
+      if (chunk.usage) Object.assign(fields, chatUsage(chunk.usage));
+    },
+    isContent: (chunk) => {
+      const delta = chunk.choices?.[0]?.delta;
+      return Boolean(delta?.content || delta?.tool_calls?.length);
+    },
+  },
+  prompt: (params) => textMessages(params.messages),
+  content: {
+    output: (response) => response.choices?.[0]?.message?.content ?? "",
+    delta: (chunk) => chunk.choices?.[0]?.delta?.content ?? undefined,
+  },
+};
+
+function responsesUsage(usage: any): CallFields {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cachedTokens: usage?.input_tokens_details?.cached_tokens ?? 0,
+    reasoningTokens: usage?.output_tokens_details?.reasoning_tokens,
+  };
+}
+
+/** Input items that are messages or tool outputs; other items carry no prompt text */
+function responsesInput(params: any): ContentMessage[] {
+  const messages: ContentMessage[] = [];
+  if (params.instructions) messages.push({ role: "system", content: params.instructions });
+  const items = typeof params.input === "string" ? [{ role: "user", content: params.input }] : params.input ?? [];
+  for (const item of items) {
+    if (item.role) messages.push({ role: item.role, content: contentText(item.content) });
+    else if (item.type === "function_call_output") messages.push({ role: "tool", content: contentText(item.output) });
+  }
+  return messages;
+}
+
+function responsesText(response: any): string {
+  if (typeof response.output_text === "string") return response.output_text;
+  return (response.output ?? [])
+    .filter((item: any) => item.type === "message")
+    .map((item: any) => contentText(item.content))
+    .join("\n");
+}
+
+function responsesOutcome(response: any): Partial<CallFields> {
+  return {
+    finishReason: response.incomplete_details?.reason ?? response.status,
+    // function_call, web_search_call, file_search_call, ...
+    toolCallCount: (response.output ?? []).filter((item: any) => item.type?.endsWith("_call")).length,
+    responseModel: response.model,
+  };
+}
+
+const responses: Endpoint = {
+  operation: "responses",
+  request: (params) => ({
+    messageCount: Array.isArray(params.input) ? params.input.length : params.input != null ? 1 : undefined,
+    toolCount: params.tools?.length,
+    maxTokens: params.max_output_tokens,
+    temperature: params.temperature,
+  }),
+  usage: (response) => ({ ...responsesUsage(response.usage), ...responsesOutcome(response) }),
+  stream: {
+    onChunk(event, fields) {
+      // response.completed, response.incomplete and response.failed all carry the final response
+      if (event.response?.usage) {
+        Object.assign(fields, responsesUsage(event.response.usage), responsesOutcome(event.response));
+      }
+    },
+    isContent: (event) =>
+      event.type === "response.output_text.delta" ||
+      event.type === "response.function_call_arguments.delta",
+  },
+  prompt: responsesInput,
+  content: {
+    output: responsesText,
+    delta: (event) => (event.type === "response.output_text.delta" ? event.delta : undefined),
+  },
+};
+
+const embeddings: Endpoint = {
+  operation: "embeddings",
+  usage: (response) => ({
+    inputTokens: response.usage?.prompt_tokens ?? 0,
+    outputTokens: 0,
+  }),
+};
+
+const images: Endpoint = {
+  operation: "images",
+  // gpt-image-1 reports token usage; DALL-E models only return the images
+  usage: (response, params) => ({
+    inputTokens: response.usage?.input_tokens ?? 0,
+    outputTokens: response.usage?.output_tokens ?? 0,
+    imageCount: response.data?.length ?? params.n ?? 1,
+  }),
+};
+
+const transcriptions: Endpoint = {
+  operation: "audio.transcriptions",
+  // Token-billed models report tokens, whisper-1 reports the audio duration
+  usage: (response) => ({
+    inputTokens: response.usage?.input_tokens ?? 0,
+    outputTokens: response.usage?.output_tokens ?? 0,
+    audioInputTokens: response.usage?.input_token_details?.audio_tokens,
+    audioSeconds: response.usage?.seconds ?? response.duration,
+  }),
+};
+
+const moderations: Endpoint = {
+  operation: "moderations",
+  usage: () => ({ inputTokens: 0, outputTokens: 0 }),
+};
+
+/** @internal Endpoints `instrumentFetch()` parses the same way */
+export const _endpoints = { chatCompletions, responses, embeddings };
+
+// Moderation and image requests may omit the model
+const DEFAULT_MODELS: Record<string, string> = {
+  moderations: "omni-moderation-latest",
+  images: "dall-e-2",
+};
+
+function wrapOpenAIStream(
   stream: AsyncIterable<any>,
+  endpoint: Endpoint,
   model: string,
-  featureTag: string,
-  start: number
+  context: CallContext,
+  start: number,
+  callFields: Partial<CallFields>,
+  capture: boolean,
+  provider: string
 ) {
-  let inputTokens = 0;
-  let outputTokens = 0;
+  const fields: CallFields = { ...callFields, inputTokens: 0, outputTokens: 0 };
+  let outputText = "";
+
+  return observeStream(stream, start, {
+    onChunk(chunk) {
+      endpoint.stream!.onChunk(chunk, fields);
+      if (endpoint.content) outputText += endpoint.content.delta(chunk) ?? "";
+    },
+    isContent: endpoint.stream!.isContent,
+    onEnd(stats) {
+      track({
+        model,
+        ...fields,
+        ..._outputFields(fields, model, outputText, capture),
+        ...context,
+        provider,
+        operation: endpoint.operation,
+        ..._streamTrackOptions(stats),
+      }).catch(() => {});
+    },
+  });
+}
+
+/** @internal Fingerprint of an endpoint's prompt, plus the prompt itself when capturing content */
+export function _endpointPrompt(endpoint: Endpoint, params: any, model: string, capture: boolean) {
+  const prompt = endpoint.prompt;
+  if (!prompt) return {};
+  return promptFields(
+    () => ({ messages: prompt(params), tools: params.tools }),
+    (text) => countTokens(text, model),
+    capture
+  );
+}
+
+function instrument(endpoint: Endpoint, provider: string, invoke: (params: any, ...rest: any[]) => Promise<any>) {
+  return async (params: any, ...rest: any[]) => {
+    const context = _callContext(params.feature_tag, params.agentracer);
+    const { feature_tag, agentracer, ...cleanParams } = params;
+    checkBudgets(context.featureTag, context.endUserId);
+
+    const model = cleanParams.model ?? DEFAULT_MODELS[endpoint.operation] ?? "unknown";
+    const streaming = Boolean(cleanParams.stream && endpoint.stream);
+    if (streaming) endpoint.stream!.prepare?.(cleanParams);
+    const capture = Boolean(endpoint.content) && _capturesContent(context.featureTag);
+    const requestFields: Partial<CallFields> = {
+      operation: endpoint.operation,
+      ...endpoint.request?.(cleanParams),
+      ..._endpointPrompt(endpoint, cleanParams, model, capture),
+    };
 
-  for await (const chunk of stream) {
-    if (chunk.usage) {
-      inputTokens = chunk.usage.prompt_tokens ?? 0;
-      outputTokens = chunk.usage.completion_tokens ?? 0;
+    const start = Date.now();
+    let response: any;
+    let headers: any;
+    try {
+      ({ data: response, headers } = await withResponseHeaders(invoke(cleanParams, ...rest)));
+    } catch (err: any) {
+      _trackFailure(model, provider, context, requestFields, start, err, streaming);
+      throw err;
     }
-    yield chunk;
-  }
 
-  track({
-    model,
-    inputTokens,
-    outputTokens,
-    latencyMs: Date.now() - start,
-    featureTag,
-    provider: "openai",
-  }).catch(() => {});
+    const callFields = { ...requestFields, ...responseTrackOptions(headers) };
+
+    if (streaming) {
+      return wrapOpenAIStream(response, endpoint, model, context, start, callFields, capture, provider);
+    }
+
+    _trackResponse(() => {
+      const usage = endpoint.usage(response, cleanParams);
+      return {
+        model,
+        ...callFields,
+        ...usage,
+        // OpenAI-compatible servers may omit usage
+        ..._outputFields({ ...callFields, ...usage }, model, endpoint.content?.output(response), capture),
+        latencyMs: Date.now() - start,
+        ...context,
+        provider,
+      };
+    });
+
+    return response;
+  };
 }
 
-function createOpenAIProxy(clientGetter: () => any) {
+function createOpenAIProxy(clientGetter: () => any, provider = "openai") {
   return new Proxy({} as any, {
     get(_, prop) {
-      if (prop === "chat") {
-        return {
-          completions: {
-            create: async (params: any) => {
-              const featureTag =
-                params.feature_tag ??
-                featureTagStorage.getStore() ??
-                "unknown";
-
-              const { feature_tag, ...cleanParams } = params;
-
-              const start = Date.now();
-              const client = clientGetter();
-
-              if (cleanParams.stream) {
-                cleanParams.stream_options = {
-                  ...cleanParams.stream_options,
-                  include_usage: true,
-                };
-                const stream = await client.chat.completions.create(cleanParams);
-                return wrapOpenAIStream(stream, params.model, featureTag, start);
-              }
-
-              let response: any;
-              try {
-                response = await client.chat.completions.create(cleanParams);
-              } catch (err: any) {
-                track({
-                  model: params.model,
-                  inputTokens: 0,
-                  outputTokens: 0,
-                  latencyMs: Date.now() - start,
-                  featureTag,
-                  provider: "openai",
-                  success: false,
-                  errorType: err?.constructor?.name ?? "Error",
-                }).catch(() => {});
-                throw err;
-              }
-
-              track({
-                model: params.model,
-                inputTokens: response.usage?.prompt_tokens ?? 0,
-                outputTokens: response.usage?.completion_tokens ?? 0,
-                cachedTokens: response.usage?.prompt_tokens_details?.cached_tokens ?? 0,
-                latencyMs: Date.now() - start,
-                featureTag,
-                provider: "openai",
-              }).catch(() => {});
-
-              return response;
-            },
-          },
-        };
+      const client = clientGetter();
+
+      switch (prop) {
+        case "chat":
+          return proxyResource(client.chat, {
+            completions: proxyResource(client.chat?.completions, {
+              create: instrument(chatCompletions, provider, (...args) => client.chat.completions.create(...args)),
+            }),
+          });
+        case "responses":
+          return proxyResource(client.responses, {
+            create: instrument(responses, provider, (...args) => client.responses.create(...args)),
+          });
+        case "embeddings":
+          return proxyResource(client.embeddings, {
+            create: instrument(embeddings, provider, (...args) => client.embeddings.create(...args)),
+          });
+        case "images":
+          return proxyResource(client.images, {
+            generate: instrument(images, provider, (...args) => client.images.generate(...args)),
+          });
+        case "audio":
+          return proxyResource(client.audio, {
+            transcriptions: proxyResource(client.audio?.transcriptions, {
+              create: instrument(transcriptions, provider, (...args) => client.audio.transcriptions.create(...args)),
+            }),
+          });
+        case "moderations":
+          return proxyResource(client.moderations, {
+            create: instrument(moderations, provider, (...args) => client.moderations.create(...args)),
+          });
       }
 
-      return clientGetter()[prop];
+      const value = client[prop];
+      return typeof value === "function" ? value.bind(client) : value;
     },
   });
 }
 
+/**
+ * An OpenAI client built from explicit options. Exposes the full client
+ * surface; the same endpoints as the default `openai` export are tracked.
+ */
 export class TrackedOpenAI {
-  private _proxy: any;
+  [key: string]: any;
 
   constructor(options?: any) {
     const OpenAI = require("openai").default || require("openai");
     const client = new OpenAI(options);
-    this._proxy = createOpenAIProxy(() => client);
+    return createOpenAIProxy(() => client);
   }
+}
 
-  get chat() {
-    return this._proxy.chat;
-  }
+export interface OpenAICompatibleOptions {
+  /** Root of the server's OpenAI-compatible API, e.g. `"https://api.groq.com/openai/v1"` */
+  baseURL: string;
+  /** Recorded as the call's provider, e.g. `"groq"`, `"together"`, `"vllm"` or `"ollama"` */
+  provider: string;
+  /** Defaults to a placeholder, for local servers that take no key */
+  apiKey?: string;
+  /** A client already configured for the server, wrapped instead of constructing one */
+  client?: any;
+  /** Any other OpenAI client option, such as `timeout` or `defaultHeaders` */
+  [option: string]: any;
+}
+
+/**
+ * An OpenAI client for a server that implements the OpenAI API, such as
+ * Groq, Together, vLLM or Ollama. Calls are tracked like the `openai`
+ * export's, with `provider` recorded instead of `"openai"`.
+ */
+export function openaiCompatible(options: OpenAICompatibleOptions): any {
+  const { provider, client, ...clientOptions } = options;
+  if (client) return createOpenAIProxy(() => client, provider);
+
+  const OpenAI = require("openai").default || require("openai");
+  // The SDK refuses to start without a key; never fall back to OPENAI_API_KEY here
+  const instance = new OpenAI({ ...clientOptions, apiKey: clientOptions.apiKey ?? "not-needed" });
+  return createOpenAIProxy(() => instance, provider);
 }
 
 export const openai = createOpenAIProxy(() => getClient());
@@ -0,0 +1,156 @@
+import {
+  Attributes,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  context,
+  trace,
+} from "@opentelemetry/api";
+import { _registerInstrumentation } from "./index";
+
+// gen_ai.system values from the GenAI semantic conventions
+const GEN_AI_SYSTEMS: Record<string, string> = {
+  openai: "openai",
+  anthropic: "anthropic",
+  gemini: "gcp.gemini",
+  mistral: "mistral_ai",
+  cohere: "cohere",
+  bedrock: "aws.bedrock",
+};
+
+// gen_ai.operation.name values for the provider endpoints we track
+const GEN_AI_OPERATIONS: Record<string, string> = {
+  chat: "chat",
+  responses: "chat",
+  embeddings: "embeddings",
+  images: "generate_content",
+};
+
+// Token breakdown fields copied onto call spans when the provider reports them
+const USAGE_BREAKDOWN = [
+  "cache_write_tokens",
+  "reasoning_tokens",
+  "audio_input_tokens",
+  "audio_output_tokens",
+  "tool_use_prompt_tokens",
+];
+
+function operationName(payload: Record<string, any>): string {
+  if (payload.operation == null) return "chat";
+  return GEN_AI_OPERATIONS[payload.operation] ?? payload.operation;
+}
+
+function callAttributes(payload: Record<string, any>): Attributes {
+  const attributes: Attributes = {
+    "gen_ai.operation.name": operationName(payload),
+    "gen_ai.system": GEN_AI_SYSTEMS[payload.provider] ?? payload.provider,
+    "gen_ai.request.model": payload.model,
+    "gen_ai.usage.input_tokens": payload.input_tokens,
+    "gen_ai.usage.output_tokens": payload.output_tokens,
+    "agentracer.feature_tag": payload.feature_tag,
+    "agentracer.cached_tokens": payload.cached_tokens,
+  };
+
+  if (payload.cost_usd != null) attributes["agentracer.cost_usd"] = payload.cost_usd;
+  for (const field of USAGE_BREAKDOWN) {
+    if (payload[field] != null) attributes[`agentracer.${field}`] = payload[field];
+  }
+  if (payload.response_model != null) attributes["gen_ai.response.model"] = payload.response_model;
+  if (payload.finish_reason != null) attributes["gen_ai.response.finish_reasons"] = [payload.finish_reason];
+  if (payload.max_tokens != null) attributes["gen_ai.request.max_tokens"] = payload.max_tokens;
+  if (payload.temperature != null) attributes["gen_ai.request.temperature"] = payload.temperature;
+  if (payload.error_type != null) attributes["error.type"] = payload.error_type;
+  if (payload.error_category != null) attributes["agentracer.error_category"] = payload.error_category;
+  if (payload.http_status != null) attributes["http.response.status_code"] = payload.http_status;
+  if (payload.end_user_id != null) attributes["agentracer.end_user_id"] = payload.end_user_id;
+  if (payload.session_id != null) attributes["session.id"] = payload.session_id;
+  if (payload.tenant_id != null) attributes["agentracer.tenant_id"] = payload.tenant_id;
+  if (payload.run_id != null) attributes["agentracer.run_id"] = payload.run_id;
+  if (payload.step_index != null) attributes["agentracer.step_index"] = payload.step_index;
+  return attributes;
+}
+
+/**
+ * Emits an OpenTelemetry span for every tracked LLM call, following the GenAI
+ * semantic conventions, a parent `invoke_agent` span around every
+ * `AgentRun.execute`, and a span for every `AgentRun.step`. Spans attach to
+ * whatever OTel context is active when the call, run or step happens.
+ *
+ * Returns a function that stops emitting spans.
+ */
+export function instrumentOpenTelemetry(options: { tracer?: Tracer } = {}): () => void {
+  const tracer = options.tracer ?? trace.getTracer("agentracer");
+
+  return _registerInstrumentation({
+    onCall(payload) {
+      // track() runs once the call has finished, so backdate the span start
+      const end = Date.now();
+      const span = tracer.startSpan(
+        `${operationName(payload)} ${payload.model}`,
+        {
+          kind: SpanKind.CLIENT,
+          startTime: end - (payload.latency_ms ?? 0),
+          attributes: callAttributes(payload),
+        },
+        context.active()
+      );
+      if (payload.success === false) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: payload.error_type });
+      }
+      span.end(end);
+    },
+
+    wrapRun(run, fn) {
+      const attributes: Attributes = {
+        "gen_ai.operation.name": "invoke_agent",
+        "gen_ai.agent.id": run.runId,
+        "agentracer.run_id": run.runId,
+        "agentracer.feature_tag": run.featureTag,
+      };
+      if (run.runName != null) attributes["gen_ai.agent.name"] = run.runName;
+      if (run.endUserId != null) attributes["agentracer.end_user_id"] = run.endUserId;
+
+      return tracer.startActiveSpan(
+        `invoke_agent ${run.runName ?? run.featureTag}`,
+        { kind: SpanKind.INTERNAL, attributes },
+        async (span) => {
+          try {
+            return await fn();
+          } catch (err: any) {
+            span.setAttribute("error.type", err?.constructor?.name ?? "Error");
+            span.setStatus({ code: SpanStatusCode.ERROR, message: err?.message });
+            throw err;
+          } finally {
+            span.end();
+          }
+        }
+      );
+    },
+
+    wrapStep(run, step, fn) {
+      const attributes: Attributes = {
+        "agentracer.run_id": run.runId,
+        "agentracer.step_id": step.stepId,
+        "agentracer.step_index": step.stepIndex,
+        "agentracer.step_type": step.type,
+      };
+      if (step.type === "tool") {
+        attributes["gen_ai.operation.name"] = "execute_tool";
+        attributes["gen_ai.tool.name"] = step.name;
+      }
+
+      const name = step.type === "tool" ? `execute_tool ${step.name}` : `${step.type} ${step.name}`;
+      return tracer.startActiveSpan(name, { kind: SpanKind.INTERNAL, attributes }, async (span) => {
+        try {
+          return await fn();
+        } catch (err: any) {
+          span.setAttribute("error.type", err?.constructor?.name ?? "Error");
+          span.setStatus({ code: SpanStatusCode.ERROR, message: err?.message });
+          throw err;
+        } finally {
+          span.end();
+        }
+      });
+    },
+  });
+}
@@ -0,0 +1,190 @@
+/** Rates in USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Rate for input tokens served from the prompt cache. Defaults to `input`. */
+  cachedInput?: number;
+  /** Rate for input tokens written to the prompt cache. Defaults to `input`. */
+  cacheWrite?: number;
+}
+
+/** Date of the public price lists the built-in catalog was taken from */
+export const PRICING_VERSION = "2025-08-15";
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o1": { input: 15, output: 60, cachedInput: 7.5 },
+  "o1-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  "o3": { input: 2, output: 8, cachedInput: 0.5 },
+  "o3-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+  "gpt-image-1": { input: 5, output: 40, cachedInput: 1.25 },
+  "gpt-4o-transcribe": { input: 2.5, output: 10 },
+  "gpt-4o-mini-transcribe": { input: 1.25, output: 5 },
+  "omni-moderation": { input: 0, output: 0 },
+  "text-moderation": { input: 0, output: 0 },
+
+  // Anthropic
+  "claude-opus-4-5": { input: 5, output: 25, cachedInput: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-opus-4": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1, cacheWrite: 1.25 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 },
+  "claude-3-opus": { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3 },
+
+  // Gemini (prompts up to 200k tokens)
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5, cachedInput: 0.3125 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+  "gemini-1.5-flash-8b": { input: 0.0375, output: 0.15, cachedInput: 0.01 },
+  "gemini-pro": { input: 0.5, output: 1.5 },
+
+  // Mistral
+  "mistral-large": { input: 2, output: 6 },
+  "mistral-medium": { input: 0.4, output: 2 },
+  "mistral-small": { input: 0.1, output: 0.3 },
+  "codestral": { input: 0.3, output: 0.9 },
+  "ministral-8b": { input: 0.1, output: 0.1 },
+  "ministral-3b": { input: 0.04, output: 0.04 },
+  "open-mistral-nemo": { input: 0.15, output: 0.15 },
+  "mistral-embed": { input: 0.1, output: 0 },
+
+  // Cohere
+  "command-a": { input: 2.5, output: 10 },
+  "command-r-plus": { input: 2.5, output: 10 },
+  "command-r": { input: 0.15, output: 0.6 },
+  "command-r7b": { input: 0.0375, output: 0.15 },
+  "embed-v4.0": { input: 0.12, output: 0 },
+  "embed-english-v3.0": { input: 0.1, output: 0 },
+  "embed-multilingual-v3.0": { input: 0.1, output: 0 },
+
+  // Amazon (Bedrock)
+  "nova-pro": { input: 0.8, output: 3.2, cachedInput: 0.2 },
+  "nova-lite": { input: 0.06, output: 0.24, cachedInput: 0.015 },
+  "nova-micro": { input: 0.035, output: 0.14, cachedInput: 0.00875 },
+  "titan-embed-text": { input: 0.02, output: 0 },
+};
+
+/** Message Batches and the OpenAI Batch API bill at half the standard rate */
+export const BATCH_DISCOUNT = 0.5;
+
+// Release suffixes that do not change the price: -20250514, -2024-08-06,
+// -latest and Gemini's -001 style revisions
+const VERSION_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2}|latest|\d{3})$/;
+
+// Bedrock model IDs wrap the vendor's model name: an optional cross-region
+// inference profile, the vendor, and a model version, as in
+// "us.anthropic.claude-3-5-sonnet-20240620-v1:0"
+const BEDROCK_PREFIX = /^(?:(?:us|us-gov|eu|apac|global)\.)?(?:anthropic|amazon|meta|mistral|cohere|ai21|deepseek|writer)\./;
+const BEDROCK_VERSION = /-v\d+(?::\d+)?$/;
+
+function normalizeModel(model: string): string {
+  let name = model.trim().toLowerCase();
+  // Gemini resource names, Bedrock ARNs and provider-prefixed ids like "openai/gpt-4o"
+  const slash = name.lastIndexOf("/");
+  if (slash !== -1) name = name.slice(slash + 1);
+  if (BEDROCK_PREFIX.test(name)) name = name.replace(BEDROCK_PREFIX, "").replace(BEDROCK_VERSION, "");
+  while (VERSION_SUFFIX.test(name)) name = name.replace(VERSION_SUFFIX, "");
+  return name;
+}
+
+// Snapshot dates in the other formats providers use: -0613, -2407, -08-2024,
+// and Gemini's -preview-05-20
+const SNAPSHOT_SUFFIX = /^(?:-preview)?-(?:\d{4}|\d{2}-\d{4}|\d{2}-\d{2})$/;
+
+function lookup(table: Record<string, ModelPricing>, model: string): ModelPricing | undefined {
+  if (table[model]) return table[model];
+
+  // Fall back to the longest catalog entry the model name extends by a
+  // snapshot date only, so "gemini-2.5-flash-preview-05-20" resolves to
+  // "gemini-2.5-flash" while "o3-pro" is not priced as "o3"
+  let best: string | undefined;
+  for (const key of Object.keys(table)) {
+    if (!model.startsWith(`${key}-`) || !SNAPSHOT_SUFFIX.test(model.slice(key.length))) continue;
+    if (!best || key.length > best.length) best = key;
+  }
+  return best ? table[best] : undefined;
+}
+
+/**
+ * Finds the pricing for a model, trying user overrides before the built-in
+ * catalog. Dated aliases resolve to their base model.
+ */
+export function getModelPricing(
+  model: string,
+  overrides: Record<string, ModelPricing> = {}
+): ModelPricing | undefined {
+  if (overrides[model]) return overrides[model];
+  const name = normalizeModel(model);
+  const normalizedOverrides: Record<string, ModelPricing> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    normalizedOverrides[normalizeModel(key)] = value;
+  }
+  return lookup(normalizedOverrides, name) ?? lookup(MODEL_PRICING, name);
+}
+
+/**
+ * Computes the USD cost of a call, or `null` when the model has no known
+ * pricing.
+ *
+ * Anthropic and Bedrock report cache reads separately from the input token
+ * count, while the other providers include them in it, so `cachedTokens` is
+ * subtracted from `inputTokens` for every provider except those two.
+ * Calls that ran through a provider batch API get `BATCH_DISCOUNT`.
+ */
+export function computeCost(
+  usage: {
+    model: string;
+    provider?: string;
+    inputTokens: number;
+    outputTokens: number;
+    cachedTokens?: number;
+    cacheWriteTokens?: number;
+    batch?: boolean;
+  },
+  overrides?: Record<string, ModelPricing>
+): number | null {
+  const pricing = getModelPricing(usage.model, overrides);
+  if (!pricing) return null;
+
+  const cached = usage.cachedTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncached =
+    usage.provider === "anthropic" || usage.provider === "bedrock"
+      ? usage.inputTokens
+      : Math.max(0, usage.inputTokens - cached - cacheWrite);
+
+  const rate = usage.batch ? BATCH_DISCOUNT : 1;
+  const cost =
+    rate *
+    (uncached * pricing.input +
+      cached * (pricing.cachedInput ?? pricing.input) +
+      cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+      usage.outputTokens * pricing.output);
+
+  // Round away floating point noise; sub-nanodollar precision is meaningless
+  return Math.round((cost / 1_000_000) * 1e10) / 1e10;
+}
@@ -0,0 +1,13 @@
+/**
+ * Wraps an SDK resource so the named members are replaced and everything else
+ * is forwarded to the real resource.
+ */
+export function proxyResource(resource: any, overrides: Record<string, any>): any {
+  return new Proxy(resource ?? {}, {
+    get(target, prop) {
+      if (typeof prop === "string" && prop in overrides) return overrides[prop];
+      const value = target[prop];
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
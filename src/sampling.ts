@@ -0,0 +1,42 @@
+/**
+ * Head sampling rates for successful calls, between 0 (drop all) and 1 (keep
+ * all). The most specific match wins: feature tag, then model, then
+ * environment, then `rate`.
+ */
+export interface SamplingOptions {
+  /** Rate for calls no other rule matches. Default: 1 */
+  rate?: number;
+  /** Rates keyed by feature tag */
+  features?: Record<string, number>;
+  /** Rates keyed by model name, as passed to the provider */
+  models?: Record<string, number>;
+  /** Rates keyed by environment label */
+  environments?: Record<string, number>;
+}
+
+function clamp(rate: number): number {
+  if (Number.isNaN(rate)) return 1;
+  return Math.min(1, Math.max(0, rate));
+}
+
+/** The sample rate that applies to a call */
+export function resolveSampleRate(
+  options: SamplingOptions | undefined,
+  call: { featureTag: string; model: string; environment?: string }
+): number {
+  if (!options) return 1;
+  const rate =
+    options.features?.[call.featureTag] ??
+    options.models?.[call.model] ??
+    (call.environment != null ? options.environments?.[call.environment] : undefined) ??
+    options.rate ??
+    1;
+  return clamp(rate);
+}
+
+/** Keeps a call with probability `rate` */
+export function sampled(rate: number, random: () => number = Math.random): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+  return random() < rate;
+}
@@ -0,0 +1,68 @@
+export type StreamStatus = "completed" | "aborted" | "errored";
+
+export interface StreamStats {
+  status: StreamStatus;
+  /** Request start until the stream ended */
+  latencyMs: number;
+  /** Request start until the first chunk carrying generated content */
+  timeToFirstTokenMs: number | null;
+  /** Time the caller spent consuming the stream */
+  streamDurationMs: number;
+  chunkCount: number;
+  /** Set when `status` is `"errored"` */
+  error?: unknown;
+}
+
+/**
+ * Re-yields every chunk of a provider stream while measuring it, then calls
+ * `onEnd` exactly once: after the last chunk, when the stream throws, or when
+ * the consumer stops iterating early.
+ */
+export async function* observeStream<T>(
+  stream: AsyncIterable<T>,
+  start: number,
+  hooks: {
+    onChunk?: (chunk: T) => void;
+    /** Whether a chunk carries generated content. Defaults to every chunk. */
+    isContent?: (chunk: T) => boolean;
+    onEnd: (stats: StreamStats) => void;
+  }
+): AsyncGenerator<T> {
+  const opened = Date.now();
+  let firstTokenAt: number | null = null;
+  let chunkCount = 0;
+  let status: StreamStatus = "aborted";
+  let error: unknown;
+
+  try {
+    for await (const chunk of stream) {
+      chunkCount++;
+      if (firstTokenAt == null && (hooks.isContent?.(chunk) ?? true)) firstTokenAt = Date.now();
+      try {
+        hooks.onChunk?.(chunk);
+      } catch {
+        // never break the caller's stream over telemetry
+      }
+      yield chunk;
+    }
+    status = "completed";
+  } catch (err) {
+    status = "errored";
+    error = err;
+    throw err;
+  } finally {
+    const end = Date.now();
+    try {
+      hooks.onEnd({
+        status,
+        latencyMs: end - start,
+        timeToFirstTokenMs: firstTokenAt == null ? null : firstTokenAt - start,
+        streamDurationMs: end - opened,
+        chunkCount,
+        error,
+      });
+    } catch {
+      // never break the caller's stream over telemetry
+    }
+  }
+}
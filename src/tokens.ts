@@ -0,0 +1,22 @@
+/** Counts the tokens of `text` for `model`, e.g. with tiktoken */
+export type Tokenizer = (text: string, model: string) => number;
+
+// Roughly four characters per token for English text across the major tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Counts with `tokenizer`, falling back to the approximation when it is missing or throws */
+export function countTextTokens(tokenizer: Tokenizer | undefined, text: string, model: string): number {
+  if (tokenizer) {
+    try {
+      const count = tokenizer(text, model);
+      if (Number.isFinite(count)) return count;
+    } catch {
+      // fall back to the approximation
+    }
+  }
+  return approximateTokens(text);
+}
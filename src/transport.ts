@@ -0,0 +1,200 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type TelemetryEventType =
+  | "call"
+  | "run_start"
+  | "run_step"
+  | "run_heartbeat"
+  | "run_end"
+  | "incident"
+  | "batch";
+
+export interface TelemetryEvent {
+  type: TelemetryEventType;
+  payload: Record<string, any>;
+}
+
+export type DropPolicy = "drop_oldest" | "drop_newest";
+
+export interface TransportOptions {
+  maxBatchSize: number;
+  flushIntervalMs: number;
+  maxQueueSize: number;
+  dropPolicy: DropPolicy;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+/**
+ * @internal Set while a batch is being exported, so `instrumentFetch()` never
+ * tracks the SDK's own ingest requests.
+ */
+export const ingestStorage = new AsyncLocalStorage<boolean>();
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** Thrown by a sender when the ingest host answers with a non-2xx status. */
+export class IngestHttpError extends Error {
+  constructor(public status: number, public retryAfterMs?: number) {
+    super(`Ingest request failed with status ${status}`);
+    this.name = "IngestHttpError";
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an
+ * HTTP date, into milliseconds from now.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (value == null || value.trim() === "") return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof IngestHttpError) return RETRYABLE_STATUSES.has(err.status);
+  // fetch rejects with TypeError on network failures and with an
+  // AbortError/TimeoutError when the request signal fires
+  return true;
+}
+
+function backoffDelay(attempt: number, options: TransportOptions): number {
+  const ceiling = Math.min(options.retryMaxDelayMs, options.retryBaseDelayMs * 2 ** attempt);
+  // Full jitter keeps many processes from retrying in lockstep
+  return Math.random() * ceiling;
+}
+
+/**
+ * In-memory queue that groups telemetry events into batches. A batch is sent
+ * once `maxBatchSize` events are queued or `flushIntervalMs` has elapsed
+ * since the first queued event, whichever comes first.
+ *
+ * Failed batches are retried with exponential backoff. When retries run out
+ * on a retryable failure the events go back to the front of the queue so the
+ * next flush tries again. The queue never holds more than `maxQueueSize`
+ * events; overflow is discarded according to `dropPolicy` and counted.
+ */
+export class BatchTransport {
+  private queue: TelemetryEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inflight = new Set<Promise<void>>();
+  private generation = 0;
+  dropped = 0;
+
+  constructor(
+    private send: (events: TelemetryEvent[]) => Promise<void>,
+    private getOptions: () => TransportOptions
+  ) {}
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  enqueue(event: TelemetryEvent): void {
+    const { maxQueueSize, dropPolicy, maxBatchSize } = this.getOptions();
+
+    if (this.queue.length >= maxQueueSize) {
+      this.dropped++;
+      if (dropPolicy === "drop_newest") return;
+      this.queue.shift();
+    }
+    this.queue.push(event);
+
+    if (this.queue.length >= maxBatchSize) {
+      this.flush().catch(() => {});
+      return;
+    }
+
+    this.schedule();
+  }
+
+  /** Send everything queued so far and wait for all in-flight batches. */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const { maxBatchSize } = this.getOptions();
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, maxBatchSize);
+      const sending = this.sendWithRetry(batch, this.generation);
+      this.inflight.add(sending);
+      sending.finally(() => this.inflight.delete(sending));
+    }
+
+    await Promise.all(this.inflight);
+  }
+
+  /** Drop anything queued or awaiting a retry without sending it. */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.generation++;
+    this.queue = [];
+    this.inflight.clear();
+    this.dropped = 0;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(() => {});
+    }, this.getOptions().flushIntervalMs);
+    // Never keep the process alive just to deliver telemetry
+    this.timer.unref?.();
+  }
+
+  private async sendWithRetry(batch: TelemetryEvent[], generation: number): Promise<void> {
+    const options = this.getOptions();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await ingestStorage.run(true, () => this.send(batch));
+        return;
+      } catch (err) {
+        if (generation !== this.generation) return;
+        if (!isRetryable(err)) {
+          this.dropped += batch.length;
+          return;
+        }
+        if (attempt >= options.maxRetries) {
+          this.requeue(batch);
+          return;
+        }
+
+        // A long Retry-After must not hold up flush() and shutdown()
+        const retryAfter = err instanceof IngestHttpError ? err.retryAfterMs : undefined;
+        const delay =
+          retryAfter != null ? Math.min(retryAfter, options.retryMaxDelayMs) : backoffDelay(attempt, options);
+        await new Promise((resolve) => setTimeout(resolve, delay).unref?.());
+        if (generation !== this.generation) return;
+      }
+    }
+  }
+
+  private requeue(batch: TelemetryEvent[]): void {
+    const { maxQueueSize, dropPolicy } = this.getOptions();
+    const room = Math.max(0, maxQueueSize - this.queue.length);
+    const overflow = Math.max(0, batch.length - room);
+    this.dropped += overflow;
+
+    if (dropPolicy === "drop_newest") {
+      // Requeued events are older than anything queued meanwhile, so keep them
+      // and drop from the newest end of the queue instead
+      this.queue.splice(this.queue.length - Math.min(overflow, this.queue.length));
+      this.queue.unshift(...batch.slice(0, maxQueueSize));
+    } else {
+      this.queue.unshift(...batch.slice(overflow));
+    }
+
+    this.schedule();
+  }
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  AgentRun,
+  MemoryExporter,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
+import { agentracerMiddleware, agentracerTools } from "../src/ai-sdk";
+
+let memory: MemoryExporter;
+
+beforeEach(() => {
+  memory = new MemoryExporter();
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: [memory] });
+});
+
+afterEach(() => {
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: undefined, budgets: [] });
+  _resetBudgetsForTesting();
+});
+
+const model = { provider: "openai.chat", modelId: "gpt-4o" };
+const prompt = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: [{ type: "text", text: "Hello" }] },
+];
+
+function partsStream(parts: any[]): ReadableStream<any> {
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part);
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<any>): Promise<any[]> {
+  const parts: any[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return parts;
+    parts.push(value);
+  }
+}
+
+describe("agentracerMiddleware wrapGenerate", () => {
+  it("tracks v2 results with the feature tag from context", async () => {
+    const middleware = agentracerMiddleware();
+    const result = {
+      content: [{ type: "text", text: "Hi!" }, { type: "tool-call", toolName: "search" }],
+      finishReason: "tool-calls",
+      usage: { inputTokens: 12, outputTokens: 3, cachedInputTokens: 4 },
+      response: { modelId: "gpt-4o-2024-08-06" },
+    };
+
+    const returned = await featureTagStorage.run("assistant", () =>
+      middleware.wrapGenerate({
+        doGenerate: async () => result,
+        params: { prompt, maxOutputTokens: 100, temperature: 0.5 },
+        model,
+      })
+    );
+
+    expect(returned).toBe(result);
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o",
+      feature_tag: "assistant",
+      operation: "chat",
+      input_tokens: 12,
+      output_tokens: 3,
+      cached_tokens: 4,
+      finish_reason: "tool-calls",
+      tool_call_count: 1,
+      response_model: "gpt-4o-2024-08-06",
+      message_count: 2,
+      max_tokens: 100,
+      temperature: 0.5,
+    });
+    expect(memory.payloads("call")[0].system_prompt_hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("reads v1 usage and the per-call feature tag", async () => {
+    const middleware = agentracerMiddleware({ featureTag: "default" });
+
+    await middleware.wrapGenerate({
+      doGenerate: async () => ({
+        text: "Hi!",
+        toolCalls: [],
+        finishReason: "stop",
+        usage: { promptTokens: 8, completionTokens: 2 },
+      }),
+      params: { prompt, maxTokens: 50, providerMetadata: { agentracer: { featureTag: "greeter", endUserId: "u1" } } },
+      model: { provider: "anthropic.messages", modelId: "claude-3-5-haiku-latest" },
+    });
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      provider: "anthropic",
+      feature_tag: "greeter",
+      end_user_id: "u1",
+      input_tokens: 8,
+      output_tokens: 2,
+      max_tokens: 50,
+    });
+  });
+
+  it("estimates missing v1 usage", async () => {
+    await agentracerMiddleware().wrapGenerate({
+      doGenerate: async () => ({ text: "Hi there!", usage: { promptTokens: NaN, completionTokens: NaN } }),
+      params: { prompt },
+      model: { provider: "ollama.chat", modelId: "llama3.1" },
+    });
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      provider: "ollama",
+      input_tokens: 5,
+      output_tokens: 3,
+      estimated: true,
+    });
+  });
+
+  it("records failures and rethrows", async () => {
+    const error = Object.assign(new Error("overloaded"), { statusCode: 529 });
+
+    await expect(
+      agentracerMiddleware().wrapGenerate({ doGenerate: () => Promise.reject(error), params: { prompt }, model })
+    ).rejects.toBe(error);
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      success: false,
+      error_category: "server_error",
+      http_status: 529,
+    });
+  });
+
+  it("checks budgets before calling the model", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "global", maxTokens: 10 }] });
+    const doGenerate = vi.fn().mockResolvedValue({ text: "", usage: { inputTokens: 10, outputTokens: 1 } });
+    const middleware = agentracerMiddleware();
+
+    await middleware.wrapGenerate({ doGenerate, params: { prompt }, model });
+    await expect(middleware.wrapGenerate({ doGenerate, params: { prompt }, model })).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(doGenerate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("agentracerMiddleware wrapStream", () => {
+  it("passes every part through and tracks the finish part", async () => {
+    const parts = [
+      { type: "stream-start", warnings: [] },
+      { type: "response-metadata", modelId: "gpt-4o-2024-08-06" },
+      { type: "text-delta", id: "1", delta: "Hel" },
+      { type: "text-delta", id: "1", delta: "lo" },
+      { type: "finish", finishReason: "stop", usage: { inputTokens: 9, outputTokens: 2 } },
+    ];
+
+    const { stream, request } = await agentracerMiddleware().wrapStream({
+      doStream: async () => ({ stream: partsStream(parts), request: { body: "{}" } }),
+      params: { prompt },
+      model,
+    });
+
+    expect(request).toEqual({ body: "{}" });
+    expect(await readAll(stream)).toEqual(parts);
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 5,
+      input_tokens: 9,
+      output_tokens: 2,
+      finish_reason: "stop",
+      response_model: "gpt-4o-2024-08-06",
+    });
+    expect(memory.payloads("call")[0].ttft_ms).not.toBeNull();
+  });
+
+  it("records error parts as failed calls", async () => {
+    const { stream } = await agentracerMiddleware().wrapStream({
+      doStream: async () => ({
+        stream: partsStream([
+          { type: "text-delta", textDelta: "Hel" },
+          { type: "error", error: Object.assign(new Error("rate limited"), { statusCode: 429 }) },
+        ]),
+      }),
+      params: { prompt },
+      model,
+    });
+    await readAll(stream);
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      success: false,
+      stream_status: "errored",
+      error_category: "rate_limit",
+    });
+  });
+
+  it("records cancelled streams as aborted", async () => {
+    const { stream } = await agentracerMiddleware().wrapStream({
+      doStream: async () => ({
+        stream: partsStream([
+          { type: "text-delta", delta: "Hello" },
+          { type: "text-delta", delta: " there" },
+        ]),
+      }),
+      params: { prompt },
+      model,
+    });
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({ stream_status: "aborted", estimated: true });
+  });
+});
+
+describe("agentracerTools", () => {
+  it("records tool executions inside a run as tool steps", async () => {
+    const execute = vi.fn(async ({ city }: { city: string }) => `Sunny in ${city}`);
+    const tools = agentracerTools({ weather: { description: "Weather", execute }, schemaOnly: { description: "x" } });
+
+    const run = new AgentRun({ runName: "assistant", featureTag: "assistant" });
+    const output = await run.execute(() => tools.weather.execute({ city: "Oslo" }, { toolCallId: "t1" }));
+    await tools.weather.execute({ city: "Rome" }, { toolCallId: "t2" });
+
+    expect(output).toBe("Sunny in Oslo");
+    expect(execute).toHaveBeenCalledWith({ city: "Oslo" }, { toolCallId: "t1" });
+    expect(tools.schemaOnly).toEqual({ description: "x" });
+    await flush();
+    expect(memory.payloads("run_step")).toHaveLength(1);
+    expect(memory.payloads("run_step")[0]).toMatchObject({
+      run_id: run.runId,
+      step_type: "tool",
+      step_name: "weather",
+      success: true,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { AnomalyDetector, AnomalySample } from "../src/anomaly";
+
+const baseline: AnomalySample = {
+  provider: "openai",
+  model: "gpt-4o",
+  featureTag: "chatbot",
+  latencyMs: 500,
+  inputTokens: 1000,
+  outputTokens: 200,
+  costUsd: 0.0045,
+};
+
+function warmUp(detector: AnomalyDetector, count = 20) {
+  for (let i = 0; i < count; i++) detector.observe(baseline, {}, i);
+}
+
+describe("AnomalyDetector", () => {
+  it("stays quiet until enough samples are collected", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector, 19);
+    expect(detector.observe({ ...baseline, inputTokens: 50_000 }, {}, 100)).toEqual([]);
+  });
+
+  it("reports prompt bloat relative to the p95 baseline", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector);
+
+    const incidents = detector.observe({ ...baseline, inputTokens: 6000 }, {}, 100);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0]).toMatchObject({
+      type: "prompt_bloat",
+      metric: "input_tokens",
+      value: 6000,
+      baselineP95: 1000,
+      ratio: 6,
+      message: "prompt bloat: input tokens 6.0x p95 for feature 'chatbot' (gpt-4o)",
+    });
+  });
+
+  it("reports latency, output and cost spikes", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector);
+
+    const incidents = detector.observe(
+      { ...baseline, latencyMs: 5000, outputTokens: 2000, costUsd: 0.05 },
+      {},
+      100
+    );
+    expect(incidents.map((i) => i.type).sort()).toEqual(["cost_spike", "latency_spike", "output_spike"]);
+  });
+
+  it("keeps separate baselines per provider, model and feature", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector);
+
+    expect(detector.observe({ ...baseline, featureTag: "search", inputTokens: 6000 }, {}, 100)).toEqual([]);
+  });
+
+  it("honours the threshold option", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector);
+
+    expect(detector.observe({ ...baseline, inputTokens: 6000 }, { threshold: 10 }, 100)).toEqual([]);
+  });
+
+  it("reports a system prompt share rising by points over the p95 baseline", () => {
+    const detector = new AnomalyDetector();
+    for (let i = 0; i < 20; i++) detector.observe({ ...baseline, systemPromptShare: 0.5 }, {}, i);
+
+    expect(detector.observe({ ...baseline, systemPromptShare: 0.6 }, {}, 100)).toEqual([]);
+    const incidents = detector.observe({ ...baseline, systemPromptShare: 0.9 }, {}, 200);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0]).toMatchObject({
+      type: "system_prompt_growth",
+      metric: "system_prompt_share",
+      value: 0.9,
+      baselineP95: 0.5,
+      message: "system prompt growth: system prompt share up 40 points over p95 for feature 'chatbot' (gpt-4o)",
+    });
+  });
+
+  it("suppresses repeat incidents during the cooldown", () => {
+    const detector = new AnomalyDetector();
+    warmUp(detector);
+
+    expect(detector.observe({ ...baseline, inputTokens: 6000 }, { cooldownMs: 1000 }, 100)).toHaveLength(1);
+    expect(detector.observe({ ...baseline, inputTokens: 9000 }, { cooldownMs: 1000 }, 500)).toEqual([]);
+    expect(detector.observe({ ...baseline, inputTokens: 90_000 }, { cooldownMs: 1000 }, 1100)).toHaveLength(1);
+  });
+
+  it("ignores metrics without a value", () => {
+    const detector = new AnomalyDetector();
+    for (let i = 0; i < 20; i++) detector.observe({ ...baseline, costUsd: null }, {}, i);
+    const incidents = detector.observe({ ...baseline, costUsd: 1 }, {}, 100);
+    expect(incidents).toEqual([]);
+  });
+});
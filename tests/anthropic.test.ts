@@ -1,19 +1,34 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { init, featureTagStorage } from "../src/index";
+import { EventEmitter } from "node:events";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  promptFingerprint,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
 import { anthropic, _setClientForTesting } from "../src/anthropic";
 
 const mockCreate = vi.fn();
 
 let fetchSpy: ReturnType<typeof vi.fn>;
 let telemetryPayloads: any[];
+let batchPayloads: any[];
 
 beforeEach(() => {
   telemetryPayloads = [];
+  batchPayloads = [];
   fetchSpy = vi.fn().mockImplementation(async (_url: string, options: any) => {
-    telemetryPayloads.push(JSON.parse(options.body));
+    for (const event of JSON.parse(options.body).events) {
+      if (event.type === "call") telemetryPayloads.push(event.payload);
+      if (event.type === "batch") batchPayloads.push(event.payload);
+    }
     return { ok: true };
   });
   vi.stubGlobal("fetch", fetchSpy);
+  _resetTransportForTesting();
   init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
   mockCreate.mockReset();
   _setClientForTesting({ messages: { create: mockCreate } });
@@ -37,7 +52,7 @@ describe("anthropic non-streaming", () => {
     });
 
     expect(response.usage.input_tokens).toBe(50);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "anthropic",
@@ -62,7 +77,7 @@ describe("anthropic non-streaming", () => {
       });
     });
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0].feature_tag).toBe("summarizer");
   });
 
@@ -80,6 +95,22 @@ describe("anthropic non-streaming", () => {
     expect(forwarded.feature_tag).toBeUndefined();
   });
 
+  it("attaches and strips the agentracer context param", async () => {
+    mockCreate.mockResolvedValue({ content: [], usage: { input_tokens: 1, output_tokens: 1 } });
+
+    await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 50,
+      messages: [],
+      feature_tag: "support",
+      agentracer: { endUserId: "u1", tenantId: "acme" },
+    });
+
+    await flush();
+    expect(mockCreate.mock.calls[0][0]).not.toHaveProperty("agentracer");
+    expect(telemetryPayloads[0]).toMatchObject({ feature_tag: "support", end_user_id: "u1", tenant_id: "acme" });
+  });
+
   it("does not throw when telemetry fails", async () => {
     fetchSpy.mockRejectedValue(new Error("fail"));
     mockCreate.mockResolvedValue({ content: [], usage: { input_tokens: 0, output_tokens: 0 } });
@@ -94,6 +125,148 @@ describe("anthropic non-streaming", () => {
   });
 });
 
+describe("anthropic usage breakdown", () => {
+  it("records cache reads and writes and prices them", async () => {
+    mockCreate.mockResolvedValue({
+      content: [],
+      usage: {
+        input_tokens: 1_000_000,
+        output_tokens: 0,
+        cache_read_input_tokens: 1_000_000,
+        cache_creation_input_tokens: 1_000_000,
+      },
+    });
+
+    await anthropic.messages.create({ model: "claude-sonnet-4-20250514", max_tokens: 10, messages: [] });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_tokens: 1_000_000,
+      cached_tokens: 1_000_000,
+      cache_write_tokens: 1_000_000,
+      cost_usd: 3 + 0.3 + 3.75,
+    });
+  });
+
+  it("records cache usage from message_start in streams", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: "message_start",
+          message: { usage: { input_tokens: 10, cache_read_input_tokens: 500, cache_creation_input_tokens: 40, output_tokens: 1 } },
+        };
+        yield { type: "message_delta", usage: { output_tokens: 25 } };
+      },
+    });
+
+    const stream = await anthropic.messages.create({ model: "claude-3-haiku-20240307", max_tokens: 50, messages: [], stream: true });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_tokens: 10,
+      output_tokens: 25,
+      cached_tokens: 500,
+      cache_write_tokens: 40,
+    });
+  });
+});
+
+describe("anthropic request shape", () => {
+  const params = {
+    model: "claude-sonnet-4-5",
+    max_tokens: 1024,
+    temperature: 0.5,
+    messages: [{ role: "user", content: "weather?" }],
+    tools: [{ name: "get_weather" }, { name: "get_time" }],
+  };
+
+  it("records request params, stop reason, tool calls and the response model", async () => {
+    mockCreate.mockResolvedValue({
+      model: "claude-sonnet-4-5-20250929",
+      stop_reason: "tool_use",
+      content: [{ type: "text" }, { type: "tool_use" }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    await anthropic.messages.create(params);
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      response_model: "claude-sonnet-4-5-20250929",
+      finish_reason: "tool_use",
+      tool_call_count: 1,
+      message_count: 1,
+      tool_count: 2,
+      max_tokens: 1024,
+      temperature: 0.5,
+    });
+  });
+
+  it("records a prompt fingerprint that includes the system prompt", async () => {
+    mockCreate.mockResolvedValue({ content: [], usage: { input_tokens: 10, output_tokens: 5 } });
+
+    await anthropic.messages.create({ ...params, system: "You are a weather bot." });
+    await anthropic.messages.create(params);
+
+    await flush();
+    const [withSystem, withoutSystem] = telemetryPayloads;
+    expect(withSystem.system_prompt_hash).toBe(
+      promptFingerprint([{ role: "system", content: "You are a weather bot." }]).systemPromptHash
+    );
+    expect(withSystem.role_tokens).toEqual({ system: 6, user: 2 });
+    expect(withSystem.tool_schema_hash).toBe(withoutSystem.tool_schema_hash);
+    expect(withoutSystem).not.toHaveProperty("system_prompt_hash");
+  });
+
+  it("collects the shape from stream events", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "message_start", message: { model: "claude-sonnet-4-5-20250929", usage: { input_tokens: 10 } } };
+        yield { type: "content_block_start", index: 0, content_block: { type: "tool_use" } };
+        yield { type: "content_block_start", index: 1, content_block: { type: "tool_use" } };
+        yield { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 30 } };
+      },
+    });
+
+    const stream = await anthropic.messages.create({ ...params, stream: true });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      response_model: "claude-sonnet-4-5-20250929",
+      finish_reason: "tool_use",
+      tool_call_count: 2,
+      message_count: 1,
+      tool_count: 2,
+    });
+  });
+});
+
+describe("anthropic errors", () => {
+  it("classifies overloaded errors as retryable server errors", async () => {
+    class InternalServerError extends Error {
+      status = 529;
+      headers = new Headers({ "request-id": "req_011", "anthropic-ratelimit-tokens-remaining": "12000" });
+    }
+    mockCreate.mockRejectedValue(new InternalServerError("Overloaded"));
+
+    await expect(
+      anthropic.messages.create({ model: "claude-3-haiku-20240307", max_tokens: 10, messages: [] })
+    ).rejects.toThrow("Overloaded");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      error_type: "InternalServerError",
+      error_category: "server_error",
+      http_status: 529,
+      request_id: "req_011",
+      retryable: true,
+      ratelimit_remaining_tokens: 12000,
+    });
+  });
+});
+
 describe("anthropic streaming", () => {
   it("wraps stream and sends telemetry with accumulated tokens", async () => {
     const events = [
@@ -123,7 +296,7 @@ describe("anthropic streaming", () => {
     }
 
     expect(received).toHaveLength(5);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "anthropic",
@@ -133,7 +306,7 @@ describe("anthropic streaming", () => {
     });
   });
 
-  it("handles stream with no usage gracefully", async () => {
+  it("estimates the output of a stream with no usage", async () => {
     const events = [
       { type: "content_block_delta", delta: { type: "text_delta", text: "hi" } },
       { type: "message_stop" },
@@ -154,10 +327,422 @@ describe("anthropic streaming", () => {
 
     for await (const _ of stream) {}
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0]).toMatchObject({
       input_tokens: 0,
-      output_tokens: 0,
+      output_tokens: 1,
+      estimated: true,
+    });
+  });
+});
+
+describe("anthropic stream lifecycle", () => {
+  it("measures time to first token from the first content delta", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "message_start", message: { usage: { input_tokens: 5 } } };
+        yield { type: "content_block_delta", delta: { type: "text_delta", text: "hi" } };
+        yield { type: "message_delta", usage: { output_tokens: 2 } };
+      },
+    });
+
+    const stream = await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 50,
+      messages: [],
+      stream: true,
+    });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "completed", chunk_count: 3 });
+    expect(telemetryPayloads[0].ttft_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("records aborted streams with the usage seen so far", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "message_start", message: { usage: { input_tokens: 5 } } };
+        yield { type: "content_block_delta", delta: { type: "text_delta", text: "hi" } };
+      },
+    });
+
+    const stream = await anthropic.messages.create({
+      model: "claude-3-haiku-20240307",
+      max_tokens: 50,
+      messages: [],
+      stream: true,
+    });
+    for await (const _ of stream) break;
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "aborted",
+      input_tokens: 5,
+      ttft_ms: null,
+    });
+  });
+
+  it("records failures to open the stream", async () => {
+    mockCreate.mockRejectedValue(new Error("overloaded"));
+
+    await expect(
+      anthropic.messages.create({ model: "claude-3-haiku-20240307", max_tokens: 50, messages: [], stream: true })
+    ).rejects.toThrow("overloaded");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "errored", success: false });
+  });
+});
+
+describe("anthropic budgets", () => {
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [] });
+    _resetBudgetsForTesting();
+  });
+
+  it("blocks calls once a feature budget is exhausted", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "feature", maxCostUsd: 1 }] });
+    mockCreate.mockResolvedValue({
+      content: [],
+      usage: { input_tokens: 1_000_000, output_tokens: 0 },
     });
+
+    await anthropic.messages.create({ model: "claude-sonnet-4-20250514", max_tokens: 10, messages: [], feature_tag: "chat" });
+    await expect(
+      anthropic.messages.create({ model: "claude-sonnet-4-20250514", max_tokens: 10, messages: [], feature_tag: "chat" })
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(mockCreate).toHaveBeenCalledOnce();
+
+    await anthropic.messages.create({ model: "claude-sonnet-4-20250514", max_tokens: 10, messages: [], feature_tag: "search" });
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+});
+
+/**
+ * Stands in for the SDK's MessageStream: an emitter with helper methods. Like
+ * the SDK, it leaves errors nothing handles as unhandled rejections, collected
+ * here in `unhandled`.
+ */
+class FakeMessageStream extends EventEmitter {
+  aborted = false;
+  errored = false;
+  unhandled: unknown[] = [];
+  private catching = false;
+  private final: Promise<any>;
+  private ended: Promise<void>;
+  private settle!: (error?: unknown) => void;
+
+  constructor(private events: any[], private outcome: "completed" | "aborted" | Error = "completed") {
+    super();
+    this.final = new Promise((resolve) => this.once("message", resolve));
+    this.ended = new Promise<void>((resolve, reject) => (this.settle = (error) => (error ? reject(error) : resolve())));
+    this.ended.catch(() => {});
+  }
+
+  run() {
+    for (const event of this.events) this.emit("streamEvent", event, {});
+    if (this.outcome === "completed") {
+      this.emit("message", { id: "msg_1" });
+      this.settle();
+    } else {
+      const event = this.outcome === "aborted" ? "abort" : "error";
+      const error = this.outcome === "aborted" ? new Error("Request was aborted.") : this.outcome;
+      this.errored = true;
+      this.aborted = this.outcome === "aborted";
+      if (this.catching || this.listenerCount(event) > 0) this.emit(event, error);
+      else this.unhandled.push(error);
+      this.settle(error);
+    }
+    this.emit("end");
+  }
+
+  done() {
+    this.catching = true;
+    return this.ended;
+  }
+
+  finalMessage() {
+    this.catching = true;
+    return this.final;
+  }
+}
+
+describe("anthropic messages.stream", () => {
+  const streamEvents = [
+    { type: "message_start", message: { usage: { input_tokens: 20 } } },
+    { type: "content_block_delta", delta: { type: "text_delta", text: "hi" } },
+    { type: "message_delta", usage: { output_tokens: 7 } },
+    { type: "message_stop" },
+  ];
+
+  it("returns the SDK stream with its helpers and tracks it on end", async () => {
+    const fake = new FakeMessageStream(streamEvents);
+    const mockStream = vi.fn().mockReturnValue(fake);
+    _setClientForTesting({ messages: { create: mockCreate, stream: mockStream } });
+
+    const stream = anthropic.messages.stream({
+      model: "claude-sonnet-4-20250514",
+      max_tokens: 100,
+      messages: [],
+      feature_tag: "chat",
+    });
+
+    expect(stream).toBe(fake);
+    expect(mockStream.mock.calls[0][0].feature_tag).toBeUndefined();
+    fake.run();
+    await expect(stream.finalMessage()).resolves.toEqual({ id: "msg_1" });
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "anthropic",
+      feature_tag: "chat",
+      input_tokens: 20,
+      output_tokens: 7,
+      stream_status: "completed",
+      chunk_count: 4,
+    });
+    expect(telemetryPayloads[0].ttft_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("records aborted and errored streams", async () => {
+    const aborted = new FakeMessageStream(streamEvents.slice(0, 2), "aborted");
+    class InternalServerError extends Error {
+      status = 529;
+    }
+    const errored = new FakeMessageStream([], new InternalServerError("Overloaded"));
+    const mockStream = vi.fn().mockReturnValueOnce(aborted).mockReturnValueOnce(errored);
+    _setClientForTesting({ messages: { stream: mockStream } });
+
+    anthropic.messages.stream({ model: "claude-3-haiku-20240307", max_tokens: 10, messages: [] });
+    anthropic.messages.stream({ model: "claude-3-haiku-20240307", max_tokens: 10, messages: [] });
+    aborted.run();
+    errored.run();
+
+    await vi.waitFor(async () => {
+      await flush();
+      expect(telemetryPayloads).toHaveLength(2);
+    });
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "aborted", input_tokens: 20, success: true });
+    expect(telemetryPayloads[1]).toMatchObject({
+      stream_status: "errored",
+      success: false,
+      error_type: "InternalServerError",
+      error_category: "server_error",
+      http_status: 529,
+    });
+  });
+
+  it("leaves stream errors the caller does not handle unhandled", async () => {
+    const error = new Error("Overloaded");
+    const errored = new FakeMessageStream([], error);
+    _setClientForTesting({ messages: { stream: vi.fn().mockReturnValue(errored) } });
+
+    anthropic.messages.stream({ model: "claude-3-haiku-20240307", max_tokens: 10, messages: [] });
+    errored.run();
+
+    expect(errored.unhandled).toEqual([error]);
+    await vi.waitFor(async () => {
+      await flush();
+      expect(telemetryPayloads[0]).toMatchObject({ stream_status: "errored", success: false, error_type: "Error" });
+    });
+  });
+});
+
+describe("anthropic content capture", () => {
+  beforeEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: {} });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: undefined });
+  });
+
+  it("records the system prompt, messages and text output", async () => {
+    mockCreate.mockResolvedValue({
+      content: [
+        { type: "text", text: "Looking it up." },
+        { type: "tool_use", id: "t1", name: "search", input: {} },
+      ],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+
+    await anthropic.messages.create({
+      model: "claude-sonnet-4-20250514",
+      max_tokens: 100,
+      system: [{ type: "text", text: "You are helpful." }],
+      messages: [{ role: "user", content: "My key is sk-ant-REDACTED" }],
+    });
+
+    await flush();
+    expect(telemetryPayloads[0].input_messages).toEqual([
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: "My key is [API_KEY]" },
+    ]);
+    expect(telemetryPayloads[0].output_text).toBe("Looking it up.");
+  });
+
+  it("reassembles text deltas from messages.stream", async () => {
+    const fake = new FakeMessageStream([
+      { type: "message_start", message: { usage: { input_tokens: 2 } } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "Hel" } },
+      { type: "content_block_delta", delta: { type: "input_json_delta", partial_json: "{" } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "lo" } },
+      { type: "message_delta", usage: { output_tokens: 2 } },
+    ]);
+    _setClientForTesting({ messages: { create: mockCreate, stream: vi.fn().mockReturnValue(fake) } });
+
+    const stream = anthropic.messages.stream({
+      model: "claude-sonnet-4-20250514",
+      max_tokens: 100,
+      messages: [{ role: "user", content: "hi" }],
+    });
+    fake.run();
+    await stream.finalMessage();
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_messages: [{ role: "user", content: "hi" }],
+      output_text: "Hello",
+    });
+  });
+});
+
+describe("anthropic message batches", () => {
+  function results(entries: any[]) {
+    return {
+      async *[Symbol.asyncIterator]() {
+        for (const entry of entries) yield entry;
+      },
+    };
+  }
+
+  const entries = [
+    {
+      custom_id: "a",
+      result: {
+        type: "succeeded",
+        message: { model: "claude-sonnet-4-20250514", usage: { input_tokens: 1_000_000, output_tokens: 0 } },
+      },
+    },
+    { custom_id: "b", result: { type: "errored", error: { type: "invalid_request_error" } } },
+    { custom_id: "c", result: { type: "expired" } },
+  ];
+
+  const batchesCreate = vi.fn();
+  const batchesResults = vi.fn();
+  const batchesList = vi.fn();
+
+  beforeEach(() => {
+    batchesCreate.mockReset().mockResolvedValue({ id: "msgbatch_1", processing_status: "in_progress" });
+    batchesResults.mockReset().mockImplementation(async () => results(entries));
+    batchesList.mockReset().mockResolvedValue({ data: [] });
+    _setClientForTesting({
+      messages: { batches: { create: batchesCreate, results: batchesResults, list: batchesList } },
+    });
+  });
+
+  it("records the batch on creation", async () => {
+    await anthropic.messages.batches.create({
+      requests: [{ custom_id: "a", params: {} }, { custom_id: "b", params: {} }],
+      feature_tag: "nightly-summaries",
+    });
+
+    expect(batchesCreate.mock.calls[0][0].feature_tag).toBeUndefined();
+    await flush();
+    expect(batchPayloads[0]).toMatchObject({
+      batch_id: "msgbatch_1",
+      provider: "anthropic",
+      feature_tag: "nightly-summaries",
+      status: "created",
+      request_count: 2,
+    });
+    expect(telemetryPayloads).toHaveLength(0);
+  });
+
+  it("reconciles usage at the batch discount when results are read", async () => {
+    await anthropic.messages.batches.create({ requests: [], feature_tag: "nightly-summaries" });
+
+    const received: any[] = [];
+    for await (const entry of await anthropic.messages.batches.results("msgbatch_1")) received.push(entry);
+
+    expect(received).toEqual(entries);
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({
+      model: "claude-sonnet-4-20250514",
+      feature_tag: "nightly-summaries",
+      input_tokens: 1_000_000,
+      cost_usd: 1.5,
+      batch_id: "msgbatch_1",
+    });
+    expect(batchPayloads[1]).toMatchObject({
+      status: "reconciled",
+      request_count: 3,
+      succeeded_count: 1,
+      errored_count: 1,
+      expired_count: 1,
+      cost_usd: 1.5,
+    });
+  });
+
+  it("does not count results twice", async () => {
+    for (let i = 0; i < 2; i++) {
+      for await (const _ of await anthropic.messages.batches.results("msgbatch_1")) {}
+    }
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(batchPayloads.filter((p) => p.status === "reconciled")).toHaveLength(1);
+  });
+
+  it("passes other batch methods through", async () => {
+    await anthropic.messages.batches.list();
+    expect(batchesList).toHaveBeenCalledOnce();
+  });
+});
+
+describe("anthropic client surface", () => {
+  it("tracks beta.messages like messages", async () => {
+    const betaCreate = vi.fn().mockResolvedValue({ content: [], usage: { input_tokens: 3, output_tokens: 4 } });
+    _setClientForTesting({ messages: { create: mockCreate }, beta: { messages: { create: betaCreate } } });
+
+    await anthropic.beta.messages.create({ model: "claude-sonnet-4-20250514", max_tokens: 10, messages: [], betas: ["x"] });
+
+    expect(betaCreate).toHaveBeenCalledOnce();
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 3, output_tokens: 4 });
+  });
+
+  it("strips feature_tag from countTokens without tracking it", async () => {
+    const countTokens = vi.fn().mockResolvedValue({ input_tokens: 12 });
+    _setClientForTesting({ messages: { countTokens } });
+
+    const result = await anthropic.messages.countTokens({ model: "claude-sonnet-4-20250514", messages: [], feature_tag: "chat" });
+
+    expect(result.input_tokens).toBe(12);
+    expect(countTokens.mock.calls[0][0].feature_tag).toBeUndefined();
+    await flush();
+    expect(telemetryPayloads).toHaveLength(0);
+  });
+
+  it("passes the rest of the client through", async () => {
+    const modelsList = vi.fn().mockResolvedValue({ data: [] });
+    _setClientForTesting({ messages: { create: mockCreate }, models: { list: modelsList }, apiKey: "sk-ant" });
+
+    await anthropic.models.list();
+
+    expect(modelsList).toHaveBeenCalledOnce();
+    expect(anthropic.apiKey).toBe("sk-ant");
+  });
+
+  it("forwards request options to the SDK", async () => {
+    mockCreate.mockResolvedValue({ content: [], usage: { input_tokens: 0, output_tokens: 0 } });
+    const requestOptions = { timeout: 1000 };
+
+    await anthropic.messages.create({ model: "claude-3-haiku-20240307", max_tokens: 1, messages: [] }, requestOptions);
+
+    expect(mockCreate.mock.calls[0][1]).toBe(requestOptions);
   });
 });
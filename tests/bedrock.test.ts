@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { init, flush, withContext, _resetTransportForTesting } from "../src/index";
+import { bedrock, _setClientForTesting, _setSdkForTesting } from "../src/bedrock";
+
+// Stand-ins for the SDK command classes
+class ConverseCommand {
+  constructor(public input: any) {}
+}
+class ConverseStreamCommand {
+  constructor(public input: any) {}
+}
+class InvokeModelCommand {
+  constructor(public input: any) {}
+}
+class InvokeModelWithResponseStreamCommand {
+  constructor(public input: any) {}
+}
+class ListAsyncInvokesCommand {
+  constructor(public input: any) {}
+}
+
+const mockSend = vi.fn();
+const encoder = new TextEncoder();
+
+let telemetryPayloads: any[];
+
+beforeEach(() => {
+  telemetryPayloads = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockImplementation(async (_url: string, options: any) => {
+      for (const event of JSON.parse(options.body).events) {
+        if (event.type === "call") telemetryPayloads.push(event.payload);
+      }
+      return { ok: true };
+    })
+  );
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
+  mockSend.mockReset();
+  _setClientForTesting({ send: mockSend, config: { region: "us-east-1" } });
+  _setSdkForTesting({ ConverseCommand, ConverseStreamCommand, InvokeModelCommand, InvokeModelWithResponseStreamCommand });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("bedrock Converse", () => {
+  it("tracks usage, cache tokens, request shape and outcome", async () => {
+    mockSend.mockResolvedValue({
+      output: {
+        message: { role: "assistant", content: [{ text: "Let me check." }, { toolUse: { name: "weather" } }] },
+      },
+      stopReason: "tool_use",
+      usage: { inputTokens: 20, outputTokens: 8, cacheReadInputTokens: 100, cacheWriteInputTokens: 0 },
+      $metadata: { requestId: "req-1", httpStatusCode: 200 },
+    });
+
+    const command = new ConverseCommand({
+      modelId: "anthropic.claude-3-5-haiku-20241022-v1:0",
+      system: [{ text: "You are terse." }],
+      messages: [{ role: "user", content: [{ text: "Weather in Oslo?" }] }],
+      inferenceConfig: { maxTokens: 256, temperature: 0 },
+      toolConfig: { tools: [{ toolSpec: { name: "weather" } }] },
+      feature_tag: "weather",
+    });
+    const response = await bedrock.send(command);
+
+    expect(response.stopReason).toBe("tool_use");
+    expect(mockSend.mock.calls[0][0].input).not.toHaveProperty("feature_tag");
+    expect(mockSend.mock.calls[0][0]).toBeInstanceOf(ConverseCommand);
+    expect(command.input).toHaveProperty("feature_tag", "weather");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "bedrock",
+      operation: "chat",
+      model: "anthropic.claude-3-5-haiku-20241022-v1:0",
+      feature_tag: "weather",
+      input_tokens: 20,
+      output_tokens: 8,
+      cached_tokens: 100,
+      finish_reason: "tool_use",
+      tool_call_count: 1,
+      message_count: 1,
+      tool_count: 1,
+      max_tokens: 256,
+      temperature: 0,
+      request_id: "req-1",
+    });
+    expect(telemetryPayloads[0].system_prompt_hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(telemetryPayloads[0].cost_usd).toBeCloseTo((20 * 0.8 + 100 * 0.08 + 8 * 4) / 1_000_000, 12);
+  });
+
+  it("classifies AWS errors and rethrows", async () => {
+    class ThrottlingException extends Error {
+      $metadata = { httpStatusCode: 429, requestId: "req-2" };
+    }
+    mockSend.mockRejectedValue(new ThrottlingException("Too many requests"));
+
+    await expect(
+      withContext({ featureTag: "chat" }, () => bedrock.send(new ConverseCommand({ modelId: "amazon.nova-lite-v1:0" })))
+    ).rejects.toThrow("Too many requests");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "bedrock",
+      feature_tag: "chat",
+      success: false,
+      error_type: "ThrottlingException",
+      error_category: "rate_limit",
+      http_status: 429,
+      request_id: "req-2",
+      retryable: true,
+    });
+  });
+});
+
+describe("bedrock ConverseStream", () => {
+  it("tracks usage from the metadata event", async () => {
+    mockSend.mockResolvedValue({
+      $metadata: { requestId: "req-3" },
+      stream: (async function* () {
+        yield { messageStart: { role: "assistant" } };
+        yield { contentBlockDelta: { delta: { text: "Cold" } } };
+        yield { contentBlockDelta: { delta: { text: " and windy" } } };
+        yield { messageStop: { stopReason: "end_turn" } };
+        yield { metadata: { usage: { inputTokens: 15, outputTokens: 4 }, metrics: { latencyMs: 300 } } };
+      })(),
+    });
+
+    const response = await bedrock.send(new ConverseStreamCommand({ modelId: "amazon.nova-pro-v1:0", messages: [] }));
+    const text: string[] = [];
+    for await (const event of response.stream) {
+      if (event.contentBlockDelta) text.push(event.contentBlockDelta.delta.text);
+    }
+
+    expect(text.join("")).toBe("Cold and windy");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "bedrock",
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 5,
+      input_tokens: 15,
+      output_tokens: 4,
+      finish_reason: "end_turn",
+      request_id: "req-3",
+    });
+    expect(telemetryPayloads[0].ttft_ms).not.toBeNull();
+  });
+
+  it("estimates streams abandoned before the metadata event", async () => {
+    mockSend.mockResolvedValue({
+      stream: (async function* () {
+        yield { contentBlockDelta: { delta: { text: "Cold and windy" } } };
+        yield { metadata: { usage: { inputTokens: 15, outputTokens: 4 } } };
+      })(),
+    });
+
+    const response = await bedrock.send(
+      new ConverseStreamCommand({
+        modelId: "amazon.nova-pro-v1:0",
+        messages: [{ role: "user", content: [{ text: "Weather in Oslo?" }] }],
+      })
+    );
+    for await (const _ of response.stream) break;
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "aborted",
+      input_tokens: 4,
+      output_tokens: 4,
+      estimated: true,
+    });
+  });
+});
+
+describe("bedrock InvokeModel", () => {
+  it("reads usage from an Anthropic body", async () => {
+    mockSend.mockResolvedValue({
+      body: encoder.encode(
+        JSON.stringify({
+          content: [{ type: "text", text: "Hi" }],
+          stop_reason: "end_turn",
+          usage: { input_tokens: 9, output_tokens: 1 },
+        })
+      ),
+      $metadata: { requestId: "req-4" },
+    });
+
+    await bedrock.send(
+      new InvokeModelCommand({
+        modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+        contentType: "application/json",
+        body: JSON.stringify({
+          anthropic_version: "bedrock-2023-05-31",
+          max_tokens: 100,
+          messages: [{ role: "user", content: "Hello" }],
+        }),
+      })
+    );
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "chat",
+      input_tokens: 9,
+      output_tokens: 1,
+      finish_reason: "end_turn",
+      max_tokens: 100,
+      message_count: 1,
+      request_id: "req-4",
+    });
+  });
+
+  it("reads usage from Llama and Titan embedding bodies", async () => {
+    mockSend.mockResolvedValueOnce({
+      body: encoder.encode(JSON.stringify({ generation: "Hi", prompt_token_count: 7, generation_token_count: 2 })),
+    });
+    mockSend.mockResolvedValueOnce({
+      body: encoder.encode(JSON.stringify({ embedding: [0.1, 0.2], inputTextTokenCount: 5 })),
+    });
+
+    await bedrock.send(
+      new InvokeModelCommand({ modelId: "meta.llama3-8b-instruct-v1:0", body: JSON.stringify({ prompt: "Hello" }) })
+    );
+    await bedrock.send(
+      new InvokeModelCommand({ modelId: "amazon.titan-embed-text-v2:0", body: JSON.stringify({ inputText: "Hello" }) })
+    );
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ operation: "chat", input_tokens: 7, output_tokens: 2 });
+    expect(telemetryPayloads[1]).toMatchObject({ operation: "embeddings", input_tokens: 5, output_tokens: 0 });
+  });
+
+  it("reads invocation metrics from a response stream", async () => {
+    const chunk = (body: any) => ({ chunk: { bytes: encoder.encode(JSON.stringify(body)) } });
+    mockSend.mockResolvedValue({
+      body: (async function* () {
+        yield chunk({ type: "message_start", message: { usage: { input_tokens: 11 } } });
+        yield chunk({ type: "content_block_delta", delta: { type: "text_delta", text: "Hi there" } });
+        yield chunk({
+          type: "message_delta",
+          delta: { stop_reason: "end_turn" },
+          "amazon-bedrock-invocationMetrics": { inputTokenCount: 11, outputTokenCount: 3 },
+        });
+      })(),
+    });
+
+    const response = await bedrock.send(
+      new InvokeModelWithResponseStreamCommand({
+        modelId: "anthropic.claude-3-haiku-20240307-v1:0",
+        body: JSON.stringify({ messages: [{ role: "user", content: "Hello" }] }),
+      })
+    );
+    for await (const _ of response.body) {
+    }
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream: true,
+      stream_status: "completed",
+      input_tokens: 11,
+      output_tokens: 3,
+      finish_reason: "end_turn",
+    });
+  });
+});
+
+describe("bedrock passthrough", () => {
+  it("sends other commands untouched and untracked", async () => {
+    mockSend.mockResolvedValue({ asyncInvokeSummaries: [] });
+    const command = new ListAsyncInvokesCommand({ maxResults: 10 });
+
+    await bedrock.send(command);
+
+    expect(mockSend).toHaveBeenCalledWith(command);
+    expect(bedrock.config.region).toBe("us-east-1");
+    await flush();
+    expect(telemetryPayloads).toHaveLength(0);
+  });
+
+  it("matches commands by class, not by class name", async () => {
+    mockSend.mockResolvedValue({ output: { message: { content: [] } }, usage: { inputTokens: 1, outputTokens: 1 } });
+    // As a bundler may rename it
+    const Minified = class a extends ConverseCommand {};
+    const Lookalike = class ConverseCommand {
+      constructor(public input: any) {}
+    };
+
+    await bedrock.send(new Minified({ modelId: "amazon.nova-micro-v1:0", messages: [] }));
+    await bedrock.send(new Lookalike({ modelId: "amazon.nova-micro-v1:0", messages: [] }));
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({ model: "amazon.nova-micro-v1:0", input_tokens: 1 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { Budget, BudgetExceededError, BudgetTracker } from "../src/budget";
+
+describe("BudgetTracker", () => {
+  it("blocks once spend reaches the limit", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "global", maxCostUsd: 1 }];
+
+    tracker.record(budgets, {}, 0.6, 100);
+    expect(() => tracker.check(budgets, {})).not.toThrow();
+
+    tracker.record(budgets, {}, 0.4, 100);
+    expect(() => tracker.check(budgets, {})).toThrow(BudgetExceededError);
+  });
+
+  it("enforces token limits", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "global", maxTokens: 500 }];
+
+    tracker.record(budgets, {}, 0, 500);
+    expect(() => tracker.check(budgets, {})).toThrow(BudgetExceededError);
+  });
+
+  it("keeps a separate allowance per feature tag", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "feature", maxCostUsd: 1 }];
+
+    tracker.record(budgets, { featureTag: "chat" }, 2, 0);
+    expect(() => tracker.check(budgets, { featureTag: "chat" })).toThrow(BudgetExceededError);
+    expect(() => tracker.check(budgets, { featureTag: "search" })).not.toThrow();
+  });
+
+  it("only applies matched budgets to the matching key", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "end_user", match: "user-1", maxCostUsd: 1 }];
+
+    tracker.record(budgets, { endUserId: "user-1" }, 2, 0);
+    tracker.record(budgets, { endUserId: "user-2" }, 2, 0);
+    expect(() => tracker.check(budgets, { endUserId: "user-1" })).toThrow(BudgetExceededError);
+    expect(() => tracker.check(budgets, { endUserId: "user-2" })).not.toThrow();
+  });
+
+  it("blocks calls whose expected usage would overshoot the limit", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "global", maxTokens: 1000 }];
+
+    tracker.record(budgets, {}, 0, 900);
+    expect(() => tracker.check(budgets, {}, Date.now(), { tokens: 100 })).not.toThrow();
+    expect(() => tracker.check(budgets, {}, Date.now(), { tokens: 101 })).toThrow(BudgetExceededError);
+  });
+
+  it("forgets spend outside the rolling window", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "global", window: "minute", maxCostUsd: 1 }];
+
+    tracker.record(budgets, {}, 1, 0, 0);
+    expect(() => tracker.check(budgets, {}, 59_999)).toThrow(BudgetExceededError);
+    expect(() => tracker.check(budgets, {}, 60_000)).not.toThrow();
+  });
+
+  it("aggregates calls into buckets rather than storing each one", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "feature", window: "minute", maxTokens: 100_000 }];
+
+    for (let now = 0; now < 60_000; now += 6) tracker.record(budgets, { featureTag: "chat" }, 0, 1, now);
+
+    expect((tracker as any).usage.get(budgets[0]).get("chat").length).toBe(60);
+    expect(tracker.status(budgets[0], "chat", 59_999).tokens).toBe(10_000);
+    expect(tracker.status(budgets[0], "chat", 119_994).tokens).toBe(0);
+  });
+
+  it("drops keys once their window has emptied", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "end_user", window: "minute", maxCostUsd: 1 }];
+
+    tracker.record(budgets, { endUserId: "user-1" }, 0.5, 0, 0);
+    tracker.record(budgets, { endUserId: "user-2" }, 0.5, 0, 0);
+    const keys = () => [...(tracker as any).usage.get(budgets[0]).keys()];
+
+    expect(tracker.status(budgets[0], "user-1", 60_000).costUsd).toBe(0);
+    expect(keys()).toEqual(["user-2"]);
+
+    // Keys no call touches again are swept by later calls
+    tracker.record(budgets, { endUserId: "user-3" }, 0.5, 0, 60_000);
+    expect(keys()).toEqual(["user-3"]);
+  });
+
+  it("calls onExceeded without throwing for warn budgets", () => {
+    const tracker = new BudgetTracker();
+    const onExceeded = vi.fn();
+    const budgets: Budget[] = [
+      { name: "daily", scope: "global", window: "day", maxCostUsd: 1, action: "warn", onExceeded },
+    ];
+
+    tracker.record(budgets, {}, 1.5, 10);
+    expect(() => tracker.check(budgets, {})).not.toThrow();
+    expect(onExceeded).toHaveBeenCalledWith({ budget: budgets[0], key: "*", costUsd: 1.5, tokens: 10 });
+  });
+
+  it("releases run-scoped spend when the run ends", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ scope: "run", maxCostUsd: 1 }];
+
+    tracker.record(budgets, { runId: "run-1" }, 1, 0);
+    expect(() => tracker.check(budgets, { runId: "run-1" })).toThrow(BudgetExceededError);
+
+    tracker.releaseRun("run-1");
+    expect(() => tracker.check(budgets, { runId: "run-1" })).not.toThrow();
+  });
+
+  it("exposes budget details on the error", () => {
+    const tracker = new BudgetTracker();
+    const budgets: Budget[] = [{ name: "chat-hourly", scope: "feature", window: "hour", maxCostUsd: 1 }];
+
+    tracker.record(budgets, { featureTag: "chat" }, 3, 42);
+    try {
+      tracker.check(budgets, { featureTag: "chat" });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      const budgetErr = err as BudgetExceededError;
+      expect(budgetErr.budget).toBe(budgets[0]);
+      expect(budgetErr.key).toBe("chat");
+      expect(budgetErr.costUsd).toBe(3);
+      expect(budgetErr.tokens).toBe(42);
+      expect(budgetErr.message).toContain("chat-hourly");
+    }
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { init, flush, featureTagStorage, _resetTransportForTesting } from "../src/index";
+import { cohere, _setClientForTesting } from "../src/cohere";
+
+const mockChat = vi.fn();
+const mockChatStream = vi.fn();
+const mockEmbed = vi.fn();
+
+let telemetryPayloads: any[];
+
+beforeEach(() => {
+  telemetryPayloads = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockImplementation(async (_url: string, options: any) => {
+      for (const event of JSON.parse(options.body).events) {
+        if (event.type === "call") telemetryPayloads.push(event.payload);
+      }
+      return { ok: true };
+    })
+  );
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
+  mockChat.mockReset();
+  mockChatStream.mockReset();
+  mockEmbed.mockReset();
+  _setClientForTesting({
+    chat: mockChat,
+    chatStream: mockChatStream,
+    embed: mockEmbed,
+    rerank: () => "reranked",
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("cohere chat", () => {
+  it("tracks billed units, request shape and outcome", async () => {
+    mockChat.mockResolvedValue({
+      id: "gen-1",
+      finishReason: "TOOL_CALL",
+      message: { role: "assistant", content: [{ type: "text", text: "Checking" }], toolCalls: [{ id: "t1" }] },
+      usage: {
+        billedUnits: { inputTokens: 10, outputTokens: 4 },
+        tokens: { inputTokens: 210, outputTokens: 4 },
+      },
+    });
+
+    await cohere.chat({
+      model: "command-r-plus-08-2024",
+      messages: [{ role: "user", content: "Weather in Paris?" }],
+      tools: [{ type: "function", function: { name: "weather" } }],
+      temperature: 0.3,
+      feature_tag: "weather",
+    });
+
+    expect(mockChat.mock.calls[0][0]).not.toHaveProperty("feature_tag");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "cohere",
+      operation: "chat",
+      model: "command-r-plus-08-2024",
+      feature_tag: "weather",
+      input_tokens: 10,
+      output_tokens: 4,
+      finish_reason: "TOOL_CALL",
+      tool_call_count: 1,
+      message_count: 1,
+      tool_count: 1,
+      temperature: 0.3,
+    });
+    expect(telemetryPayloads[0].cost_usd).toBeGreaterThan(0);
+  });
+
+  it("classifies failed calls and rethrows", async () => {
+    class TooManyRequestsError extends Error {
+      statusCode = 429;
+    }
+    mockChat.mockRejectedValue(new TooManyRequestsError("trial key limit"));
+
+    const call = featureTagStorage.run("chat", () => cohere.chat({ model: "command-r", messages: [] }));
+    await expect(call).rejects.toThrow("trial key limit");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "cohere",
+      feature_tag: "chat",
+      success: false,
+      error_type: "TooManyRequestsError",
+      error_category: "rate_limit",
+    });
+  });
+});
+
+describe("cohere chatStream", () => {
+  it("tracks usage from message-end", async () => {
+    mockChatStream.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "message-start", id: "gen-1" };
+        yield { type: "content-delta", index: 0, delta: { message: { content: { text: "Sun" } } } };
+        yield { type: "content-delta", index: 0, delta: { message: { content: { text: "ny" } } } };
+        yield {
+          type: "message-end",
+          delta: { finishReason: "COMPLETE", usage: { billedUnits: { inputTokens: 6, outputTokens: 2 } } },
+        };
+      },
+    });
+
+    const stream = await cohere.chatStream({ model: "command-r", messages: [] });
+    const text: string[] = [];
+    for await (const event of stream) {
+      if (event.type === "content-delta") text.push(event.delta.message.content.text);
+    }
+
+    expect(text.join("")).toBe("Sunny");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "cohere",
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 4,
+      input_tokens: 6,
+      output_tokens: 2,
+      finish_reason: "COMPLETE",
+    });
+  });
+
+  it("estimates aborted streams", async () => {
+    mockChatStream.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "content-delta", delta: { message: { content: { text: "Sunny" } } } };
+        yield { type: "content-delta", delta: { message: { content: { text: " and warm" } } } };
+      },
+    });
+
+    const stream = await cohere.chatStream({
+      model: "command-r",
+      messages: [{ role: "user", content: "Weather?" }],
+    });
+    for await (const _ of stream) break;
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "aborted",
+      input_tokens: 2,
+      output_tokens: 2,
+      estimated: true,
+    });
+  });
+
+  it("records failures to open the stream", async () => {
+    mockChatStream.mockRejectedValue(Object.assign(new Error("bad model"), { statusCode: 400 }));
+
+    await expect(cohere.chatStream({ model: "command-x", messages: [] })).rejects.toThrow("bad model");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      success: false,
+      stream_status: "errored",
+      error_category: "invalid_request",
+    });
+  });
+});
+
+describe("cohere embed and passthrough", () => {
+  it("tracks embed", async () => {
+    mockEmbed.mockResolvedValue({ embeddings: { float: [] }, meta: { billedUnits: { inputTokens: 9 } } });
+
+    await cohere.embed({ model: "embed-english-v3.0", texts: ["a"], inputType: "search_document" });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "cohere",
+      operation: "embeddings",
+      input_tokens: 9,
+      output_tokens: 0,
+    });
+    expect(telemetryPayloads[0].cost_usd).toBeGreaterThan(0);
+  });
+
+  it("passes untracked methods through to the client", () => {
+    expect(cohere.rerank()).toBe("reranked");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { captureText, capturesContent, contentText, redactText } from "../src/content";
+
+describe("redactText", () => {
+  it("masks emails, phone numbers, API keys and card numbers", () => {
+    const text = [
+      "Mail jane.doe+test@example.co.uk or call +1 (555) 123-4567 / 020 7946 0958.",
+      "Key: sk-proj-abcdefghijklmnop1234, card 4111 1111 1111 1111.",
+    ].join(" ");
+
+    expect(redactText(text)).toBe(
+      "Mail [EMAIL] or call [PHONE] / [PHONE]. Key: [API_KEY], card [CREDIT_CARD]."
+    );
+  });
+
+  it("leaves digit runs that fail the card checksum and dates alone", () => {
+    expect(redactText("Order 1234567890123456 shipped 2024-01-15")).toBe(
+      "Order 1234567890123456 shipped 2024-01-15"
+    );
+  });
+
+  it("applies only the selected redactors, then the custom function", () => {
+    const redacted = redactText("jane@example.com, customer C-1042, +15551234567", {
+      redactors: ["email"],
+      redact: (text) => text.replace(/C-\d+/g, "[CUSTOMER]"),
+    });
+
+    expect(redacted).toBe("[EMAIL], customer [CUSTOMER], +15551234567");
+  });
+});
+
+describe("captureText", () => {
+  it("truncates long text", () => {
+    expect(captureText("abcdefgh", { maxLength: 3 })).toBe("abc…");
+    expect(captureText("abc", { maxLength: 3 })).toBe("abc");
+  });
+
+  it("hashes the redacted text instead of sending it", () => {
+    const hashed = captureText("mail jane@example.com", { hash: true });
+
+    expect(hashed).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(captureText("mail john@example.com", { hash: true })).toBe(hashed);
+  });
+});
+
+describe("capturesContent", () => {
+  it("is off without options and covers every feature without a feature list", () => {
+    expect(capturesContent(undefined, "chat")).toBe(false);
+    expect(capturesContent({}, "chat")).toBe(true);
+    expect(capturesContent({ features: ["support"] }, "chat")).toBe(false);
+    expect(capturesContent({ features: ["support"] }, "support")).toBe(true);
+  });
+});
+
+describe("contentText", () => {
+  it("flattens strings and text parts of every provider", () => {
+    expect(contentText("hi")).toBe("hi");
+    expect(contentText(null)).toBe("");
+    expect(
+      contentText([
+        { type: "text", text: "look at" },
+        { type: "image_url", image_url: { url: "https://example.com/cat.png" } },
+        "plain",
+        { inlineData: { mimeType: "image/png", data: "..." } },
+      ])
+    ).toBe("look at\n[image_url]\nplain\n[inlineData]");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { ContextLimiter, OVERFLOW_VALUE, mergeContexts } from "../src/context";
+
+describe("mergeContexts", () => {
+  it("layers fields and merges metadata key by key", () => {
+    const merged = mergeContexts(
+      { featureTag: "chat", tenantId: "acme", metadata: { plan: "pro", region: "eu" } },
+      { featureTag: "search", endUserId: "u1", metadata: { region: "us" } }
+    );
+
+    expect(merged).toEqual({
+      featureTag: "search",
+      endUserId: "u1",
+      tenantId: "acme",
+      metadata: { plan: "pro", region: "us" },
+    });
+  });
+
+  it("ignores undefined fields in the override", () => {
+    expect(mergeContexts({ sessionId: "s1" }, { sessionId: undefined })).toEqual({ sessionId: "s1" });
+  });
+});
+
+describe("ContextLimiter", () => {
+  it("caps the number of metadata keys and drops long keys", () => {
+    const limiter = new ContextLimiter();
+    const metadata = { a: 1, [`k${"x".repeat(70)}`]: 2, b: 3, c: 4 };
+
+    const limited = limiter.apply({ metadata }, { maxMetadataKeys: 2 });
+
+    expect(limited.metadata).toEqual({ a: 1, b: 3 });
+  });
+
+  it("truncates long values and IDs", () => {
+    const limiter = new ContextLimiter();
+
+    const limited = limiter.apply(
+      { sessionId: "s".repeat(20), metadata: { note: "n".repeat(20), ok: true } },
+      { maxValueLength: 5 }
+    );
+
+    expect(limited.sessionId).toBe("sssss");
+    expect(limited.metadata).toEqual({ note: "nnnnn", ok: true });
+  });
+
+  it("drops values that are not strings, numbers or booleans", () => {
+    const limiter = new ContextLimiter();
+
+    const limited = limiter.apply({ metadata: { nested: { a: 1 } as any, n: 1 } });
+
+    expect(limited.metadata).toEqual({ n: 1 });
+  });
+
+  it("replaces new values once a key reaches its distinct value limit", () => {
+    const limiter = new ContextLimiter();
+    const apply = (value: string) => limiter.apply({ metadata: { doc: value } }, { maxDistinctValues: 2 }).metadata!.doc;
+
+    expect([apply("a"), apply("b"), apply("c"), apply("a")]).toEqual(["a", "b", OVERFLOW_VALUE, "a"]);
+
+    limiter.clear();
+    expect(apply("c")).toBe("c");
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { classifyError, errorTrackOptions, rateLimitFromHeaders, withResponseHeaders } from "../src/errors";
+
+// Shapes of the SDK error classes: a status, headers and sometimes a code
+class APIError extends Error {
+  constructor(public status?: number, public headers?: any, public code?: string) {
+    super(`${status} error`);
+  }
+}
+class RateLimitError extends APIError {}
+class APIConnectionError extends APIError {}
+class APIConnectionTimeoutError extends APIConnectionError {}
+class GoogleGenerativeAIResponseError extends Error {}
+class GoogleGenerativeAIFetchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+describe("classifyError", () => {
+  it.each([
+    [new RateLimitError(429), "rate_limit", true],
+    [new APIError(401), "auth", false],
+    [new APIError(403), "auth", false],
+    [new APIError(400), "invalid_request", false],
+    [new APIError(422), "invalid_request", false],
+    [new APIError(500), "server_error", true],
+    [new APIError(529), "server_error", true],
+    [new APIError(408), "timeout", true],
+    [new APIConnectionTimeoutError(), "timeout", true],
+    [new APIConnectionError(), "network", true],
+    [Object.assign(new Error("connect"), { code: "ECONNREFUSED" }), "network", true],
+    [new TypeError("fetch failed"), "network", true],
+    [new APIError(400, {}, "content_policy_violation"), "content_filter", false],
+    [new GoogleGenerativeAIResponseError("Candidate was blocked due to SAFETY"), "content_filter", false],
+    [new GoogleGenerativeAIFetchError("[429 Too Many Requests] Resource exhausted", 429), "rate_limit", true],
+    [
+      Object.assign(new Error("Rate exceeded"), { name: "ThrottlingException", $metadata: { httpStatusCode: 429 } }),
+      "rate_limit",
+      true,
+    ],
+    [
+      Object.assign(new Error("Model timed out"), {
+        name: "ModelTimeoutException",
+        $metadata: { httpStatusCode: 408 },
+      }),
+      "timeout",
+      true,
+    ],
+    [new Error("boom"), "unknown", false],
+  ])("classifies %s", (err, category, retryable) => {
+    expect(classifyError(err)).toMatchObject({ category, retryable });
+  });
+
+  it("treats an exhausted billing quota as not retryable", () => {
+    expect(classifyError(new RateLimitError(429, {}, "insufficient_quota"))).toMatchObject({
+      category: "rate_limit",
+      retryable: false,
+    });
+  });
+
+  it("honours the x-should-retry header", () => {
+    expect(classifyError(new APIError(409, { "x-should-retry": "true" })).retryable).toBe(true);
+    expect(classifyError(new APIError(503, new Headers({ "x-should-retry": "false" }))).retryable).toBe(false);
+  });
+
+  it("reads the status and request ID", () => {
+    const fromProperty = Object.assign(new APIError(500), { request_id: "req_1" });
+    const fromHeaders = new APIError(500, new Headers({ "request-id": "req_2" }));
+
+    expect(classifyError(fromProperty)).toMatchObject({ httpStatus: 500, requestId: "req_1" });
+    expect(classifyError(fromHeaders).requestId).toBe("req_2");
+
+    const aws = Object.assign(new Error("denied"), { $metadata: { httpStatusCode: 403, requestId: "aws-1" } });
+    expect(classifyError(aws)).toMatchObject({ category: "auth", httpStatus: 403, requestId: "aws-1" });
+  });
+});
+
+describe("rateLimitFromHeaders", () => {
+  it("reads OpenAI and Anthropic headers", () => {
+    expect(
+      rateLimitFromHeaders({ "x-ratelimit-remaining-requests": "99", "x-ratelimit-remaining-tokens": "149000" })
+    ).toEqual({ rateLimitRemainingRequests: 99, rateLimitRemainingTokens: 149000 });
+    expect(
+      rateLimitFromHeaders(
+        new Headers({ "anthropic-ratelimit-requests-remaining": "4", "anthropic-ratelimit-tokens-remaining": "800" })
+      )
+    ).toEqual({ rateLimitRemainingRequests: 4, rateLimitRemainingTokens: 800 });
+  });
+
+  it("ignores missing and malformed values", () => {
+    expect(rateLimitFromHeaders(undefined)).toEqual({});
+    expect(rateLimitFromHeaders({ "x-ratelimit-remaining-tokens": "n/a" }).rateLimitRemainingTokens).toBeUndefined();
+  });
+});
+
+describe("errorTrackOptions", () => {
+  it("describes a failed call", () => {
+    const err = new RateLimitError(429, { "x-request-id": "req_9", "x-ratelimit-remaining-requests": "0" });
+
+    expect(errorTrackOptions(err)).toMatchObject({
+      success: false,
+      errorType: "RateLimitError",
+      errorCategory: "rate_limit",
+      httpStatus: 429,
+      requestId: "req_9",
+      retryable: true,
+      rateLimitRemainingRequests: 0,
+    });
+  });
+});
+
+describe("withResponseHeaders", () => {
+  it("uses withResponse when the SDK promise has it", async () => {
+    const headers = new Headers({ "x-request-id": "req_1" });
+    const request = Object.assign(Promise.resolve("data"), {
+      withResponse: async () => ({ data: "data", response: { headers } }),
+    });
+
+    expect(await withResponseHeaders(request)).toEqual({ data: "data", headers });
+  });
+
+  it("falls back to awaiting plain promises", async () => {
+    expect(await withResponseHeaders(Promise.resolve("data"))).toEqual({ data: "data" });
+  });
+});
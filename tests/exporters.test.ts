@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  init,
+  flush,
+  shutdown,
+  track,
+  AgentRun,
+  ConsoleExporter,
+  FileExporter,
+  HttpExporter,
+  MemoryExporter,
+  _resetTransportForTesting,
+} from "../src/index";
+import type { Exporter, TelemetryEvent } from "../src/index";
+
+afterEach(() => {
+  _resetTransportForTesting();
+  init({ trackerApiKey: "k", projectId: "p", exporters: undefined });
+});
+
+describe("exporters option", () => {
+  it("delivers call and run events to every configured exporter", async () => {
+    const memory = new MemoryExporter();
+    const received: TelemetryEvent[] = [];
+    const custom: Exporter = {
+      async export(events) {
+        received.push(...events);
+      },
+    };
+    init({ trackerApiKey: "k", projectId: "proj-1", exporters: [memory, custom] });
+
+    await new AgentRun({ runId: "run-1" }).execute(async () => {
+      await track({ model: "gpt-4o", inputTokens: 10, outputTokens: 5, latencyMs: 20 });
+    });
+    await flush();
+
+    expect(memory.events.map((e) => e.type)).toEqual(["run_start", "run_step", "call", "run_end"]);
+    expect(received).toEqual(memory.events);
+    expect(memory.payloads("call")[0]).toMatchObject({ model: "gpt-4o", run_id: "run-1" });
+  });
+
+  it("retries a failing exporter without re-delivering to the others", async () => {
+    const memory = new MemoryExporter();
+    const flaky: Exporter = {
+      export: vi.fn().mockRejectedValueOnce(new Error("disk full")).mockResolvedValue(undefined),
+    };
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory, flaky],
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 1,
+    });
+
+    await track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    await flush();
+
+    expect(flaky.export).toHaveBeenCalledTimes(2);
+    expect(memory.events).toHaveLength(1);
+    init({ trackerApiKey: "k", projectId: "p", retryBaseDelayMs: 200, retryMaxDelayMs: 10000 });
+  });
+
+  it("calls exporter shutdown hooks on shutdown", async () => {
+    const exporter: Exporter = { export: vi.fn().mockResolvedValue(undefined), shutdown: vi.fn().mockResolvedValue(undefined) };
+    init({ trackerApiKey: "k", projectId: "p", exporters: [exporter] });
+
+    await track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    await shutdown();
+
+    expect(exporter.export).toHaveBeenCalledOnce();
+    expect(exporter.shutdown).toHaveBeenCalledOnce();
+  });
+});
+
+describe("HttpExporter", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("uses the host and API key from init by default", async () => {
+    init({ trackerApiKey: "init-key", projectId: "p", host: "https://ingest.example.com" });
+    await new HttpExporter().export([{ type: "call", payload: { model: "gpt-4o" } }]);
+
+    const [url, options] = (fetch as any).mock.calls[0];
+    expect(url).toBe("https://ingest.example.com/api/ingest/batch");
+    expect(options.headers["x-api-key"]).toBe("init-key");
+    init({ trackerApiKey: "k", projectId: "p", host: "https://api.agentracer.dev" });
+  });
+
+  it("accepts an explicit host and API key", async () => {
+    await new HttpExporter({ host: "https://self-hosted.internal", apiKey: "other" }).export([]);
+
+    const [url, options] = (fetch as any).mock.calls[0];
+    expect(url).toBe("https://self-hosted.internal/api/ingest/batch");
+    expect(options.headers["x-api-key"]).toBe("other");
+  });
+});
+
+describe("ConsoleExporter", () => {
+  it("prints one line per event", async () => {
+    const lines: string[] = [];
+    const exporter = new ConsoleExporter({ log: (line) => lines.push(line) });
+
+    await exporter.export([
+      { type: "run_start", payload: { run_id: "r1", run_name: "research", feature_tag: "agent" } },
+      {
+        type: "call",
+        payload: {
+          provider: "openai",
+          model: "gpt-4o",
+          feature_tag: "agent",
+          input_tokens: 100,
+          output_tokens: 20,
+          cost_usd: 0.00045,
+          latency_ms: 350,
+          success: true,
+        },
+      },
+      { type: "run_end", payload: { run_id: "r1", status: "completed" } },
+    ]);
+
+    expect(lines).toEqual([
+      "[agentracer] run_start r1 (research) [agent]",
+      "[agentracer] call openai/gpt-4o [agent] 100 in / 20 out $0.000450 350ms",
+      "[agentracer] run_end r1 completed",
+    ]);
+  });
+});
+
+describe("FileExporter", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "agentracer-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends events as JSON lines", async () => {
+    const path = join(dir, "events.jsonl");
+    const exporter = new FileExporter({ path });
+
+    await exporter.export([{ type: "call", payload: { n: 1 } }]);
+    await exporter.export([{ type: "call", payload: { n: 2 } }]);
+
+    const lines = (await fs.readFile(path, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines).toEqual([
+      { type: "call", payload: { n: 1 } },
+      { type: "call", payload: { n: 2 } },
+    ]);
+  });
+
+  it("rotates files once maxBytes is exceeded", async () => {
+    const path = join(dir, "events.jsonl");
+    const exporter = new FileExporter({ path, maxBytes: 40, maxFiles: 2 });
+    const event = (n: number): TelemetryEvent => ({ type: "call", payload: { n } });
+
+    // Each line is 34 bytes, so every write after the first rotates
+    for (let n = 1; n <= 4; n++) await exporter.export([event(n)]);
+
+    const read = async (p: string) => JSON.parse((await fs.readFile(p, "utf8")).trim()).payload.n;
+    expect(await read(path)).toBe(4);
+    expect(await read(`${path}.1`)).toBe(3);
+    expect(await read(`${path}.2`)).toBe(2);
+    await expect(fs.stat(`${path}.3`)).rejects.toThrow();
+  });
+});
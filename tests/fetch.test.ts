@@ -0,0 +1,341 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  MemoryExporter,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
+import { instrumentFetch } from "../src/fetch";
+import type { Exporter } from "../src/index";
+
+let memory: MemoryExporter;
+let upstream: ReturnType<typeof vi.fn>;
+let uninstall: () => void;
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { "content-type": "application/json", ...(init.headers as any) },
+  });
+}
+
+function sseResponse(events: unknown[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+function post(body: unknown): RequestInit {
+  return { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) };
+}
+
+async function calls(count: number) {
+  await vi.waitFor(async () => {
+    await flush();
+    expect(memory.payloads("call")).toHaveLength(count);
+  });
+  return memory.payloads("call");
+}
+
+beforeEach(() => {
+  memory = new MemoryExporter();
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: [memory] });
+  upstream = vi.fn();
+  vi.stubGlobal("fetch", upstream);
+  uninstall = instrumentFetch();
+});
+
+afterEach(() => {
+  uninstall();
+  vi.unstubAllGlobals();
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: undefined, budgets: [] });
+  _resetBudgetsForTesting();
+});
+
+const chatBody = {
+  model: "gpt-4o",
+  messages: [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Hello" },
+  ],
+  max_tokens: 100,
+};
+
+describe("instrumentFetch", () => {
+  it("tracks OpenAI chat completions and leaves the body to the caller", async () => {
+    const completion = {
+      model: "gpt-4o-2024-08-06",
+      choices: [{ message: { content: "Hi!" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 4 } },
+    };
+    upstream.mockResolvedValue(jsonResponse(completion, { headers: { "x-request-id": "req_1" } }));
+
+    const response = await featureTagStorage.run("assistant", () =>
+      fetch("https://api.openai.com/v1/chat/completions", post(chatBody))
+    );
+
+    expect(await response.json()).toEqual(completion);
+    expect(upstream).toHaveBeenCalledWith("https://api.openai.com/v1/chat/completions", post(chatBody));
+    const [call] = await calls(1);
+    expect(call).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o",
+      feature_tag: "assistant",
+      operation: "chat",
+      input_tokens: 12,
+      output_tokens: 3,
+      cached_tokens: 4,
+      finish_reason: "stop",
+      response_model: "gpt-4o-2024-08-06",
+      request_id: "req_1",
+      message_count: 2,
+      max_tokens: 100,
+    });
+    expect(call.system_prompt_hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("tracks Anthropic streams while the caller reads them", async () => {
+    upstream.mockResolvedValue(
+      sseResponse([
+        {
+          type: "message_start",
+          message: { model: "claude-3-5-haiku-20241022", usage: { input_tokens: 20, output_tokens: 1 } },
+        },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } },
+        { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 2 } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const response = await fetch(
+      "https://api.anthropic.com/v1/messages",
+      post({
+        model: "claude-3-5-haiku-latest",
+        max_tokens: 64,
+        stream: true,
+        messages: [{ role: "user", content: "Hi" }],
+      })
+    );
+
+    expect(await response.text()).toContain("text_delta");
+    const [call] = await calls(1);
+    expect(call).toMatchObject({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-latest",
+      input_tokens: 20,
+      output_tokens: 2,
+      finish_reason: "end_turn",
+      response_model: "claude-3-5-haiku-20241022",
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 5,
+    });
+    expect(call.ttft_ms).not.toBeNull();
+  });
+
+  it("records streams the caller aborts as aborted, not failed", async () => {
+    const encoder = new TextEncoder();
+    upstream.mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const text of ["Hel", "lo"]) {
+            const chunk = { choices: [{ delta: { content: text } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          }
+          init.signal!.addEventListener("abort", () => controller.error(init.signal!.reason));
+        },
+      });
+      return new Response(body, { headers: { "content-type": "text/event-stream" } });
+    });
+
+    const controller = new AbortController();
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      ...post({ ...chatBody, stream: true }),
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.read();
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+    await reader.read().catch(() => {});
+
+    const [call] = await calls(1);
+    expect(call).toMatchObject({ success: true, stream_status: "aborted", chunk_count: 2 });
+    expect(call.error_type).toBeUndefined();
+  });
+
+  it("reads the Gemini model from the path", async () => {
+    upstream.mockResolvedValue(
+      sseResponse([
+        { candidates: [{ content: { parts: [{ text: "Hi" }] } }], usageMetadata: { promptTokenCount: 6 } },
+        {
+          candidates: [{ content: { parts: [{ text: "!" }] }, finishReason: "STOP" }],
+          usageMetadata: { promptTokenCount: 6, candidatesTokenCount: 2, thoughtsTokenCount: 5 },
+        },
+      ])
+    );
+
+    const response = await fetch(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse",
+      post({ contents: [{ role: "user", parts: [{ text: "Hello" }] }] })
+    );
+    await response.text();
+
+    const [call] = await calls(1);
+    expect(call).toMatchObject({
+      provider: "gemini",
+      model: "gemini-2.5-flash",
+      input_tokens: 6,
+      output_tokens: 7,
+      reasoning_tokens: 5,
+      finish_reason: "STOP",
+      stream_status: "completed",
+    });
+  });
+
+  it("reads Cohere billed units", async () => {
+    upstream.mockResolvedValue(
+      jsonResponse({
+        finish_reason: "COMPLETE",
+        message: { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+        usage: { billed_units: { input_tokens: 5, output_tokens: 1 }, tokens: { input_tokens: 70, output_tokens: 1 } },
+      })
+    );
+
+    await fetch(
+      "https://api.cohere.com/v2/chat",
+      post({ model: "command-r", messages: [{ role: "user", content: "Hi" }] })
+    );
+
+    const [call] = await calls(1);
+    expect(call).toMatchObject({ provider: "cohere", model: "command-r", input_tokens: 5, output_tokens: 1 });
+  });
+
+  it("tracks extra hosts as OpenAI-compatible APIs and estimates missing usage", async () => {
+    uninstall();
+    uninstall = instrumentFetch({ hosts: { "localhost:11434": "ollama" }, featureTag: "local" });
+    upstream.mockResolvedValue(jsonResponse({ choices: [{ message: { content: "Hi there!" } }] }));
+
+    await fetch("http://localhost:11434/v1/chat/completions", post({ ...chatBody, model: "llama3.1" }));
+
+    const [call] = await calls(1);
+    expect(call).toMatchObject({
+      provider: "ollama",
+      model: "llama3.1",
+      feature_tag: "local",
+      input_tokens: 5,
+      output_tokens: 3,
+      estimated: true,
+    });
+  });
+
+  it("reads the body of Request objects from a copy", async () => {
+    upstream.mockImplementation(async (request: Request) => {
+      expect(await request.json()).toEqual(chatBody);
+      return jsonResponse({ data: [], usage: { prompt_tokens: 8 } });
+    });
+
+    await fetch(new Request("https://api.openai.com/v1/embeddings", post({ ...chatBody })));
+    await fetch(new Request("https://api.openai.com/v1/chat/completions", post(chatBody)));
+
+    const [embedding, chat] = await calls(2);
+    expect(embedding).toMatchObject({ operation: "embeddings", input_tokens: 8 });
+    expect(chat).toMatchObject({ model: "gpt-4o", message_count: 2 });
+  });
+
+  it("passes other requests through untouched", async () => {
+    upstream.mockResolvedValue(jsonResponse({ data: [] }));
+
+    await fetch("https://api.openai.com/v1/models");
+    await fetch("https://example.com/v1/chat/completions", post(chatBody));
+
+    await flush();
+    expect(upstream).toHaveBeenCalledTimes(2);
+    expect(memory.payloads("call")).toHaveLength(0);
+  });
+
+  it("records error responses as failed calls", async () => {
+    upstream.mockResolvedValue(
+      jsonResponse(
+        { error: { message: "Rate limit reached", code: "rate_limit_exceeded" } },
+        { status: 429, headers: { "x-request-id": "req_2", "x-ratelimit-remaining-requests": "0" } }
+      )
+    );
+
+    const response = await fetch("https://api.openai.com/v1/chat/completions", post(chatBody));
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ error: { code: "rate_limit_exceeded" } });
+    const [call] = await calls(1);
+    expect(call).toMatchObject({
+      success: false,
+      error_type: "ProviderHttpError",
+      error_category: "rate_limit",
+      http_status: 429,
+      request_id: "req_2",
+      ratelimit_remaining_requests: 0,
+    });
+  });
+
+  it("records network failures and rethrows", async () => {
+    const error = new TypeError("fetch failed");
+    upstream.mockRejectedValue(error);
+
+    await expect(fetch("https://api.openai.com/v1/chat/completions", post(chatBody))).rejects.toBe(error);
+
+    const [call] = await calls(1);
+    expect(call).toMatchObject({ success: false, error_category: "network", model: "gpt-4o" });
+  });
+
+  it("checks budgets before sending", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "global", maxTokens: 10 }] });
+    upstream.mockImplementation(async () =>
+      jsonResponse({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 1 } })
+    );
+
+    await fetch("https://api.openai.com/v1/chat/completions", post(chatBody));
+    await calls(1);
+
+    await expect(fetch("https://api.openai.com/v1/chat/completions", post(chatBody))).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it("never tracks requests made by exporters", async () => {
+    // An exporter that forwards batches to a host the interceptor knows
+    const forwarding: Exporter = {
+      async export(events) {
+        await fetch("https://api.openai.com/v1/chat/completions", post({ model: "gpt-4o", events }));
+      },
+    };
+    init({ trackerApiKey: "key", projectId: "proj-1", exporters: [memory, forwarding] });
+    upstream.mockImplementation(async () => jsonResponse({ choices: [], usage: { prompt_tokens: 1 } }));
+
+    await fetch("https://api.openai.com/v1/chat/completions", post(chatBody));
+    await calls(1);
+    await flush();
+
+    expect(upstream).toHaveBeenCalledTimes(2);
+    expect(memory.payloads("call")).toHaveLength(1);
+  });
+
+  it("restores the previous fetch", () => {
+    expect(globalThis.fetch).not.toBe(upstream);
+    uninstall();
+    expect(globalThis.fetch).toBe(upstream);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { PromptHashRegistry, promptFields, promptFingerprint, systemPromptShare } from "../src/fingerprint";
+
+describe("promptFingerprint", () => {
+  const tool = { type: "function", function: { name: "search", parameters: { type: "object" } } };
+
+  it("hashes the system prompt and tools and sizes each role", () => {
+    const fingerprint = promptFingerprint(
+      [
+        { role: "system", content: "You are a helpful assistant." },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello! How can I help?" },
+        { role: "user", content: "Weather?" },
+      ],
+      [tool]
+    );
+
+    expect(fingerprint.systemPromptHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprint.toolSchemaHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprint.roleTokens).toEqual({ system: 7, user: 3, assistant: 6 });
+  });
+
+  it("keeps hashes stable across calls and key order, and changes them with the content", () => {
+    const a = promptFingerprint([{ role: "system", content: "v1" }], [tool]);
+    const reordered = promptFingerprint(
+      [{ role: "system", content: "v1" }, { role: "user", content: "different question" }],
+      [{ function: { parameters: { type: "object" }, name: "search" }, type: "function" }]
+    );
+    const changed = promptFingerprint([{ role: "system", content: "v2" }], [{ ...tool, type: "custom" }]);
+
+    expect(reordered.systemPromptHash).toBe(a.systemPromptHash);
+    expect(reordered.toolSchemaHash).toBe(a.toolSchemaHash);
+    expect(changed.systemPromptHash).not.toBe(a.systemPromptHash);
+    expect(changed.toolSchemaHash).not.toBe(a.toolSchemaHash);
+  });
+
+  it("omits hashes for requests without a system prompt or tools", () => {
+    const fingerprint = promptFingerprint([{ role: "user", content: "Hi" }], []);
+
+    expect(fingerprint).toEqual({ roleTokens: { user: 1 } });
+  });
+});
+
+describe("systemPromptShare", () => {
+  it("counts system and developer messages against the whole prompt", () => {
+    expect(systemPromptShare({ system: 30, developer: 10, user: 60 })).toBe(0.4);
+    expect(systemPromptShare({ user: 5 })).toBe(0);
+    expect(systemPromptShare({})).toBeNull();
+  });
+});
+
+describe("PromptHashRegistry", () => {
+  it("flags hashes that replace a feature's known system prompt", () => {
+    const registry = new PromptHashRegistry();
+
+    expect(registry.observe("chat", "a")).toBe(false);
+    expect(registry.observe("chat", "a")).toBe(false);
+    expect(registry.observe("chat", "b")).toBe(true);
+    expect(registry.observe("chat", "b")).toBe(false);
+    expect(registry.observe("search", "b")).toBe(false);
+  });
+
+  it("stops flagging once a feature has many system prompts", () => {
+    const registry = new PromptHashRegistry();
+    for (let i = 0; i < 100; i++) registry.observe("templated", `hash-${i}`);
+
+    expect(registry.observe("templated", "hash-100")).toBe(false);
+  });
+});
+
+describe("promptFields", () => {
+  const messages = [{ role: "user", content: "Hi" }];
+  const count = (text: string) => text.length;
+
+  it("adds the messages only when capturing content", () => {
+    expect(promptFields(() => ({ messages }), count, false)).toEqual({ roleTokens: { user: 2 } });
+    expect(promptFields(() => ({ messages }), count, true)).toMatchObject({ inputMessages: messages });
+  });
+
+  it("yields no fields for requests it cannot read", () => {
+    const read = () => {
+      throw new TypeError("messages is not iterable");
+    };
+    expect(promptFields(read, count, true)).toEqual({});
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { init, featureTagStorage } from "../src/index";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  promptFingerprint,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
 import { gemini, _setClientForTesting } from "../src/gemini";
 
 const mockGenerateContent = vi.fn();
@@ -11,10 +19,13 @@ let telemetryPayloads: any[];
 beforeEach(() => {
   telemetryPayloads = [];
   fetchSpy = vi.fn().mockImplementation(async (_url: string, options: any) => {
-    telemetryPayloads.push(JSON.parse(options.body));
+    for (const event of JSON.parse(options.body).events) {
+      if (event.type === "call") telemetryPayloads.push(event.payload);
+    }
     return { ok: true };
   });
   vi.stubGlobal("fetch", fetchSpy);
+  _resetTransportForTesting();
   init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
   mockGenerateContent.mockReset();
   mockGenerateContentStream.mockReset();
@@ -43,7 +54,7 @@ describe("gemini non-streaming", () => {
     const result = await model.generateContent("Hi there");
 
     expect(result.response.usageMetadata.promptTokenCount).toBe(20);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "gemini",
@@ -62,7 +73,7 @@ describe("gemini non-streaming", () => {
     const model = gemini.getGenerativeModel({ model: "gemini-1.5-flash" });
     await model.generateContent("test");
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0].model).toBe("gemini-1.5-flash");
   });
 
@@ -76,7 +87,7 @@ describe("gemini non-streaming", () => {
       await model.generateContent("test");
     });
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0].feature_tag).toBe("embed-feature");
   });
 
@@ -116,7 +127,7 @@ describe("gemini streaming", () => {
     }
 
     expect(received).toHaveLength(3);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "gemini",
@@ -142,3 +153,469 @@ describe("gemini streaming", () => {
     expect(resolvedResponse).toEqual(responseData);
   });
 });
+
+describe("gemini stream lifecycle", () => {
+  it("tracks callers that only await the response", async () => {
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 10 } };
+      })(),
+      response: Promise.resolve({
+        candidates: [{ finishReason: "STOP", content: { parts: [{ text: "Hi" }] } }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 10 },
+      }),
+    });
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-pro" }).generateContentStream("test");
+    await result.response;
+    await result.response;
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_tokens: 5,
+      output_tokens: 10,
+      finish_reason: "STOP",
+      stream: true,
+      stream_status: "completed",
+      success: true,
+    });
+  });
+
+  it("tracks the stream once when the caller also awaits the response", async () => {
+    const usageMetadata = { promptTokenCount: 5, candidatesTokenCount: 10 };
+    // As in the SDK, the response settles once the chunks have arrived
+    let settle!: (response: any) => void;
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { usageMetadata };
+        yield { usageMetadata };
+        settle({ usageMetadata });
+      })(),
+      response: new Promise((resolve) => (settle = resolve)),
+    });
+
+    const model = gemini.getGenerativeModel({ model: "gemini-pro" });
+    const { stream, response } = await model.generateContentStream("test");
+    for await (const _ of stream) {}
+    await response;
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "completed", chunk_count: 2 });
+  });
+
+  it("records a failed response the caller awaits without reading the stream", async () => {
+    const response = Promise.reject(new Error("stream broke"));
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {})(),
+      response,
+    });
+    response.catch(() => {});
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-pro" }).generateContentStream("test");
+    await expect(result.response).rejects.toThrow("stream broke");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "errored", success: false, error_type: "Error" });
+  });
+
+  it("records mid-stream errors", async () => {
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 1 } };
+        throw new Error("stream broke");
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const model = gemini.getGenerativeModel({ model: "gemini-pro" });
+    const result = await model.generateContentStream("Hi");
+    await expect(async () => {
+      for await (const _ of result.stream) {}
+    }).rejects.toThrow("stream broke");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "errored",
+      chunk_count: 1,
+      input_tokens: 7,
+      success: false,
+    });
+  });
+
+  it("records failures to open the stream", async () => {
+    mockGenerateContentStream.mockRejectedValue(new Error("quota"));
+
+    const model = gemini.getGenerativeModel({ model: "gemini-pro" });
+    await expect(model.generateContentStream("Hi")).rejects.toThrow("quota");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ stream: true, stream_status: "errored", success: false });
+  });
+});
+
+describe("gemini budgets", () => {
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [] });
+    _resetBudgetsForTesting();
+  });
+
+  it("blocks calls once a feature budget is exhausted", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "feature", maxCostUsd: 1 }] });
+    mockGenerateContent.mockResolvedValue({
+      response: { usageMetadata: { promptTokenCount: 1_000_000, candidatesTokenCount: 0 } },
+    });
+
+    const model = gemini.getGenerativeModel({ model: "gemini-1.5-pro" });
+    await model.generateContent({ contents: [], feature_tag: "chat" });
+    await expect(model.generateContent({ contents: [], feature_tag: "chat" })).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    await expect(model.generateContentStream({ contents: [], feature_tag: "chat" })).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(mockGenerateContent).toHaveBeenCalledOnce();
+    expect(mockGenerateContentStream).not.toHaveBeenCalled();
+
+    await model.generateContent({ contents: [], feature_tag: "search" });
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("gemini usage breakdown", () => {
+  const usageMetadata = {
+    promptTokenCount: 100,
+    candidatesTokenCount: 40,
+    thoughtsTokenCount: 200,
+    toolUsePromptTokenCount: 30,
+  };
+
+  it("folds thinking and tool-use prompt tokens into output and input", async () => {
+    mockGenerateContent.mockResolvedValue({ response: { usageMetadata } });
+
+    await gemini.getGenerativeModel({ model: "gemini-2.5-flash" }).generateContent("Hi");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_tokens: 130,
+      output_tokens: 240,
+      reasoning_tokens: 200,
+      tool_use_prompt_tokens: 30,
+    });
+  });
+
+  it("records the breakdown in streams", async () => {
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { text: () => "Hi", usageMetadata };
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-2.5-flash" }).generateContentStream("Hi");
+    for await (const _ of result.stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ output_tokens: 240, reasoning_tokens: 200 });
+  });
+});
+
+describe("gemini request shape", () => {
+  it("combines request and model defaults and records the outcome", async () => {
+    const generateContent = vi.fn().mockResolvedValue({
+      response: {
+        modelVersion: "gemini-2.5-flash-001",
+        candidates: [{ finishReason: "STOP", content: { parts: [{ functionCall: {} }, { text: "" }] } }],
+        usageMetadata: {},
+      },
+    });
+    _setClientForTesting({ getGenerativeModel: () => ({ generateContent }) });
+
+    const model = gemini.getGenerativeModel({
+      model: "gemini-2.5-flash",
+      tools: [{ functionDeclarations: [{ name: "a" }, { name: "b" }] }, { codeExecution: {} }],
+      generationConfig: { maxOutputTokens: 256, temperature: 0.9 },
+    });
+    await model.generateContent({ contents: [{}, {}, {}], generationConfig: { temperature: 0 } });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      response_model: "gemini-2.5-flash-001",
+      finish_reason: "STOP",
+      tool_call_count: 1,
+      message_count: 3,
+      tool_count: 3,
+      max_tokens: 256,
+      temperature: 0,
+    });
+  });
+
+  it("records a prompt fingerprint from the model's system instruction and tools", async () => {
+    const generateContent = vi.fn().mockResolvedValue({ response: { usageMetadata: {} } });
+    _setClientForTesting({ getGenerativeModel: () => ({ generateContent }) });
+    const tools = [{ functionDeclarations: [{ name: "a" }] }];
+
+    const model = gemini.getGenerativeModel({
+      model: "gemini-2.5-flash",
+      systemInstruction: { role: "system", parts: [{ text: "Answer in French." }] },
+      tools,
+    });
+    await model.generateContent("Bonjour");
+
+    await flush();
+    const expected = promptFingerprint([{ role: "system", content: "Answer in French." }], tools);
+    expect(telemetryPayloads[0]).toMatchObject({
+      system_prompt_hash: expected.systemPromptHash,
+      tool_schema_hash: expected.toolSchemaHash,
+      role_tokens: { system: 5, user: 2 },
+    });
+  });
+
+  it("collects the outcome from stream chunks", async () => {
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { candidates: [{ content: { parts: [{ functionCall: {} }] } }] };
+        yield { modelVersion: "gemini-1.5-pro-002", candidates: [{ finishReason: "MAX_TOKENS" }] };
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-1.5-pro" }).generateContentStream("Hi");
+    for await (const _ of result.stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      response_model: "gemini-1.5-pro-002",
+      finish_reason: "MAX_TOKENS",
+      tool_call_count: 1,
+      message_count: 1,
+    });
+  });
+});
+
+describe("gemini errors", () => {
+  it("classifies fetch errors by status", async () => {
+    class GoogleGenerativeAIFetchError extends Error {
+      status = 429;
+    }
+    mockGenerateContent.mockRejectedValue(new GoogleGenerativeAIFetchError("Resource has been exhausted"));
+
+    await expect(gemini.getGenerativeModel({ model: "gemini-pro" }).generateContent("Hi")).rejects.toThrow();
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      error_type: "GoogleGenerativeAIFetchError",
+      error_category: "rate_limit",
+      http_status: 429,
+      retryable: true,
+    });
+  });
+});
+
+describe("gemini content capture", () => {
+  beforeEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: { maxLength: 20 } });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: undefined });
+  });
+
+  it("records the model's system instruction, contents and output", async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: { candidates: [{ content: { parts: [{ text: "Sure" }] } }], usageMetadata: {} },
+    });
+
+    const model = gemini.getGenerativeModel({ model: "gemini-1.5-flash", systemInstruction: "Be brief." });
+    await model.generateContent({
+      contents: [{ role: "user", parts: [{ text: "Summarize this very long document please" }] }],
+    });
+
+    await flush();
+    expect(telemetryPayloads[0].input_messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Summarize this very …" },
+    ]);
+    expect(telemetryPayloads[0].output_text).toBe("Sure");
+  });
+
+  it("reassembles streamed output", async () => {
+    const chunk = (text: string) => ({ candidates: [{ content: { parts: [{ text }] } }] });
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield chunk("Hel");
+        yield chunk("lo");
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).generateContentStream("Hi");
+    for await (const _ of result.stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_messages: [{ role: "user", content: "Hi" }],
+      output_text: "Hello",
+    });
+  });
+});
+
+describe("gemini usage estimates", () => {
+  it("estimates streams without usageMetadata", async () => {
+    const chunk = (text: string) => ({ candidates: [{ content: { parts: [{ text }] } }] });
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        yield chunk("Bonjour ");
+        yield chunk("le monde");
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const result = await gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).generateContentStream("Say hello in French");
+    for await (const _ of result.stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 5, output_tokens: 4, estimated: true });
+  });
+});
+
+describe("gemini chat sessions", () => {
+  const sendMessage = vi.fn();
+  const sendMessageStream = vi.fn();
+  const getHistory = vi.fn().mockResolvedValue([]);
+  const startChat = vi.fn();
+
+  beforeEach(() => {
+    sendMessage.mockReset();
+    sendMessageStream.mockReset();
+    startChat.mockReset().mockReturnValue({ sendMessage, sendMessageStream, getHistory });
+    _setClientForTesting({ getGenerativeModel: () => ({ startChat }) });
+  });
+
+  it("tracks sendMessage with the session's feature tag", async () => {
+    sendMessage.mockResolvedValue({
+      response: { usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 5 } },
+    });
+
+    const chat = gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).startChat({
+      history: [],
+      feature_tag: "support-chat",
+    });
+    await chat.sendMessage("Hi");
+    await chat.sendMessage("And then?");
+    await chat.getHistory();
+
+    expect(startChat.mock.calls[0][0]).toEqual({ history: [] });
+    expect(getHistory).toHaveBeenCalledOnce();
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "gemini",
+      model: "gemini-1.5-flash",
+      feature_tag: "support-chat",
+      input_tokens: 12,
+      output_tokens: 5,
+      message_count: 1,
+    });
+    expect(telemetryPayloads[1].message_count).toBe(3);
+  });
+
+  it("applies an agentracer context passed to startChat to every message", async () => {
+    sendMessage.mockResolvedValue({ response: { usageMetadata: {} } });
+
+    const chat = gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).startChat({
+      agentracer: { sessionId: "s1", endUserId: "u1" },
+    });
+    await chat.sendMessage("Hi");
+    await chat.sendMessage("Again");
+
+    expect(startChat.mock.calls[0][0]).toEqual({});
+    await flush();
+    for (const payload of telemetryPayloads) {
+      expect(payload).toMatchObject({ feature_tag: "unknown", session_id: "s1", end_user_id: "u1" });
+    }
+    expect(telemetryPayloads).toHaveLength(2);
+  });
+
+  it("resolves the feature tag from context when the session has none", async () => {
+    sendMessage.mockResolvedValue({ response: { usageMetadata: {} } });
+
+    const chat = gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).startChat();
+    await featureTagStorage.run("onboarding", () => chat.sendMessage("Hi"));
+
+    await flush();
+    expect(telemetryPayloads[0].feature_tag).toBe("onboarding");
+  });
+
+  it("tracks sendMessageStream", async () => {
+    sendMessageStream.mockResolvedValue({
+      stream: (async function* () {
+        yield { text: () => "Hel" };
+        yield { text: () => "lo", usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 } };
+      })(),
+      response: Promise.resolve({}),
+    });
+
+    const chat = gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).startChat();
+    const result = await chat.sendMessageStream("Hi");
+    for await (const _ of result.stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_tokens: 8,
+      output_tokens: 2,
+      stream_status: "completed",
+      chunk_count: 2,
+    });
+  });
+
+  it("records failed messages", async () => {
+    sendMessage.mockRejectedValue(new TypeError("blocked"));
+
+    const chat = gemini.getGenerativeModel({ model: "gemini-1.5-flash" }).startChat();
+    await expect(chat.sendMessage("Hi")).rejects.toThrow("blocked");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ success: false, error_type: "TypeError" });
+  });
+});
+
+describe("gemini embeddings and cached content", () => {
+  it("tracks embedContent and batchEmbedContents", async () => {
+    const embedContent = vi.fn().mockResolvedValue({ embedding: { values: [0.1] } });
+    const batchEmbedContents = vi.fn().mockResolvedValue({ embeddings: [] });
+    _setClientForTesting({ getGenerativeModel: () => ({ embedContent, batchEmbedContents }) });
+
+    const model = gemini.getGenerativeModel({ model: "text-embedding-004" });
+    await model.embedContent("hello");
+    await model.batchEmbedContents({ requests: [], feature_tag: "search-index" });
+
+    expect(embedContent.mock.calls[0][0]).toBe("hello");
+    expect(batchEmbedContents.mock.calls[0][0].feature_tag).toBeUndefined();
+    await flush();
+    expect(telemetryPayloads).toHaveLength(2);
+    expect(telemetryPayloads[0]).toMatchObject({ operation: "embeddings", model: "text-embedding-004" });
+    expect(telemetryPayloads[1]).toMatchObject({ operation: "embeddings", feature_tag: "search-index" });
+  });
+
+  it("tracks models created from cached content", async () => {
+    const generateContent = vi.fn().mockResolvedValue({
+      response: { usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 10, cachedContentTokenCount: 900 } },
+    });
+    const getGenerativeModelFromCachedContent = vi.fn().mockReturnValue({ generateContent });
+    _setClientForTesting({ getGenerativeModelFromCachedContent });
+
+    const cachedContent = { name: "cachedContents/abc", model: "models/gemini-1.5-pro-001" };
+    const model = gemini.getGenerativeModelFromCachedContent(cachedContent);
+    await model.generateContent("Summarize");
+
+    expect(getGenerativeModelFromCachedContent.mock.calls[0][0]).toBe(cachedContent);
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      model: "models/gemini-1.5-pro-001",
+      input_tokens: 1000,
+      cached_tokens: 900,
+    });
+    expect(telemetryPayloads[0].cost_usd).toBeGreaterThan(0);
+  });
+});
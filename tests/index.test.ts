@@ -1,5 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { init, getConfig, sendTelemetry, observe, track, featureTagStorage } from "../src/index";
+import {
+  init,
+  getConfig,
+  sendTelemetry,
+  observe,
+  withContext,
+  getContext,
+  track,
+  flush,
+  shutdown,
+  getDroppedCount,
+  featureTagStorage,
+  AgentRun,
+  RunAbortedError,
+  checkBudgets,
+  countTokens,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+  _resetAnomaliesForTesting,
+  _resetContextForTesting,
+  MemoryExporter,
+} from "../src/index";
+
+function sentEvents(fetchSpy: ReturnType<typeof vi.fn>): any[] {
+  return fetchSpy.mock.calls.flatMap(([, options]) => JSON.parse(options.body).events);
+}
 
 describe("init", () => {
   it("sets config with provided options", () => {
@@ -26,6 +52,7 @@ describe("sendTelemetry", () => {
   beforeEach(() => {
     fetchSpy = vi.fn().mockResolvedValue({ ok: true });
     vi.stubGlobal("fetch", fetchSpy);
+    _resetTransportForTesting();
     init({ trackerApiKey: "key-1", projectId: "proj-1", enabled: true });
   });
 
@@ -35,23 +62,229 @@ describe("sendTelemetry", () => {
 
   it("sends payload via fetch", async () => {
     await sendTelemetry({ model: "gpt-4" });
+    await flush();
     expect(fetchSpy).toHaveBeenCalledOnce();
     const [url, options] = fetchSpy.mock.calls[0];
-    expect(url).toBe("https://api.agentracer.dev/api/ingest");
+    expect(url).toBe("https://api.agentracer.dev/api/ingest/batch");
     expect(options.method).toBe("POST");
     expect(options.headers["x-api-key"]).toBe("key-1");
-    expect(JSON.parse(options.body)).toEqual({ model: "gpt-4" });
+    expect(JSON.parse(options.body)).toEqual({
+      events: [{ type: "call", payload: { model: "gpt-4" } }],
+    });
   });
 
   it("skips when disabled", async () => {
     init({ trackerApiKey: "k", projectId: "p", enabled: false });
     await sendTelemetry({ model: "gpt-4" });
+    await flush();
     expect(fetchSpy).not.toHaveBeenCalled();
   });
 
   it("silently catches fetch errors", async () => {
+    init({ trackerApiKey: "k", projectId: "p", maxRetries: 0 });
     fetchSpy.mockRejectedValue(new Error("network error"));
     await expect(sendTelemetry({ model: "gpt-4" })).resolves.toBeUndefined();
+    await expect(flush()).resolves.toBeUndefined();
+    init({ trackerApiKey: "k", projectId: "p", maxRetries: 3 });
+  });
+});
+
+describe("retries", () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal("fetch", fetchSpy);
+    _resetTransportForTesting();
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      enabled: true,
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 5,
+      maxQueueSize: 1000,
+      dropPolicy: "drop_oldest",
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      maxRetries: 3,
+      retryBaseDelayMs: 200,
+      retryMaxDelayMs: 10000,
+      maxQueueSize: 1000,
+      dropPolicy: "drop_oldest",
+    });
+  });
+
+  const failure = (status: number, retryAfter?: string) => ({
+    ok: false,
+    status,
+    headers: new Headers(retryAfter ? { "retry-after": retryAfter } : {}),
+  });
+
+  it("retries network errors and retryable statuses", async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce({ ok: true });
+
+    await sendTelemetry({ n: 1 });
+    await flush();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(getDroppedCount()).toBe(0);
+  });
+
+  it("does not retry non-retryable statuses and counts the drop", async () => {
+    fetchSpy.mockResolvedValue(failure(400));
+
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    await flush();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(getDroppedCount()).toBe(2);
+  });
+
+  it("waits for Retry-After before retrying", async () => {
+    vi.useFakeTimers();
+    init({ trackerApiKey: "k", projectId: "p", retryMaxDelayMs: 10000 });
+    fetchSpy.mockResolvedValueOnce(failure(429, "3")).mockResolvedValueOnce({ ok: true });
+
+    await sendTelemetry({ n: 1 });
+    const flushing = flush();
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    await vi.advanceTimersByTimeAsync(1);
+    await flushing;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits no longer than retryMaxDelayMs for Retry-After", async () => {
+    vi.useFakeTimers();
+    init({ trackerApiKey: "k", projectId: "p", retryMaxDelayMs: 1000 });
+    fetchSpy.mockResolvedValueOnce(failure(503, "3600")).mockResolvedValueOnce({ ok: true });
+
+    await sendTelemetry({ n: 1 });
+    const flushing = flush();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await flushing;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("requeues the batch when retries run out", async () => {
+    fetchSpy.mockRejectedValue(new TypeError("fetch failed"));
+
+    await sendTelemetry({ n: 1 });
+    await flush();
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    fetchSpy.mockReset().mockResolvedValue({ ok: true });
+    await flush();
+    expect(sentEvents(fetchSpy).map((e) => e.payload.n)).toEqual([1]);
+  });
+
+  it("drops the oldest events when the queue is full", async () => {
+    init({ trackerApiKey: "k", projectId: "p", maxQueueSize: 2 });
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    await sendTelemetry({ n: 3 });
+    await flush();
+
+    expect(sentEvents(fetchSpy).map((e) => e.payload.n)).toEqual([2, 3]);
+    expect(getDroppedCount()).toBe(1);
+  });
+
+  it("drops the newest events when configured to", async () => {
+    init({ trackerApiKey: "k", projectId: "p", maxQueueSize: 2, dropPolicy: "drop_newest" });
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    await sendTelemetry({ n: 3 });
+    await flush();
+
+    expect(sentEvents(fetchSpy).map((e) => e.payload.n)).toEqual([1, 2]);
+    expect(getDroppedCount()).toBe(1);
+  });
+});
+
+describe("batching", () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal("fetch", fetchSpy);
+    _resetTransportForTesting();
+    init({ trackerApiKey: "k", projectId: "p", enabled: true, maxBatchSize: 3, flushIntervalMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    init({ trackerApiKey: "k", projectId: "p", maxBatchSize: 50 });
+  });
+
+  it("sends queued events in a single request", async () => {
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    await flush();
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(sentEvents(fetchSpy).map((e) => e.payload.n)).toEqual([1, 2]);
+  });
+
+  it("sends a batch as soon as maxBatchSize is reached", async () => {
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    await sendTelemetry({ n: 3 });
+    expect(fetchSpy).toHaveBeenCalledOnce();
+  });
+
+  it("sends a batch when the flush interval elapses", async () => {
+    vi.useFakeTimers();
+    await sendTelemetry({ n: 1 });
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchSpy).toHaveBeenCalledOnce();
+  });
+
+  it("splits large flushes into batches of maxBatchSize", async () => {
+    init({ trackerApiKey: "k", projectId: "p", maxBatchSize: 2 });
+    await sendTelemetry({ n: 1 });
+    await sendTelemetry({ n: 2 });
+    await sendTelemetry({ n: 3 });
+    await flush();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(sentEvents(fetchSpy)).toHaveLength(3);
+  });
+
+  it("batches run events alongside call events", async () => {
+    const run = new AgentRun({ runId: "run-1", featureTag: "agent" });
+    await run.execute(async () => {
+      await track({ model: "gpt-4", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    });
+    await flush();
+
+    expect(sentEvents(fetchSpy).map((e) => e.type)).toEqual(["run_start", "run_step", "call", "run_end"]);
+  });
+
+  it("flushes on shutdown and drops events afterwards", async () => {
+    await sendTelemetry({ n: 1 });
+    await shutdown();
+    expect(fetchSpy).toHaveBeenCalledOnce();
+
+    await sendTelemetry({ n: 2 });
+    await flush();
+    expect(fetchSpy).toHaveBeenCalledOnce();
   });
 });
 
@@ -81,12 +314,125 @@ describe("observe", () => {
   });
 });
 
+describe("context", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+    _resetContextForTesting();
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory] });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined, contextLimits: undefined });
+  });
+
+  const llmCall = () => track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+
+  it("attaches the end user, session, tenant and metadata to calls", async () => {
+    await withContext(
+      { featureTag: "chat", endUserId: "u1", sessionId: "s1", tenantId: "acme", metadata: { plan: "pro" } },
+      llmCall
+    );
+    await llmCall();
+    await flush();
+
+    const [inside, outside] = memory.payloads("call");
+    expect(inside).toMatchObject({
+      feature_tag: "chat",
+      end_user_id: "u1",
+      session_id: "s1",
+      tenant_id: "acme",
+      metadata: { plan: "pro" },
+    });
+    expect(outside.feature_tag).toBe("unknown");
+    expect(outside).not.toHaveProperty("session_id");
+    expect(outside).not.toHaveProperty("metadata");
+  });
+
+  it("merges nested contexts and lets track() options override them", async () => {
+    await withContext({ tenantId: "acme", metadata: { plan: "pro", region: "eu" } }, () =>
+      withContext({ featureTag: "search", metadata: { region: "us" } }, () =>
+        track({
+          model: "gpt-4o",
+          inputTokens: 1,
+          outputTokens: 1,
+          latencyMs: 1,
+          sessionId: "s2",
+          metadata: { experiment: "b" },
+        })
+      )
+    );
+    await flush();
+
+    expect(memory.payloads("call")[0]).toMatchObject({
+      feature_tag: "search",
+      tenant_id: "acme",
+      session_id: "s2",
+      metadata: { plan: "pro", region: "us", experiment: "b" },
+    });
+  });
+
+  it("accepts a context object in observe()", async () => {
+    let seen: any;
+    const handler = observe(async () => {
+      seen = getContext();
+      return llmCall();
+    }, { featureTag: "support", endUserId: "u2", sessionId: "s3" });
+
+    await handler();
+    await flush();
+
+    expect(seen).toEqual({ featureTag: "support", endUserId: "u2", sessionId: "s3" });
+    expect(memory.payloads("call")[0]).toMatchObject({ feature_tag: "support", end_user_id: "u2", session_id: "s3" });
+  });
+
+  it("keeps featureTagStorage as the source of the feature tag", async () => {
+    await withContext({ tenantId: "acme" }, () => featureTagStorage.run("legacy", llmCall));
+    await flush();
+
+    expect(memory.payloads("call")[0]).toMatchObject({ feature_tag: "legacy", tenant_id: "acme" });
+  });
+
+  it("carries the context on run_start", async () => {
+    await withContext({ sessionId: "s1", metadata: { plan: "pro" } }, () =>
+      new AgentRun({ runId: "run-1", endUserId: "u1" }).execute(llmCall)
+    );
+    await flush();
+
+    expect(memory.payloads("run_start")[0]).toMatchObject({
+      end_user_id: "u1",
+      session_id: "s1",
+      metadata: { plan: "pro" },
+    });
+  });
+
+  it("applies the configured context limits", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      contextLimits: { maxMetadataKeys: 1, maxValueLength: 4, maxDistinctValues: 1 },
+    });
+
+    await withContext({ sessionId: "session-1", metadata: { doc: "a", extra: 1 } }, llmCall);
+    await withContext({ metadata: { doc: "b" } }, llmCall);
+    await flush();
+
+    const [first, second] = memory.payloads("call");
+    expect(first).toMatchObject({ session_id: "sess", metadata: { doc: "a" } });
+    expect(second.metadata).toEqual({ doc: "__other__" });
+  });
+});
+
 describe("track", () => {
   let fetchSpy: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     fetchSpy = vi.fn().mockResolvedValue({ ok: true });
     vi.stubGlobal("fetch", fetchSpy);
+    _resetTransportForTesting();
     init({ trackerApiKey: "k", projectId: "proj-1", enabled: true });
   });
 
@@ -105,7 +451,8 @@ describe("track", () => {
       provider: "openai",
     });
 
-    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    await flush();
+    const body = sentEvents(fetchSpy)[0].payload;
     expect(body).toEqual({
       project_id: "proj-1",
       provider: "openai",
@@ -114,6 +461,7 @@ describe("track", () => {
       input_tokens: 100,
       output_tokens: 50,
       cached_tokens: 0,
+      cost_usd: 0.006,
       latency_ms: 200,
       success: true,
       environment: "production",
@@ -130,8 +478,746 @@ describe("track", () => {
       });
     });
 
-    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    await flush();
+    const body = sentEvents(fetchSpy)[0].payload;
     expect(body.feature_tag).toBe("from-context");
     expect(body.provider).toBe("custom");
   });
+
+  it("sends null cost for models without pricing", async () => {
+    await track({ model: "my-finetune", inputTokens: 10, outputTokens: 5, latencyMs: 100 });
+
+    await flush();
+    expect(sentEvents(fetchSpy)[0].payload.cost_usd).toBeNull();
+  });
+
+  it("sends the usage breakdown and prices cache writes", async () => {
+    await track({
+      model: "claude-sonnet-4",
+      provider: "anthropic",
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cacheWriteTokens: 1_000_000,
+      reasoningTokens: 0,
+      latencyMs: 100,
+    });
+    await track({ model: "gpt-4o", inputTokens: 10, outputTokens: 5, latencyMs: 100 });
+
+    await flush();
+    const [withBreakdown, plain] = sentEvents(fetchSpy).map((e) => e.payload);
+    expect(withBreakdown).toMatchObject({ cache_write_tokens: 1_000_000, reasoning_tokens: 0, cost_usd: 3 + 3.75 });
+    expect(plain).not.toHaveProperty("cache_write_tokens");
+    expect(plain).not.toHaveProperty("reasoning_tokens");
+  });
+
+  it("applies pricing overrides from init", async () => {
+    init({ trackerApiKey: "k", projectId: "proj-1", pricing: { "my-finetune": { input: 1, output: 2 } } });
+    const run = new AgentRun();
+    await run.execute(async () => {
+      await track({ model: "my-finetune", inputTokens: 1_000_000, outputTokens: 500_000, latencyMs: 100 });
+    });
+    init({ trackerApiKey: "k", projectId: "proj-1", pricing: {} });
+
+    await flush();
+    const events = sentEvents(fetchSpy);
+    expect(events.find((e) => e.type === "call").payload.cost_usd).toBe(2);
+    expect(events.find((e) => e.type === "run_step").payload.cost_usd).toBe(2);
+  });
+});
+
+describe("sampling", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+    _resetAnomaliesForTesting();
+    _resetBudgetsForTesting();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: undefined,
+      sampling: undefined,
+      budgets: [],
+      anomalyDetection: {},
+    });
+  });
+
+  const call = { model: "gpt-4o", provider: "openai", featureTag: "chat", inputTokens: 1000, outputTokens: 100, latencyMs: 300 };
+
+  it("drops sampled-out calls and records the rate on kept ones", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory], sampling: { rate: 0.25 } });
+    vi.spyOn(Math, "random").mockReturnValueOnce(0.9).mockReturnValueOnce(0.1);
+
+    await track(call);
+    await track(call);
+    await flush();
+
+    const payloads = memory.payloads("call");
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0].sample_rate).toBe(0.25);
+  });
+
+  it("applies the most specific rate", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      sampling: { rate: 1, features: { chat: 1 }, models: { "gpt-4o": 0 } },
+    });
+
+    await track(call);
+    await track({ ...call, featureTag: "search" });
+    await flush();
+
+    const payloads = memory.payloads("call");
+    expect(payloads.map((p) => p.feature_tag)).toEqual(["chat"]);
+    expect(payloads[0]).not.toHaveProperty("sample_rate");
+  });
+
+  it("always keeps failed calls", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory], sampling: { rate: 0 } });
+
+    await track({ ...call, success: false, errorType: "RateLimitError" });
+    await flush();
+
+    const [payload] = memory.payloads("call");
+    expect(payload.success).toBe(false);
+    expect(payload).not.toHaveProperty("sample_rate");
+  });
+
+  it("always keeps anomalous calls while baselines see every call", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      sampling: { rate: 0 },
+      anomalyDetection: { minSamples: 5 },
+    });
+
+    for (let i = 0; i < 5; i++) await track(call);
+    await track({ ...call, inputTokens: 6000 });
+    await flush();
+
+    expect(memory.payloads("call").map((p) => p.input_tokens)).toEqual([6000]);
+    expect(memory.payloads("incident").length).toBeGreaterThan(0);
+  });
+
+  it("still counts sampled-out calls toward budgets and runs", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      sampling: { rate: 0 },
+      budgets: [{ scope: "feature", maxTokens: 1000 }],
+    });
+
+    await new AgentRun({ runId: "run-1" }).execute(() => track(call));
+    await flush();
+
+    expect(memory.payloads("call")).toHaveLength(0);
+    expect(memory.payloads("run_step")).toHaveLength(1);
+    expect(() => checkBudgets("chat")).toThrow(BudgetExceededError);
+  });
+});
+
+describe("beforeSend", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined, beforeSend: undefined });
+  });
+
+  const llmCall = (featureTag: string) =>
+    track({ model: "gpt-4o", featureTag, inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+
+  it("can change or drop events", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      beforeSend: (event) => {
+        if (event.payload.feature_tag === "internal") return null;
+        event.payload.region = "eu";
+        return event;
+      },
+    });
+
+    await llmCall("internal");
+    await llmCall("chat");
+    await flush();
+
+    const payloads = memory.payloads("call");
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0]).toMatchObject({ feature_tag: "chat", region: "eu" });
+  });
+
+  it("sees run events too", async () => {
+    const types: string[] = [];
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      beforeSend: (event) => {
+        types.push(event.type);
+        return event;
+      },
+    });
+
+    await new AgentRun().execute(() => llmCall("chat"));
+
+    expect(types).toEqual(["run_start", "run_step", "call", "run_end"]);
+  });
+
+  it("drops events the hook throws on", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      beforeSend: () => {
+        throw new Error("bug");
+      },
+    });
+
+    await expect(llmCall("chat")).resolves.toBeUndefined();
+    await flush();
+
+    expect(memory.events).toHaveLength(0);
+  });
+});
+
+describe("content capture", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined, captureContent: undefined });
+  });
+
+  const call = (featureTag: string) =>
+    track({
+      model: "gpt-4o",
+      featureTag,
+      inputTokens: 1,
+      outputTokens: 1,
+      latencyMs: 1,
+      inputMessages: [{ role: "user", content: "I am jane@example.com" }],
+      outputText: "Hello Jane",
+    });
+
+  it("records no content unless opted in", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory] });
+
+    await call("support");
+    await flush();
+
+    const [payload] = memory.payloads("call");
+    expect(payload).not.toHaveProperty("input_messages");
+    expect(payload).not.toHaveProperty("output_text");
+  });
+
+  it("records redacted content for the opted-in features", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory], captureContent: { features: ["support"] } });
+
+    await call("support");
+    await call("chat");
+    await flush();
+
+    const [support, chat] = memory.payloads("call");
+    expect(support.input_messages).toEqual([{ role: "user", content: "I am [EMAIL]" }]);
+    expect(support.output_text).toBe("Hello Jane");
+    expect(chat).not.toHaveProperty("input_messages");
+  });
+
+  it("sends no content when the redact function throws", async () => {
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      exporters: [memory],
+      captureContent: {
+        redact: () => {
+          throw new Error("bug");
+        },
+      },
+    });
+
+    await call("support");
+    await flush();
+
+    const [payload] = memory.payloads("call");
+    expect(payload.feature_tag).toBe("support");
+    expect(payload).not.toHaveProperty("input_messages");
+    expect(payload).not.toHaveProperty("output_text");
+  });
+});
+
+describe("prompt drift", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+    _resetAnomaliesForTesting();
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined, sampling: undefined, anomalyDetection: {} });
+  });
+
+  const call = (featureTag: string, systemPromptHash: string, roleTokens = { system: 100, user: 400 }) =>
+    track({ model: "gpt-4o", featureTag, inputTokens: 500, outputTokens: 10, latencyMs: 100, systemPromptHash, roleTokens });
+
+  it("flags a system prompt a feature has not used before", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory] });
+
+    await call("chat", "aaaa");
+    await call("chat", "aaaa");
+    await call("search", "bbbb");
+    await call("chat", "bbbb");
+    await flush();
+
+    const payloads = memory.payloads("call");
+    expect(payloads.map((p) => p.system_prompt_changed ?? false)).toEqual([false, false, false, true]);
+    expect(payloads[0]).toMatchObject({ system_prompt_hash: "aaaa", role_tokens: { system: 100, user: 400 } });
+  });
+
+  it("keeps calls with a changed system prompt when sampling", async () => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory], sampling: { rate: 0 } });
+
+    await call("chat", "aaaa");
+    await call("chat", "bbbb");
+    await flush();
+
+    expect(memory.payloads("call").map((p) => p.system_prompt_hash)).toEqual(["bbbb"]);
+  });
+
+  it("reports the system prompt taking a growing share of the prompt", async () => {
+    const onIncident = vi.fn();
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory], anomalyDetection: { minSamples: 5 }, onIncident });
+
+    for (let i = 0; i < 5; i++) await call("chat", "aaaa");
+    await call("chat", "aaaa", { system: 400, user: 100 });
+
+    expect(onIncident).toHaveBeenCalledOnce();
+    expect(onIncident.mock.calls[0][0]).toMatchObject({
+      type: "system_prompt_growth",
+      metric: "system_prompt_share",
+      value: 0.8,
+      baselineP95: 0.2,
+    });
+  });
+});
+
+describe("checkBudgets", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true }));
+    _resetBudgetsForTesting();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    init({ trackerApiKey: "k", projectId: "p", budgets: [] });
+  });
+
+  it("scopes run budgets to the active AgentRun", async () => {
+    init({ trackerApiKey: "k", projectId: "p", budgets: [{ scope: "run", maxTokens: 100 }] });
+
+    await new AgentRun().execute(async () => {
+      await track({ model: "gpt-4o", inputTokens: 80, outputTokens: 20, latencyMs: 1 });
+      expect(() => checkBudgets("agent")).toThrow(BudgetExceededError);
+    });
+
+    await new AgentRun().execute(async () => {
+      expect(() => checkBudgets("agent")).not.toThrow();
+    });
+  });
+
+  it("uses the run's endUserId for end-user budgets", async () => {
+    init({ trackerApiKey: "k", projectId: "p", budgets: [{ scope: "end_user", maxCostUsd: 0.001 }] });
+    await track({ model: "gpt-4o", inputTokens: 1000, outputTokens: 0, latencyMs: 1, endUserId: "user-1" });
+
+    await new AgentRun({ endUserId: "user-1" }).execute(async () => {
+      expect(() => checkBudgets("agent")).toThrow(BudgetExceededError);
+    });
+    expect(() => checkBudgets("agent", "user-2")).not.toThrow();
+  });
+});
+
+describe("countTokens", () => {
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", tokenizer: undefined, budgets: [] });
+    _resetBudgetsForTesting();
+  });
+
+  it("approximates without a tokenizer and uses the configured one otherwise", () => {
+    const messages = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "What is TypeScript?" },
+    ];
+    expect(countTokens("What is TypeScript?")).toBe(5);
+    expect(countTokens(messages)).toBe(8);
+
+    init({ trackerApiKey: "k", projectId: "p", tokenizer: (text) => text.split(/\s+/).length });
+    expect(countTokens(messages, "gpt-4o")).toBe(5);
+  });
+
+  it("lets budgets stop a call before it is sent", () => {
+    init({ trackerApiKey: "k", projectId: "p", budgets: [{ scope: "feature", maxTokens: 1000 }] });
+
+    expect(() => checkBudgets("chat", undefined, { tokens: countTokens("x".repeat(400)) })).not.toThrow();
+    expect(() => checkBudgets("chat", undefined, { tokens: countTokens("x".repeat(4004)) })).toThrow(
+      BudgetExceededError
+    );
+  });
+});
+
+describe("anomaly detection", () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal("fetch", fetchSpy);
+    _resetTransportForTesting();
+    _resetAnomaliesForTesting();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    init({ trackerApiKey: "k", projectId: "p", anomalyDetection: {}, onIncident: undefined });
+  });
+
+  const call = { model: "gpt-4o", provider: "openai", featureTag: "chatbot", latencyMs: 300 };
+
+  it("sends incidents to the handler and the ingest endpoint", async () => {
+    const incidents: any[] = [];
+    init({
+      trackerApiKey: "k",
+      projectId: "p",
+      anomalyDetection: { minSamples: 5 },
+      onIncident: (incident) => incidents.push(incident),
+    });
+
+    for (let i = 0; i < 5; i++) await track({ ...call, inputTokens: 1000, outputTokens: 100 });
+    await track({ ...call, inputTokens: 6000, outputTokens: 100 });
+    await flush();
+
+    // The larger prompt also drives up the cost
+    expect(incidents.map((i) => i.type)).toEqual(["prompt_bloat", "cost_spike"]);
+    expect(incidents[0].message).toBe("prompt bloat: input tokens 6.0x p95 for feature 'chatbot' (gpt-4o)");
+
+    const sent = sentEvents(fetchSpy).filter((e) => e.type === "incident");
+    expect(sent).toHaveLength(2);
+    expect(sent[0].payload).toMatchObject({
+      project_id: "p",
+      incident_type: "prompt_bloat",
+      metric: "input_tokens",
+      feature_tag: "chatbot",
+      value: 6000,
+      ratio: 6,
+    });
+  });
+
+  it("can be turned off", async () => {
+    const onIncident = vi.fn();
+    init({ trackerApiKey: "k", projectId: "p", anomalyDetection: false, onIncident });
+
+    for (let i = 0; i < 25; i++) await track({ ...call, inputTokens: 1000, outputTokens: 100 });
+    await track({ ...call, inputTokens: 60_000, outputTokens: 100 });
+
+    expect(onIncident).not.toHaveBeenCalled();
+  });
+});
+
+describe("AgentRun steps", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory] });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined });
+  });
+
+  const llmCall = () => track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+
+  it("records tool steps with duration and success", async () => {
+    const run = new AgentRun({ runId: "run-1" });
+    const result = await run.execute(async () => run.tool("web_search", async () => "results"));
+    await flush();
+
+    expect(result).toBe("results");
+    const [step] = memory.payloads("run_step");
+    expect(step).toMatchObject({
+      run_id: "run-1",
+      step_index: 1,
+      step_type: "tool",
+      step_name: "web_search",
+      parent_step_id: null,
+      success: true,
+      error_type: null,
+    });
+    expect(step.step_id).toEqual(expect.any(String));
+    expect(step.latency_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("records failed steps and rethrows", async () => {
+    const run = new AgentRun();
+    await expect(
+      run.execute(() =>
+        run.step("lookup", "retrieval", () => {
+          throw new RangeError("index missing");
+        })
+      )
+    ).rejects.toThrow("index missing");
+    await flush();
+
+    expect(memory.payloads("run_step")[0]).toMatchObject({
+      step_type: "retrieval",
+      success: false,
+      error_type: "RangeError",
+    });
+  });
+
+  it("links nested steps and LLM calls to their parent step", async () => {
+    const run = new AgentRun();
+    await run.execute(async () => {
+      await run.step("retry-loop", "retry", async () => {
+        await run.tool("calculator", async () => 42);
+        await llmCall();
+      });
+    });
+    await flush();
+
+    const steps = memory.payloads("run_step");
+    const loop = steps.find((s) => s.step_name === "retry-loop")!;
+    const tool = steps.find((s) => s.step_name === "calculator")!;
+    const llm = steps.find((s) => s.step_type === "llm_call")!;
+    expect(loop.step_index).toBe(1);
+    expect(tool.parent_step_id).toBe(loop.step_id);
+    expect(llm.parent_step_id).toBe(loop.step_id);
+  });
+
+  it("records runs started inside execute() as sub-runs", async () => {
+    const outer = new AgentRun({ runId: "outer", runName: "planner" });
+    const inner = new AgentRun({ runId: "inner", runName: "researcher" });
+
+    await outer.execute(async () => {
+      await inner.execute(async () => {
+        await llmCall();
+      });
+    });
+    await flush();
+
+    const subAgentStep = memory.payloads("run_step").find((s) => s.step_type === "sub_agent")!;
+    expect(subAgentStep).toMatchObject({ run_id: "outer", step_name: "researcher", success: true });
+
+    const innerStart = memory.payloads("run_start").find((s) => s.run_id === "inner")!;
+    expect(innerStart).toMatchObject({
+      parent_run_id: "outer",
+      parent_step_id: subAgentStep.step_id,
+      root_run_id: "outer",
+    });
+
+    const innerLlm = memory.payloads("run_step").find((s) => s.step_type === "llm_call")!;
+    expect(innerLlm).toMatchObject({ run_id: "inner", parent_step_id: null });
+  });
+});
+
+describe("AgentRun lifecycle", () => {
+  let memory: MemoryExporter;
+
+  beforeEach(() => {
+    memory = new MemoryExporter();
+    _resetTransportForTesting();
+    init({ trackerApiKey: "k", projectId: "p", exporters: [memory] });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "k", projectId: "p", exporters: undefined, budgets: undefined });
+  });
+
+  const llmCall = (inputTokens = 1000, success = true) =>
+    track({ model: "gpt-4o", inputTokens, outputTokens: 100, latencyMs: 1, success });
+  const hang = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => signal.addEventListener("abort", () => reject(new Error("aborted"))));
+
+  it("reports aggregates of the run and its sub-runs on run_end", async () => {
+    const run = new AgentRun({ runId: "run-1" });
+    await run.execute(async () => {
+      await llmCall();
+      await llmCall(1000, false);
+      await run.tool("lookup", () => Promise.reject(new Error("down"))).catch(() => {});
+      await new AgentRun({ runId: "sub" }).execute(() => llmCall());
+    });
+    await flush();
+
+    const end = memory.payloads("run_end").find((p) => p.run_id === "run-1")!;
+    expect(end).toMatchObject({
+      status: "completed",
+      step_count: 4,
+      step_error_count: 1,
+      llm_call_count: 3,
+      llm_error_count: 1,
+      input_tokens: 3000,
+      output_tokens: 300,
+    });
+    expect(end.cost_usd).toBeCloseTo(run.totals.costUsd);
+    expect(end.cost_usd).toBeGreaterThan(0);
+    expect(end.duration_ms).toBeGreaterThanOrEqual(0);
+    expect(memory.payloads("run_end").find((p) => p.run_id === "sub")).toMatchObject({ llm_call_count: 1 });
+  });
+
+  it("passes a signal to fn and ends hung runs with status timeout", async () => {
+    const run = new AgentRun({ maxDurationMs: 20 });
+    let received: AbortSignal | undefined;
+    const error = await run
+      .execute((signal) => {
+        received = signal;
+        return new Promise(() => {});
+      })
+      .catch((err) => err);
+    await flush();
+
+    expect(error).toBeInstanceOf(RunAbortedError);
+    expect(error.status).toBe("timeout");
+    expect(received?.aborted).toBe(true);
+    expect(received?.reason).toBe(error);
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "timeout", error_type: "RunAbortedError" });
+  });
+
+  it("stops the run instead of starting a step beyond maxSteps", async () => {
+    const run = new AgentRun({ maxSteps: 2 });
+    const third = vi.fn();
+    const error = await run
+      .execute(async () => {
+        await llmCall();
+        await run.tool("search", () => "ok");
+        await run.tool("search", third);
+      })
+      .catch((err) => err);
+    await flush();
+
+    expect(third).not.toHaveBeenCalled();
+    expect(error).toMatchObject({ name: "RunAbortedError", status: "budget_exceeded" });
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "budget_exceeded", step_count: 2 });
+  });
+
+  it("refuses further LLM calls once the run used up its steps", async () => {
+    const run = new AgentRun({ maxSteps: 1 });
+    const error = await run
+      .execute(async (signal) => {
+        await llmCall();
+        expect(signal.aborted).toBe(false);
+        checkBudgets("chat");
+      })
+      .catch((err) => err);
+
+    expect(error).toMatchObject({ status: "budget_exceeded" });
+    expect(run.signal.reason).toBe(error);
+  });
+
+  it("aborts the signal right after the call that exceeds maxCostUsd", async () => {
+    const run = new AgentRun({ maxCostUsd: 0.01 });
+    const error = await run
+      .execute(async (signal) => {
+        await llmCall(1000);
+        expect(signal.aborted).toBe(false);
+        await llmCall(10_000);
+        expect(signal.aborted).toBe(true);
+        return hang(signal);
+      })
+      .catch((err) => err);
+    await flush();
+
+    expect(error.status).toBe("budget_exceeded");
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "budget_exceeded", llm_call_count: 2 });
+  });
+
+  it("ends runs stopped by run budgets with status budget_exceeded", async () => {
+    init({ trackerApiKey: "k", projectId: "p", budgets: [{ scope: "run", maxCostUsd: 0.001 }] });
+    const run = new AgentRun();
+    await expect(
+      run.execute(async () => {
+        await llmCall(10_000);
+        checkBudgets("chat");
+      })
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    await flush();
+
+    expect(memory.payloads("run_end")[0]).toMatchObject({
+      status: "budget_exceeded",
+      error_type: "BudgetExceededError",
+    });
+  });
+
+  it("cancels runs through the signal option, cancel() and the parent run", async () => {
+    const controller = new AbortController();
+    const external = new AgentRun({ runId: "external", signal: controller.signal });
+    const pending = external.execute(hang);
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ status: "cancelled" });
+
+    const parent = new AgentRun({ runId: "parent" });
+    const child = new AgentRun({ runId: "child" });
+    const running = parent.execute(() => child.execute(hang));
+    parent.cancel();
+    await expect(running).rejects.toMatchObject({ status: "cancelled" });
+    await flush();
+
+    const statuses = Object.fromEntries(memory.payloads("run_end").map((p) => [p.run_id, p.status]));
+    expect(statuses).toEqual({ external: "cancelled", parent: "cancelled", child: "cancelled" });
+  });
+
+  it("does not call fn when the signal is already aborted", async () => {
+    const fn = vi.fn();
+    const run = new AgentRun({ signal: AbortSignal.abort() });
+    await expect(run.execute(fn)).rejects.toMatchObject({ status: "cancelled" });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("sends heartbeats while the run executes", async () => {
+    const run = new AgentRun({ runId: "run-1", heartbeatIntervalMs: 10 });
+    await run.execute(async () => {
+      await llmCall();
+      await new Promise((resolve) => setTimeout(resolve, 35));
+    });
+    await flush();
+    const count = memory.payloads("run_heartbeat").length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await flush();
+
+    expect(count).toBeGreaterThanOrEqual(2);
+    expect(memory.payloads("run_heartbeat")).toHaveLength(count);
+    expect(memory.payloads("run_heartbeat")[0]).toMatchObject({ run_id: "run-1", step_count: 1, llm_call_count: 1 });
+  });
+
+  it("does not keep the process alive for heartbeats", async () => {
+    const setIntervalSpy = vi.spyOn(globalThis, "setInterval");
+    const run = new AgentRun();
+    let release!: () => void;
+    const pending = run.execute(() => new Promise<void>((resolve) => (release = resolve)));
+
+    const call = setIntervalSpy.mock.calls.findIndex(([, delay]) => delay === 30_000);
+    const timer = setIntervalSpy.mock.results[call].value as NodeJS.Timeout;
+    setIntervalSpy.mockRestore();
+    expect(timer.hasRef()).toBe(false);
+    release();
+    await pending;
+  });
 });
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  AgentRun,
+  MemoryExporter,
+  _resetTransportForTesting,
+} from "../src/index";
+import { AgentracerCallbackHandler } from "../src/langchain";
+
+let memory: MemoryExporter;
+
+beforeEach(() => {
+  memory = new MemoryExporter();
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: [memory] });
+});
+
+afterEach(() => {
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: undefined });
+});
+
+const human = (content: string) => ({ _getType: () => "human", content });
+const system = (content: string) => ({ _getType: () => "system", content });
+
+const openaiMetadata = { ls_provider: "openai", ls_model_name: "gpt-4o-mini" };
+
+function chatOutput(text: string, usage: any, extra: any = {}) {
+  return {
+    generations: [
+      [
+        {
+          text,
+          generationInfo: { finish_reason: "stop" },
+          message: {
+            content: text,
+            usage_metadata: usage,
+            response_metadata: { model_name: "gpt-4o-mini-2024" },
+            ...extra,
+          },
+        },
+      ],
+    ],
+  };
+}
+
+describe("AgentracerCallbackHandler LLM calls", () => {
+  it("tracks chat model calls from usage_metadata", async () => {
+    const handler = new AgentracerCallbackHandler();
+
+    await featureTagStorage.run("support", async () => {
+      handler.handleChatModelStart(
+        {},
+        [[system("Be brief."), human("Hello")]],
+        "llm-1",
+        undefined,
+        { invocation_params: { temperature: 0.2, max_tokens: 64 } },
+        [],
+        openaiMetadata
+      );
+      handler.handleLLMEnd(
+        chatOutput("Hi!", { input_tokens: 11, output_tokens: 2, input_token_details: { cache_read: 4 } }),
+        "llm-1"
+      );
+    });
+
+    await flush();
+    const call = memory.payloads("call")[0];
+    expect(call).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      feature_tag: "support",
+      input_tokens: 11,
+      output_tokens: 2,
+      cached_tokens: 4,
+      finish_reason: "stop",
+      response_model: "gpt-4o-mini-2024",
+      message_count: 2,
+      max_tokens: 64,
+      temperature: 0.2,
+    });
+    expect(call.system_prompt_hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("subtracts cache tokens from Anthropic input and maps provider names", async () => {
+    const handler = new AgentracerCallbackHandler({ featureTag: "summarize" });
+
+    handler.handleChatModelStart({}, [[human("Hi")]], "llm-1", undefined, {}, [], {
+      ls_provider: "anthropic",
+      ls_model_name: "claude-3-5-haiku-latest",
+    });
+    handler.handleLLMEnd(
+      chatOutput("Hello", {
+        input_tokens: 100,
+        output_tokens: 5,
+        input_token_details: { cache_read: 60, cache_creation: 30 },
+      }),
+      "llm-1"
+    );
+    handler.handleChatModelStart({}, [[human("Hi")]], "llm-2", undefined, {}, [], {
+      ls_provider: "google_genai",
+      ls_model_name: "gemini-2.0-flash",
+    });
+    handler.handleLLMEnd(chatOutput("Hello", { input_tokens: 3, output_tokens: 1 }), "llm-2");
+
+    await flush();
+    const [anthropic, gemini] = memory.payloads("call");
+    expect(anthropic).toMatchObject({
+      provider: "anthropic",
+      feature_tag: "summarize",
+      input_tokens: 10,
+      cached_tokens: 60,
+      cache_write_tokens: 30,
+    });
+    expect(gemini).toMatchObject({ provider: "gemini", model: "gemini-2.0-flash" });
+  });
+
+  it("falls back to legacy token usage and records streaming", async () => {
+    const handler = new AgentracerCallbackHandler();
+
+    handler.handleLLMStart({}, ["Tell me a joke"], "llm-1", undefined, {
+      invocation_params: { model: "gpt-3.5-turbo-instruct" },
+    });
+    handler.handleLLMNewToken("Why", {}, "llm-1");
+    handler.handleLLMNewToken(" not", {}, "llm-1");
+    handler.handleLLMEnd(
+      { generations: [[{ text: "Why not" }]], llmOutput: { tokenUsage: { promptTokens: 4, completionTokens: 2 } } },
+      "llm-1"
+    );
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      provider: "custom",
+      model: "gpt-3.5-turbo-instruct",
+      input_tokens: 4,
+      output_tokens: 2,
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 2,
+    });
+  });
+
+  it("records failed calls", async () => {
+    const handler = new AgentracerCallbackHandler();
+
+    handler.handleChatModelStart({}, [[human("Hi")]], "llm-1", undefined, {}, [], openaiMetadata);
+    handler.handleLLMError(Object.assign(new Error("rate limited"), { status: 429 }), "llm-1");
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({
+      success: false,
+      error_category: "rate_limit",
+      http_status: 429,
+    });
+  });
+});
+
+describe("AgentracerCallbackHandler run steps", () => {
+  it("nests chains, tools, retrievers and LLM calls the way LangChain ran them", async () => {
+    const handler = new AgentracerCallbackHandler();
+    const run = new AgentRun({ runName: "agent", featureTag: "agent" });
+
+    await run.execute(async () => {
+      handler.handleChainStart({ id: ["langchain", "agents", "AgentExecutor"] }, {}, "chain-1");
+      handler.handleChainStart({}, {}, "prompt-1", "chain-1", [], {}, "prompt", "ChatPromptTemplate");
+      handler.handleChainEnd({}, "prompt-1");
+      handler.handleRetrieverStart({}, "query", "retriever-1", "chain-1", [], {}, "docs");
+      handler.handleRetrieverEnd([], "retriever-1");
+      handler.handleChatModelStart({}, [[human("Hi")]], "llm-1", "chain-1", {}, [], openaiMetadata);
+      handler.handleLLMEnd(chatOutput("", { input_tokens: 5, output_tokens: 1 }), "llm-1");
+      handler.handleToolStart({ name: "search" }, "weather", "tool-1", "chain-1");
+      handler.handleToolEnd("sunny", "tool-1");
+      handler.handleChainEnd({}, "chain-1");
+    });
+
+    await flush();
+    const steps = memory.payloads("run_step");
+    const chain = steps.find((step) => step.step_name === "AgentExecutor");
+    expect(chain).toMatchObject({ run_id: run.runId, step_type: "custom", parent_step_id: null, success: true });
+    expect(steps.some((step) => step.step_name === "ChatPromptTemplate")).toBe(false);
+
+    const children = steps
+      .filter((step) => step.parent_step_id === chain.step_id)
+      .sort((a, b) => a.step_index - b.step_index);
+    expect(children.map((step) => [step.step_type, step.step_name ?? step.model])).toEqual([
+      ["retrieval", "docs"],
+      ["llm_call", "gpt-4o-mini"],
+      ["tool", "search"],
+    ]);
+    expect(memory.payloads("call")[0].run_id).toBe(run.runId);
+  });
+
+  it("records tool errors as failed steps", async () => {
+    const handler = new AgentracerCallbackHandler();
+    const run = new AgentRun({ runName: "agent" });
+
+    await run.execute(async () => {
+      handler.handleToolStart({ name: "search" }, "weather", "tool-1");
+      handler.handleToolError(new TypeError("bad input"), "tool-1");
+    });
+
+    await flush();
+    expect(memory.payloads("run_step")[0]).toMatchObject({
+      step_type: "tool",
+      step_name: "search",
+      success: false,
+      error_type: "TypeError",
+    });
+  });
+
+  it("records steps into an explicit run outside of execute", async () => {
+    const run = new AgentRun({ runName: "agent" });
+    const handler = new AgentracerCallbackHandler({ run, chains: false });
+
+    handler.handleChainStart({ name: "RunnableSequence" }, {}, "chain-1");
+    handler.handleToolStart({ name: "search" }, "weather", "tool-1", "chain-1");
+    handler.handleToolEnd("sunny", "tool-1");
+    handler.handleChainEnd({}, "chain-1");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await flush();
+    const steps = memory.payloads("run_step");
+    expect(steps).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ run_id: run.runId, step_name: "search", parent_step_id: null });
+  });
+
+  it("counts calls towards the totals of an explicit run outside of execute", async () => {
+    const run = new AgentRun({ runName: "agent", featureTag: "agent" });
+    const handler = new AgentracerCallbackHandler({ run });
+
+    handler.handleChatModelStart({}, [[human("Hi")]], "llm-1", undefined, {}, [], openaiMetadata);
+    handler.handleLLMEnd(chatOutput("Hello", { input_tokens: 10, output_tokens: 5 }), "llm-1");
+    await run.execute(async () => {});
+
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({ run_id: run.runId, feature_tag: "agent" });
+    expect(memory.payloads("run_end")[0]).toMatchObject({ llm_call_count: 1, input_tokens: 10, output_tokens: 5 });
+  });
+
+  it("records no steps outside a run", async () => {
+    const handler = new AgentracerCallbackHandler();
+
+    handler.handleToolStart({ name: "search" }, "weather", "tool-1");
+    handler.handleToolEnd("sunny", "tool-1");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await flush();
+    expect(memory.payloads("run_step")).toHaveLength(0);
+  });
+});
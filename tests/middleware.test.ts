@@ -0,0 +1,341 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { init, flush, track, getTotals, MemoryExporter, _resetTransportForTesting } from "../src/index";
+import { agentracerExpress, agentracerFastify, agentracerHono, withAgentracer } from "../src/middleware";
+
+let memory: MemoryExporter;
+
+beforeEach(() => {
+  memory = new MemoryExporter();
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: [memory] });
+});
+
+afterEach(() => {
+  init({ trackerApiKey: "key", projectId: "proj-1", exporters: undefined });
+});
+
+// gpt-4o-mini: 1000 in / 500 out costs $0.00045
+const llmCall = () =>
+  track({ model: "gpt-4o-mini", provider: "openai", inputTokens: 1000, outputTokens: 500, latencyMs: 20 });
+
+describe("getTotals", () => {
+  it("is undefined outside a request", () => {
+    expect(getTotals()).toBeUndefined();
+  });
+});
+
+describe("agentracerExpress", () => {
+  let server: http.Server;
+
+  /** A server that routes like Express: middleware first, then the matched route */
+  async function listen(
+    middleware: ReturnType<typeof agentracerExpress>,
+    handler: (req: any, res: http.ServerResponse) => Promise<void>,
+    route = { path: "/chats/:id" }
+  ): Promise<string> {
+    server = http.createServer((req: any, res) => {
+      req.baseUrl = "/api";
+      middleware(req, res, () => {
+        req.route = route;
+        handler(req, res).catch(() => {
+          res.statusCode = 500;
+          res.end();
+        });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("attributes calls to the route and sends the totals as headers", async () => {
+    const middleware = agentracerExpress({ context: (req) => ({ endUserId: req.headers["x-user"] }) });
+    const url = await listen(middleware, async (req, res) => {
+      await llmCall();
+      await llmCall();
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify({ totals: getTotals(), scoped: req.agentracer.totals === getTotals() }));
+    });
+
+    const response = await fetch(`${url}/api/chats/42`, { method: "POST", headers: { "x-user": "user-1" } });
+
+    expect(await response.json()).toMatchObject({ totals: { callCount: 2, inputTokens: 2000 }, scoped: true });
+    expect(response.headers.get("x-agentracer-llm-calls")).toBe("2");
+    expect(response.headers.get("x-agentracer-input-tokens")).toBe("2000");
+    expect(response.headers.get("x-agentracer-output-tokens")).toBe("1000");
+    expect(response.headers.get("x-agentracer-cost-usd")).toBe("0.000900");
+    await flush();
+    expect(memory.payloads("call")).toHaveLength(2);
+    expect(memory.payloads("call")[0]).toMatchObject({
+      feature_tag: "POST /api/chats/:id",
+      end_user_id: "user-1",
+    });
+  });
+
+  it("keeps requests apart", async () => {
+    const url = await listen(agentracerExpress({ featureTag: "chat" }), async (req, res) => {
+      const calls = Number(req.headers["x-calls"]);
+      for (let i = 0; i < calls; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await llmCall();
+      }
+      res.end();
+    });
+
+    const [one, three] = await Promise.all([
+      fetch(url, { headers: { "x-calls": "1" } }),
+      fetch(url, { headers: { "x-calls": "3" } }),
+    ]);
+
+    expect(one.headers.get("x-agentracer-llm-calls")).toBe("1");
+    expect(three.headers.get("x-agentracer-llm-calls")).toBe("3");
+    await flush();
+    expect(memory.payloads("call").every((call) => call.feature_tag === "chat")).toBe(true);
+  });
+
+  it("records each request as a run and fails runs of 5xx responses", async () => {
+    const url = await listen(agentracerExpress({ run: true, featureTag: "chat" }), async (req, res) => {
+      await llmCall();
+      if (req.headers["x-fail"]) throw new Error("boom");
+      res.end();
+    });
+
+    const ok = await fetch(url);
+    await fetch(url, { headers: { "x-fail": "1" } });
+
+    await vi.waitFor(async () => {
+      await flush();
+      expect(memory.payloads("run_end")).toHaveLength(2);
+    });
+    const runId = ok.headers.get("x-agentracer-run-id");
+    const [completed, failed] = memory.payloads("run_end");
+    expect(completed).toMatchObject({ run_id: runId, status: "completed" });
+    expect(failed).toMatchObject({ status: "failed", error_type: "HttpError" });
+    expect(memory.payloads("run_start")[0]).toMatchObject({ run_id: runId, feature_tag: "chat" });
+    expect(memory.payloads("call")[0].run_id).toBe(runId);
+  });
+
+  it("tags the calls of request runs with the route matched after the middleware", async () => {
+    const url = await listen(agentracerExpress({ run: true }), async (_req, res) => {
+      await llmCall();
+      res.end();
+    });
+
+    await fetch(`${url}/api/chats/42`, { method: "POST" });
+
+    await vi.waitFor(async () => {
+      await flush();
+      expect(memory.payloads("run_end")).toHaveLength(1);
+    });
+    expect(memory.payloads("call")[0]).toMatchObject({ feature_tag: "POST /api/chats/:id" });
+    expect(memory.payloads("run_end")[0]).toMatchObject({
+      status: "completed",
+      run_name: "POST /api/chats/:id",
+      feature_tag: "POST /api/chats/:id",
+    });
+  });
+
+  it("omits headers when disabled and survives a failing context extractor", async () => {
+    const middleware = agentracerExpress({
+      headers: false,
+      context: () => {
+        throw new Error("no session");
+      },
+    });
+    const url = await listen(middleware, async (_req, res) => {
+      await llmCall();
+      res.end("ok");
+    });
+
+    const response = await fetch(url);
+
+    expect(await response.text()).toBe("ok");
+    expect(response.headers.get("x-agentracer-llm-calls")).toBeNull();
+  });
+});
+
+describe("agentracerFastify", () => {
+  function fakeFastify() {
+    const hooks: Record<string, (...args: any[]) => void> = {};
+    const fastify = {
+      decorateRequest: vi.fn(),
+      addHook: (name: string, hook: (...args: any[]) => void) => {
+        hooks[name] = hook;
+      },
+    };
+    return { fastify, hooks };
+  }
+
+  /** Runs one request through the hooks the way Fastify does */
+  function inject(
+    hooks: Record<string, (...args: any[]) => void>,
+    request: any,
+    reply: any,
+    handler: () => Promise<void>
+  ) {
+    return new Promise<void>((resolve) => {
+      hooks.onRequest(request, reply, () => {
+        hooks.preValidation(request, reply, async () => {
+          try {
+            await handler();
+          } catch (error) {
+            reply.statusCode = 500;
+            await new Promise((done) => hooks.onError(request, reply, error, done));
+          }
+          hooks.onSend(request, reply, "{}", () => hooks.onResponse(request, reply, resolve));
+        });
+      });
+    });
+  }
+
+  it("registers as a global plugin and tracks each request", async () => {
+    const { fastify, hooks } = fakeFastify();
+    const plugin = agentracerFastify({ run: true, context: (request) => ({ sessionId: request.headers.session }) });
+    const done = vi.fn();
+    plugin(fastify, {}, done);
+
+    expect((plugin as any)[Symbol.for("skip-override")]).toBe(true);
+    expect(fastify.decorateRequest).toHaveBeenCalledWith("agentracer", null);
+    expect(done).toHaveBeenCalled();
+
+    const request: any = { method: "POST", routeOptions: { url: "/chats/:id" }, headers: { session: "s-1" } };
+    const reply = { statusCode: 200, header: vi.fn() };
+    await inject(hooks, request, reply, async () => {
+      await llmCall();
+      expect(getTotals()).toBe(request.agentracer.totals);
+    });
+
+    expect(reply.header).toHaveBeenCalledWith("x-agentracer-llm-calls", "1");
+    expect(reply.header).toHaveBeenCalledWith("x-agentracer-run-id", request.agentracer.run.runId);
+    await vi.waitFor(async () => {
+      await flush();
+      expect(memory.payloads("run_end")).toHaveLength(1);
+    });
+    expect(memory.payloads("call")[0]).toMatchObject({ feature_tag: "POST /chats/:id", session_id: "s-1" });
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "completed" });
+  });
+
+  it("fails the run with the handler's error", async () => {
+    const { fastify, hooks } = fakeFastify();
+    agentracerFastify({ run: true })(fastify, {}, () => {});
+
+    const request: any = { method: "GET", routerPath: "/report", headers: {} };
+    await inject(hooks, request, { statusCode: 200, header: vi.fn() }, async () => {
+      throw new RangeError("bad report");
+    });
+
+    await vi.waitFor(async () => {
+      await flush();
+      expect(memory.payloads("run_end")).toHaveLength(1);
+    });
+    expect(memory.payloads("run_start")[0]).toMatchObject({ feature_tag: "GET /report" });
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "failed", error_type: "RangeError" });
+  });
+});
+
+describe("agentracerHono", () => {
+  function fakeContext() {
+    const vars = new Map<string, unknown>();
+    return {
+      req: {
+        method: "POST",
+        matchedRoutes: [
+          { path: "/*", method: "ALL" },
+          { path: "/chats/:id", method: "POST" },
+        ],
+      },
+      res: new Response(null),
+      error: undefined as unknown,
+      set: (key: string, value: unknown) => vars.set(key, value),
+      get: (key: string) => vars.get(key),
+      header(name: string, value: string) {
+        this.res.headers.set(name, value);
+      },
+    };
+  }
+
+  it("tags calls with the handler's route and sets headers", async () => {
+    const c = fakeContext();
+
+    await agentracerHono({ context: () => ({ tenantId: "acme" }) })(c, async () => {
+      await llmCall();
+      c.res = Response.json({ calls: (c.get("agentracer") as any).totals.callCount });
+    });
+
+    expect(await c.res.json()).toEqual({ calls: 1 });
+    expect(c.res.headers.get("x-agentracer-llm-calls")).toBe("1");
+    await flush();
+    expect(memory.payloads("call")[0]).toMatchObject({ feature_tag: "POST /chats/:id", tenant_id: "acme" });
+  });
+
+  it("marks runs failed when Hono caught a handler error", async () => {
+    const c = fakeContext();
+
+    await agentracerHono({ run: true })(c, async () => {
+      c.error = new TypeError("oops");
+      c.res = new Response("Internal Server Error", { status: 500 });
+    });
+
+    await vi.waitFor(async () => {
+      await flush();
+      expect(memory.payloads("run_end")).toHaveLength(1);
+    });
+    expect(memory.payloads("run_end")[0]).toMatchObject({ status: "failed", error_type: "TypeError" });
+  });
+});
+
+describe("withAgentracer", () => {
+  it("rebuilds the route from params and adds headers", async () => {
+    const handler = withAgentracer(async () => {
+      await llmCall();
+      return Response.json(getTotals());
+    });
+
+    const response = await handler(new Request("http://localhost/api/chats/42/messages", { method: "POST" }), {
+      params: Promise.resolve({ id: "42" }),
+    });
+
+    expect(await response.json()).toMatchObject({ callCount: 1, outputTokens: 500 });
+    expect(response.headers.get("x-agentracer-cost-usd")).toBe("0.000450");
+    await flush();
+    expect(memory.payloads("call")[0].feature_tag).toBe("POST /api/chats/[id]/messages");
+  });
+
+  it("names catch-all segments", async () => {
+    const handler = withAgentracer(async () => {
+      await llmCall();
+      return new Response("ok");
+    });
+
+    await handler(new Request("http://localhost/docs/a/b"), { params: { slug: ["a", "b"] } });
+
+    await flush();
+    expect(memory.payloads("call")[0].feature_tag).toBe("GET /docs/[...slug]");
+  });
+
+  it("copies responses with immutable headers", async () => {
+    const handler = withAgentracer(async () => Response.redirect("http://localhost/login", 307), {
+      featureTag: "login",
+    });
+
+    const response = await handler(new Request("http://localhost/"), {});
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("http://localhost/login");
+    expect(response.headers.get("x-agentracer-llm-calls")).toBe("0");
+  });
+
+  it("rethrows handler errors", async () => {
+    const error = new Error("boom");
+    const handler = withAgentracer(async () => {
+      throw error;
+    });
+
+    await expect(handler(new Request("http://localhost/"), {})).rejects.toBe(error);
+  });
+});
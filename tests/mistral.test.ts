@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
+import { mistral, _setClientForTesting } from "../src/mistral";
+
+const mockComplete = vi.fn();
+const mockStream = vi.fn();
+const mockEmbed = vi.fn();
+
+let telemetryPayloads: any[];
+
+beforeEach(() => {
+  telemetryPayloads = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockImplementation(async (_url: string, options: any) => {
+      for (const event of JSON.parse(options.body).events) {
+        if (event.type === "call") telemetryPayloads.push(event.payload);
+      }
+      return { ok: true };
+    })
+  );
+  _resetTransportForTesting();
+  init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
+  mockComplete.mockReset();
+  mockStream.mockReset();
+  mockEmbed.mockReset();
+  _setClientForTesting({
+    chat: { complete: mockComplete, stream: mockStream },
+    embeddings: { create: mockEmbed },
+    models: { list: () => "models" },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function streamOf(events: any[]) {
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield* events;
+    },
+  };
+}
+
+describe("mistral chat.complete", () => {
+  it("tracks usage, request shape and outcome", async () => {
+    mockComplete.mockResolvedValue({
+      model: "mistral-small-2409",
+      choices: [{ message: { content: "Bonjour", toolCalls: [{ id: "t1" }] }, finishReason: "tool_calls" }],
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+    });
+
+    const response = await mistral.chat.complete({
+      model: "mistral-small-latest",
+      messages: [{ role: "user", content: "Say hello" }],
+      maxTokens: 50,
+      temperature: 0.2,
+      feature_tag: "greeter",
+    });
+
+    expect(response.choices[0].message.content).toBe("Bonjour");
+    expect(mockComplete.mock.calls[0][0]).not.toHaveProperty("feature_tag");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "mistral",
+      operation: "chat",
+      model: "mistral-small-latest",
+      feature_tag: "greeter",
+      input_tokens: 12,
+      output_tokens: 3,
+      finish_reason: "tool_calls",
+      tool_call_count: 1,
+      response_model: "mistral-small-2409",
+      message_count: 1,
+      max_tokens: 50,
+      temperature: 0.2,
+    });
+    expect(telemetryPayloads[0].cost_usd).toBeGreaterThan(0);
+  });
+
+  it("uses the feature tag from context", async () => {
+    mockComplete.mockResolvedValue({ choices: [], usage: { promptTokens: 1, completionTokens: 1 } });
+
+    await featureTagStorage.run("search", () =>
+      mistral.chat.complete({ model: "mistral-large-latest", messages: [] })
+    );
+
+    await flush();
+    expect(telemetryPayloads[0].feature_tag).toBe("search");
+  });
+
+  it("classifies failed calls and rethrows", async () => {
+    class SDKError extends Error {
+      statusCode = 429;
+    }
+    mockComplete.mockRejectedValue(new SDKError("Requests rate limit exceeded"));
+
+    await expect(mistral.chat.complete({ model: "mistral-large-latest", messages: [] })).rejects.toThrow(
+      "rate limit"
+    );
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "mistral",
+      success: false,
+      error_type: "SDKError",
+      error_category: "rate_limit",
+      http_status: 429,
+    });
+  });
+});
+
+describe("mistral chat.stream", () => {
+  it("tracks usage from the last chunk", async () => {
+    mockStream.mockResolvedValue(
+      streamOf([
+        { data: { model: "mistral-small-2409", choices: [{ delta: { content: "Bon" } }] } },
+        { data: { choices: [{ delta: { content: "jour" }, finishReason: "stop" }] } },
+        { data: { choices: [], usage: { promptTokens: 8, completionTokens: 2 } } },
+      ])
+    );
+
+    const stream = await mistral.chat.stream({ model: "mistral-small-latest", messages: [] });
+    const text: string[] = [];
+    for await (const event of stream) text.push(event.data.choices[0]?.delta.content ?? "");
+
+    expect(text.join("")).toBe("Bonjour");
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "mistral",
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 3,
+      input_tokens: 8,
+      output_tokens: 2,
+      finish_reason: "stop",
+    });
+    expect(telemetryPayloads[0].ttft_ms).not.toBeNull();
+  });
+
+  it("records mid-stream errors", async () => {
+    mockStream.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { data: { choices: [{ delta: { content: "Bon" } }] } };
+        throw new Error("connection reset");
+      },
+    });
+
+    const stream = await mistral.chat.stream({ model: "mistral-small-latest", messages: [] });
+    await expect(async () => {
+      for await (const _ of stream) {
+      }
+    }).rejects.toThrow("connection reset");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ success: false, stream_status: "errored" });
+  });
+
+  it("estimates streams that end before the usage chunk", async () => {
+    mockStream.mockResolvedValue(streamOf([{ data: { choices: [{ delta: { content: "Bonjour" } }] } }]));
+
+    const stream = await mistral.chat.stream({
+      model: "mistral-small-latest",
+      messages: [{ role: "user", content: "Say hello" }],
+    });
+    for await (const _ of stream) {
+    }
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 3, output_tokens: 2, estimated: true });
+  });
+});
+
+describe("mistral embeddings and passthrough", () => {
+  it("tracks embeddings.create", async () => {
+    mockEmbed.mockResolvedValue({ data: [], usage: { promptTokens: 20, totalTokens: 20 } });
+
+    await mistral.embeddings.create({ model: "mistral-embed", inputs: ["a", "b"] });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      provider: "mistral",
+      operation: "embeddings",
+      model: "mistral-embed",
+      input_tokens: 20,
+      output_tokens: 0,
+    });
+  });
+
+  it("passes untracked resources through to the client", () => {
+    expect(mistral.models.list()).toBe("models");
+  });
+});
+
+describe("mistral budgets", () => {
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [] });
+    _resetBudgetsForTesting();
+  });
+
+  it("blocks calls once a budget is exhausted", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "global", maxTokens: 10 }] });
+    mockComplete.mockResolvedValue({ choices: [], usage: { promptTokens: 8, completionTokens: 4 } });
+
+    await mistral.chat.complete({ model: "mistral-small-latest", messages: [] });
+    await expect(mistral.chat.complete({ model: "mistral-small-latest", messages: [] })).rejects.toBeInstanceOf(
+      BudgetExceededError
+    );
+    expect(mockComplete).toHaveBeenCalledTimes(1);
+  });
+});
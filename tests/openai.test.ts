@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { init, featureTagStorage } from "../src/index";
-import { openai, _setClientForTesting } from "../src/openai";
+import {
+  init,
+  flush,
+  featureTagStorage,
+  withContext,
+  promptFingerprint,
+  BudgetExceededError,
+  _resetTransportForTesting,
+  _resetBudgetsForTesting,
+} from "../src/index";
+import { openai, openaiCompatible, _setClientForTesting } from "../src/openai";
 
 const mockCreate = vi.fn();
 
@@ -10,10 +19,13 @@ let telemetryPayloads: any[];
 beforeEach(() => {
   telemetryPayloads = [];
   fetchSpy = vi.fn().mockImplementation(async (_url: string, options: any) => {
-    telemetryPayloads.push(JSON.parse(options.body));
+    for (const event of JSON.parse(options.body).events) {
+      if (event.type === "call") telemetryPayloads.push(event.payload);
+    }
     return { ok: true };
   });
   vi.stubGlobal("fetch", fetchSpy);
+  _resetTransportForTesting();
   init({ trackerApiKey: "key", projectId: "proj-1", enabled: true });
   mockCreate.mockReset();
   _setClientForTesting({ chat: { completions: { create: mockCreate } } });
@@ -36,7 +48,7 @@ describe("openai non-streaming", () => {
     });
 
     expect(response.usage.prompt_tokens).toBe(10);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "openai",
@@ -61,7 +73,7 @@ describe("openai non-streaming", () => {
       });
     });
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0].feature_tag).toBe("search-feature");
   });
 
@@ -79,7 +91,7 @@ describe("openai non-streaming", () => {
       });
     });
 
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads[0].feature_tag).toBe("explicit-tag");
   });
 
@@ -97,6 +109,28 @@ describe("openai non-streaming", () => {
     expect(forwardedParams.model).toBe("gpt-4");
   });
 
+  it("attaches and strips the agentracer context param", async () => {
+    mockCreate.mockResolvedValue({ choices: [], usage: { prompt_tokens: 1, completion_tokens: 1 } });
+
+    await withContext({ featureTag: "chat", tenantId: "acme" }, () =>
+      openai.chat.completions.create({
+        model: "gpt-4",
+        messages: [],
+        agentracer: { endUserId: "u1", sessionId: "s1", metadata: { plan: "pro" } },
+      })
+    );
+
+    await flush();
+    expect(mockCreate.mock.calls[0][0]).not.toHaveProperty("agentracer");
+    expect(telemetryPayloads[0]).toMatchObject({
+      feature_tag: "chat",
+      end_user_id: "u1",
+      session_id: "s1",
+      tenant_id: "acme",
+      metadata: { plan: "pro" },
+    });
+  });
+
   it("does not throw when telemetry fails", async () => {
     fetchSpy.mockRejectedValue(new Error("network down"));
     mockCreate.mockResolvedValue({ choices: [], usage: { prompt_tokens: 0, completion_tokens: 0 } });
@@ -136,7 +170,7 @@ describe("openai streaming", () => {
     }
 
     expect(received).toHaveLength(3);
-    await new Promise((r) => setTimeout(r, 10));
+    await flush();
     expect(telemetryPayloads).toHaveLength(1);
     expect(telemetryPayloads[0]).toMatchObject({
       provider: "openai",
@@ -185,3 +219,653 @@ describe("openai streaming", () => {
     expect(forwardedParams.stream_options).toEqual({ some_other: true, include_usage: true });
   });
 });
+
+describe("openai stream lifecycle", () => {
+  const chunks = [
+    { choices: [{ delta: { role: "assistant" } }], usage: null },
+    { choices: [{ delta: { content: "hel" } }], usage: null },
+    { choices: [{ delta: { content: "lo" } }], usage: null },
+    { choices: [], usage: { prompt_tokens: 15, completion_tokens: 25 } },
+  ];
+
+  it("records time to first token, duration and chunk count", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        for (const chunk of chunks) yield chunk;
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ model: "gpt-4", messages: [], stream: true });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream: true,
+      stream_status: "completed",
+      chunk_count: 4,
+      success: true,
+    });
+    expect(telemetryPayloads[0].ttft_ms).toBeGreaterThanOrEqual(0);
+    expect(telemetryPayloads[0].stream_duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("records aborted streams when the consumer breaks early", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        for (const chunk of chunks) yield chunk;
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ model: "gpt-4", messages: [], stream: true });
+    for await (const _ of stream) break;
+
+    await flush();
+    expect(telemetryPayloads).toHaveLength(1);
+    expect(telemetryPayloads[0]).toMatchObject({ stream_status: "aborted", chunk_count: 1, success: true });
+  });
+
+  it("records mid-stream errors as failed calls", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield chunks[1];
+        throw new TypeError("terminated");
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ model: "gpt-4", messages: [], stream: true });
+    await expect(async () => {
+      for await (const _ of stream) {}
+    }).rejects.toThrow("terminated");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "errored",
+      chunk_count: 1,
+      success: false,
+      error_type: "TypeError",
+    });
+  });
+
+  it("records failures to open the stream", async () => {
+    class APIConnectionError extends Error {}
+    mockCreate.mockRejectedValue(new APIConnectionError("refused"));
+
+    await expect(
+      openai.chat.completions.create({ model: "gpt-4", messages: [], stream: true })
+    ).rejects.toThrow("refused");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream: true,
+      stream_status: "errored",
+      success: false,
+      error_type: "APIConnectionError",
+    });
+  });
+});
+
+describe("openai usage breakdown", () => {
+  const usage = {
+    prompt_tokens: 100,
+    completion_tokens: 80,
+    prompt_tokens_details: { cached_tokens: 20, audio_tokens: 30 },
+    completion_tokens_details: { reasoning_tokens: 64, audio_tokens: 0 },
+  };
+  const breakdown = {
+    cached_tokens: 20,
+    reasoning_tokens: 64,
+    audio_input_tokens: 30,
+    audio_output_tokens: 0,
+  };
+
+  it("records reasoning and audio tokens", async () => {
+    mockCreate.mockResolvedValue({ choices: [], usage });
+
+    await openai.chat.completions.create({ model: "o4-mini", messages: [] });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 100, output_tokens: 80, ...breakdown });
+  });
+
+  it("records the breakdown from the final stream chunk", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: "hi" } }] };
+        yield { choices: [], usage };
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ model: "o4-mini", messages: [], stream: true });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject(breakdown);
+  });
+});
+
+describe("openai request shape", () => {
+  const params = {
+    model: "gpt-4o",
+    messages: [{ role: "system", content: "s" }, { role: "user", content: "u" }],
+    tools: [{ type: "function", function: { name: "lookup" } }],
+    max_completion_tokens: 500,
+    temperature: 0.2,
+  };
+
+  it("records request params, finish reason, tool calls and the response model", async () => {
+    mockCreate.mockResolvedValue({
+      model: "gpt-4o-2024-08-06",
+      choices: [{ finish_reason: "tool_calls", message: { tool_calls: [{ id: "a" }, { id: "b" }] } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    });
+
+    await openai.chat.completions.create(params);
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      model: "gpt-4o",
+      response_model: "gpt-4o-2024-08-06",
+      finish_reason: "tool_calls",
+      tool_call_count: 2,
+      message_count: 2,
+      tool_count: 1,
+      max_tokens: 500,
+      temperature: 0.2,
+    });
+  });
+
+  it("collects the shape from stream chunks", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { model: "gpt-4o-2024-08-06", choices: [{ delta: { tool_calls: [{ index: 0, id: "a" }] } }] };
+        yield { model: "gpt-4o-2024-08-06", choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "{}" } }] } }] };
+        yield { model: "gpt-4o-2024-08-06", choices: [{ delta: {}, finish_reason: "tool_calls" }] };
+        yield { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } };
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ ...params, stream: true });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      response_model: "gpt-4o-2024-08-06",
+      finish_reason: "tool_calls",
+      tool_call_count: 1,
+      message_count: 2,
+      max_tokens: 500,
+    });
+  });
+
+  it("records a content-free prompt fingerprint", async () => {
+    mockCreate.mockResolvedValue({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } });
+
+    await openai.chat.completions.create(params);
+
+    await flush();
+    const expected = promptFingerprint(
+      [{ role: "system", content: "s" }, { role: "user", content: "u" }],
+      params.tools
+    );
+    expect(telemetryPayloads[0]).toMatchObject({
+      system_prompt_hash: expected.systemPromptHash,
+      tool_schema_hash: expected.toolSchemaHash,
+      role_tokens: { system: 1, user: 1 },
+    });
+    expect(telemetryPayloads[0]).not.toHaveProperty("input_messages");
+  });
+
+  it("records the request shape of failed calls", async () => {
+    mockCreate.mockRejectedValue(new Error("context_length_exceeded"));
+
+    await expect(openai.chat.completions.create(params)).rejects.toThrow();
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ success: false, message_count: 2, tool_count: 1 });
+  });
+});
+
+describe("openai errors and rate limits", () => {
+  it("classifies failed calls", async () => {
+    class RateLimitError extends Error {
+      status = 429;
+      headers = { "x-request-id": "req_123", "x-ratelimit-remaining-requests": "0" };
+    }
+    mockCreate.mockRejectedValue(new RateLimitError("slow down"));
+
+    await expect(openai.chat.completions.create({ model: "gpt-4o", messages: [] })).rejects.toThrow("slow down");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      success: false,
+      error_type: "RateLimitError",
+      error_category: "rate_limit",
+      http_status: 429,
+      request_id: "req_123",
+      retryable: true,
+      ratelimit_remaining_requests: 0,
+    });
+  });
+
+  it("records rate-limit headers of successful calls", async () => {
+    const response = { choices: [], usage: { prompt_tokens: 1, completion_tokens: 1 } };
+    mockCreate.mockReturnValue(
+      Object.assign(Promise.resolve(response), {
+        withResponse: async () => ({
+          data: response,
+          response: {
+            headers: new Headers({
+              "x-request-id": "req_ok",
+              "x-ratelimit-remaining-requests": "499",
+              "x-ratelimit-remaining-tokens": "29000",
+            }),
+          },
+        }),
+      })
+    );
+
+    const result = await openai.chat.completions.create({ model: "gpt-4o", messages: [] });
+
+    expect(result).toBe(response);
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      success: true,
+      request_id: "req_ok",
+      ratelimit_remaining_requests: 499,
+      ratelimit_remaining_tokens: 29000,
+    });
+  });
+});
+
+describe("openai endpoints", () => {
+  const responsesCreate = vi.fn();
+  const embeddingsCreate = vi.fn();
+  const imagesGenerate = vi.fn();
+  const transcriptionsCreate = vi.fn();
+  const moderationsCreate = vi.fn();
+  const modelsList = vi.fn();
+  const completionsParse = vi.fn();
+
+  beforeEach(() => {
+    for (const fn of [responsesCreate, embeddingsCreate, imagesGenerate, transcriptionsCreate, moderationsCreate, modelsList, completionsParse]) {
+      fn.mockReset();
+    }
+    _setClientForTesting({
+      chat: { completions: { create: mockCreate, parse: completionsParse } },
+      responses: { create: responsesCreate },
+      embeddings: { create: embeddingsCreate },
+      images: { generate: imagesGenerate },
+      audio: { transcriptions: { create: transcriptionsCreate } },
+      moderations: { create: moderationsCreate },
+      models: { list: modelsList },
+    });
+  });
+
+  it("tracks responses.create", async () => {
+    responsesCreate.mockResolvedValue({
+      model: "gpt-4.1-2025-04-14",
+      status: "completed",
+      output: [{ type: "message" }, { type: "function_call" }],
+      usage: {
+        input_tokens: 30,
+        output_tokens: 12,
+        input_tokens_details: { cached_tokens: 10 },
+        output_tokens_details: { reasoning_tokens: 8 },
+      },
+    });
+
+    await openai.responses.create({ model: "gpt-4.1", input: "hi", max_output_tokens: 100, feature_tag: "assistant" });
+
+    expect(responsesCreate.mock.calls[0][0].feature_tag).toBeUndefined();
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "responses",
+      model: "gpt-4.1",
+      feature_tag: "assistant",
+      input_tokens: 30,
+      output_tokens: 12,
+      cached_tokens: 10,
+      reasoning_tokens: 8,
+      response_model: "gpt-4.1-2025-04-14",
+      finish_reason: "completed",
+      tool_call_count: 1,
+      message_count: 1,
+      max_tokens: 100,
+    });
+  });
+
+  it("tracks streamed responses.create from the completed event", async () => {
+    responsesCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { type: "response.created", response: { usage: null } };
+        yield { type: "response.output_text.delta", delta: "hi" };
+        yield { type: "response.completed", response: { usage: { input_tokens: 8, output_tokens: 3 } } };
+      },
+    });
+
+    const stream = await openai.responses.create({ model: "gpt-4.1", input: "hi", stream: true });
+    for await (const _ of stream) {}
+
+    expect(responsesCreate.mock.calls[0][0].stream_options).toBeUndefined();
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "responses",
+      input_tokens: 8,
+      output_tokens: 3,
+      stream_status: "completed",
+      chunk_count: 3,
+    });
+  });
+
+  it("tracks embeddings.create", async () => {
+    embeddingsCreate.mockResolvedValue({ data: [], usage: { prompt_tokens: 42, total_tokens: 42 } });
+
+    await openai.embeddings.create({ model: "text-embedding-3-small", input: ["a", "b"] });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "embeddings",
+      model: "text-embedding-3-small",
+      input_tokens: 42,
+      output_tokens: 0,
+    });
+  });
+
+  it("tracks images.generate", async () => {
+    imagesGenerate.mockResolvedValue({
+      data: [{ b64_json: "" }, { b64_json: "" }],
+      usage: { input_tokens: 50, output_tokens: 4160 },
+    });
+
+    await openai.images.generate({ model: "gpt-image-1", prompt: "a cat", n: 2 });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "images",
+      input_tokens: 50,
+      output_tokens: 4160,
+      image_count: 2,
+    });
+  });
+
+  it("tracks audio.transcriptions.create", async () => {
+    transcriptionsCreate.mockResolvedValue({ text: "hello", usage: { type: "duration", seconds: 14 } });
+
+    await openai.audio.transcriptions.create({ model: "whisper-1", file: {} });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "audio.transcriptions",
+      model: "whisper-1",
+      audio_seconds: 14,
+    });
+  });
+
+  it("tracks moderations.create with a default model", async () => {
+    moderationsCreate.mockResolvedValue({ results: [] });
+
+    await openai.moderations.create({ input: "text" });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      operation: "moderations",
+      model: "omni-moderation-latest",
+      cost_usd: 0,
+    });
+  });
+
+  it("forwards request options to the SDK", async () => {
+    embeddingsCreate.mockResolvedValue({ data: [], usage: { prompt_tokens: 1 } });
+    const requestOptions = { timeout: 1000 };
+
+    await openai.embeddings.create({ model: "text-embedding-3-small", input: "a" }, requestOptions);
+
+    expect(embeddingsCreate.mock.calls[0][1]).toBe(requestOptions);
+  });
+
+  it("passes untracked methods and resources through to the client", async () => {
+    modelsList.mockResolvedValue({ data: [] });
+    completionsParse.mockResolvedValue({ choices: [] });
+
+    await openai.models.list();
+    await openai.chat.completions.parse({ model: "gpt-4o", messages: [] });
+
+    expect(modelsList).toHaveBeenCalledOnce();
+    expect(completionsParse).toHaveBeenCalledOnce();
+    await flush();
+    expect(telemetryPayloads).toHaveLength(0);
+  });
+});
+
+describe("openaiCompatible", () => {
+  it("records the given provider for chat calls and streams", async () => {
+    const create = vi.fn();
+    const groq = openaiCompatible({
+      baseURL: "https://api.groq.com/openai/v1",
+      provider: "groq",
+      client: { chat: { completions: { create } } },
+    });
+
+    create.mockResolvedValueOnce({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } });
+    await groq.chat.completions.create({ model: "llama-3.3-70b-versatile", messages: [], feature_tag: "fast" });
+
+    create.mockResolvedValueOnce({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: "hi" } }] };
+        yield { choices: [], usage: { prompt_tokens: 3, completion_tokens: 1 } };
+      },
+    });
+    const stream = await groq.chat.completions.create({ model: "llama-3.3-70b-versatile", messages: [], stream: true });
+    for await (const _ of stream) {
+    }
+
+    expect(create.mock.calls[0][0]).not.toHaveProperty("feature_tag");
+    await flush();
+    expect(telemetryPayloads).toHaveLength(2);
+    expect(telemetryPayloads[0]).toMatchObject({ provider: "groq", feature_tag: "fast", input_tokens: 4 });
+    expect(telemetryPayloads[0].cost_usd).toBeNull();
+    expect(telemetryPayloads[1]).toMatchObject({ provider: "groq", stream: true, input_tokens: 3, output_tokens: 1 });
+  });
+
+  it("records failures under the given provider", async () => {
+    const create = vi.fn().mockRejectedValue(Object.assign(new Error("model not found"), { status: 404 }));
+    const ollama = openaiCompatible({
+      baseURL: "http://localhost:11434/v1",
+      provider: "ollama",
+      client: { chat: { completions: { create } } },
+    });
+
+    await expect(ollama.chat.completions.create({ model: "llama3.1", messages: [] })).rejects.toThrow("model not found");
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ provider: "ollama", success: false, http_status: 404 });
+  });
+
+  it("leaves the default export on the openai provider", async () => {
+    mockCreate.mockResolvedValue({ choices: [], usage: { prompt_tokens: 1, completion_tokens: 1 } });
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages: [] });
+
+    await flush();
+    expect(telemetryPayloads[0].provider).toBe("openai");
+  });
+});
+
+describe("openai content capture", () => {
+  const responsesCreate = vi.fn();
+
+  beforeEach(() => {
+    responsesCreate.mockReset();
+    _setClientForTesting({ chat: { completions: { create: mockCreate } }, responses: { create: responsesCreate } });
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: { features: ["support"] } });
+  });
+
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", captureContent: undefined });
+  });
+
+  it("records redacted chat messages and output for opted-in features", async () => {
+    mockCreate.mockResolvedValue({
+      choices: [{ message: { content: "I emailed jane@example.com" } }],
+      usage: { prompt_tokens: 1, completion_tokens: 1 },
+    });
+
+    const messages = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Call me at 555-123-4567" }] },
+    ];
+    await openai.chat.completions.create({ model: "gpt-4o", messages, feature_tag: "support" });
+    await openai.chat.completions.create({ model: "gpt-4o", messages, feature_tag: "chat" });
+
+    await flush();
+    expect(telemetryPayloads[0].input_messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Call me at [PHONE]" },
+    ]);
+    expect(telemetryPayloads[0].output_text).toBe("I emailed [EMAIL]");
+    expect(telemetryPayloads[1]).not.toHaveProperty("input_messages");
+    expect(telemetryPayloads[1]).not.toHaveProperty("output_text");
+  });
+
+  it("reassembles streamed chat output", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { role: "assistant" } }] };
+        yield { choices: [{ delta: { content: "Hel" } }] };
+        yield { choices: [{ delta: { content: "lo" } }] };
+        yield { choices: [], usage: { prompt_tokens: 1, completion_tokens: 2 } };
+      },
+    });
+
+    const stream = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+      feature_tag: "support",
+    });
+    for await (const _ of stream) {}
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      input_messages: [{ role: "user", content: "hi" }],
+      output_text: "Hello",
+    });
+  });
+
+  it("records responses input items and output text", async () => {
+    responsesCreate.mockResolvedValue({
+      output_text: "Done",
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+
+    await openai.responses.create({
+      model: "gpt-4.1",
+      instructions: "Be brief.",
+      input: [
+        { role: "user", content: [{ type: "input_text", text: "Weather?" }] },
+        { type: "function_call", name: "weather", arguments: "{}" },
+        { type: "function_call_output", call_id: "c1", output: "sunny" },
+      ],
+      feature_tag: "support",
+    });
+
+    await flush();
+    expect(telemetryPayloads[0].input_messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather?" },
+      { role: "tool", content: "sunny" },
+    ]);
+    expect(telemetryPayloads[0].output_text).toBe("Done");
+  });
+});
+
+describe("openai usage estimates", () => {
+  const messages = [{ role: "user", content: "How many tokens is this?" }];
+
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", tokenizer: undefined });
+  });
+
+  it("estimates calls whose response carries no usage", async () => {
+    mockCreate.mockResolvedValue({ choices: [{ message: { content: "About six." } }] });
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 6, output_tokens: 3, estimated: true });
+    expect(telemetryPayloads[0].cost_usd).toBeGreaterThan(0);
+  });
+
+  it("estimates streams that end before the usage chunk", async () => {
+    mockCreate.mockResolvedValue({
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: "About " } }] };
+        yield { choices: [{ delta: { content: "six." } }] };
+        yield { choices: [], usage: { prompt_tokens: 6, completion_tokens: 3 } };
+      },
+    });
+
+    const stream = await openai.chat.completions.create({ model: "gpt-4o", messages, stream: true });
+    let seen = 0;
+    for await (const _ of stream) if (++seen === 2) break;
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({
+      stream_status: "aborted",
+      input_tokens: 6,
+      output_tokens: 3,
+      estimated: true,
+    });
+  });
+
+  it("uses the configured tokenizer and keeps reported usage", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", tokenizer: (text) => text.split(" ").length });
+    mockCreate.mockResolvedValue({ choices: [], usage: { prompt_tokens: 7, completion_tokens: 1 } });
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages });
+
+    await flush();
+    expect(telemetryPayloads[0]).toMatchObject({ input_tokens: 7, role_tokens: { user: 5 } });
+    expect(telemetryPayloads[0]).not.toHaveProperty("estimated");
+  });
+});
+
+describe("openai budgets", () => {
+  afterEach(() => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [] });
+    _resetBudgetsForTesting();
+  });
+
+  it("blocks calls once a feature budget is exhausted", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "feature", maxCostUsd: 1 }] });
+    mockCreate.mockResolvedValue({
+      choices: [],
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    });
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages: [], feature_tag: "chat" });
+    await expect(
+      openai.chat.completions.create({ model: "gpt-4o", messages: [], feature_tag: "chat" })
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(mockCreate).toHaveBeenCalledOnce();
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages: [], feature_tag: "search" });
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+
+  it("checks end-user budgets against the end user from context", async () => {
+    init({ trackerApiKey: "key", projectId: "proj-1", budgets: [{ scope: "end_user", maxCostUsd: 1 }] });
+    mockCreate.mockResolvedValue({
+      choices: [],
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    });
+
+    await withContext({ endUserId: "u1" }, () => openai.chat.completions.create({ model: "gpt-4o", messages: [] }));
+    await expect(
+      openai.chat.completions.create({ model: "gpt-4o", messages: [], agentracer: { endUserId: "u1" } })
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+
+    await openai.chat.completions.create({ model: "gpt-4o", messages: [], agentracer: { endUserId: "u2" } });
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { init, track, AgentRun, _resetTransportForTesting } from "../src/index";
+import { instrumentOpenTelemetry } from "../src/otel";
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+const tracer = provider.getTracer("test");
+let uninstall: () => void;
+
+beforeAll(() => {
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  init({ trackerApiKey: "k", projectId: "p", enabled: false });
+  uninstall = instrumentOpenTelemetry({ tracer });
+});
+
+afterAll(() => {
+  uninstall();
+  context.disable();
+  init({ trackerApiKey: "k", projectId: "p", enabled: true });
+});
+
+afterEach(() => {
+  exporter.reset();
+  _resetTransportForTesting();
+});
+
+describe("instrumentOpenTelemetry", () => {
+  it("emits a GenAI span for each tracked call", async () => {
+    await track({
+      model: "gpt-4o",
+      provider: "openai",
+      inputTokens: 100,
+      outputTokens: 20,
+      latencyMs: 250,
+      featureTag: "chatbot",
+    });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("chat gpt-4o");
+    expect(span.attributes).toMatchObject({
+      "gen_ai.operation.name": "chat",
+      "gen_ai.system": "openai",
+      "gen_ai.request.model": "gpt-4o",
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 20,
+      "agentracer.feature_tag": "chatbot",
+    });
+    const durationMs = span.duration[0] * 1000 + span.duration[1] / 1e6;
+    expect(durationMs).toBeCloseTo(250, 0);
+  });
+
+  it("marks failed calls as errors", async () => {
+    await track({
+      model: "claude-sonnet-4-20250514",
+      provider: "anthropic",
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: 10,
+      success: false,
+      errorType: "RateLimitError",
+    });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.attributes["error.type"]).toBe("RateLimitError");
+  });
+
+  it("emits spans for calls that sampling drops", async () => {
+    init({ trackerApiKey: "k", projectId: "p", enabled: false, sampling: { rate: 0 } });
+    try {
+      await track({ model: "gpt-4o", provider: "openai", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    } finally {
+      init({ trackerApiKey: "k", projectId: "p", enabled: false, sampling: undefined });
+    }
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("chat gpt-4o");
+  });
+
+  it("nests call spans under the AgentRun span", async () => {
+    const run = new AgentRun({ runName: "research", featureTag: "agent" });
+    await run.execute(async () => {
+      await track({ model: "gpt-4o", provider: "openai", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const runSpan = spans.find((s) => s.name === "invoke_agent research")!;
+    const callSpan = spans.find((s) => s.name === "chat gpt-4o")!;
+    expect(runSpan.attributes).toMatchObject({
+      "gen_ai.operation.name": "invoke_agent",
+      "gen_ai.agent.name": "research",
+      "agentracer.run_id": run.runId,
+    });
+    expect(callSpan.parentSpanContext?.spanId).toBe(runSpan.spanContext().spanId);
+    expect(callSpan.attributes["agentracer.run_id"]).toBe(run.runId);
+  });
+
+  it("emits execute_tool spans for tool steps", async () => {
+    const run = new AgentRun({ runName: "agent" });
+    await run.execute(async () => {
+      await run.tool("web_search", async () => {
+        await track({ model: "gpt-4o", provider: "openai", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+      });
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const runSpan = spans.find((s) => s.name === "invoke_agent agent")!;
+    const toolSpan = spans.find((s) => s.name === "execute_tool web_search")!;
+    const callSpan = spans.find((s) => s.name === "chat gpt-4o")!;
+    expect(toolSpan.attributes).toMatchObject({
+      "gen_ai.operation.name": "execute_tool",
+      "gen_ai.tool.name": "web_search",
+    });
+    expect(toolSpan.parentSpanContext?.spanId).toBe(runSpan.spanContext().spanId);
+    expect(callSpan.parentSpanContext?.spanId).toBe(toolSpan.spanContext().spanId);
+  });
+
+  it("records a failed run on its span", async () => {
+    const run = new AgentRun({ runName: "broken" });
+    await expect(
+      run.execute(async () => {
+        throw new TypeError("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.attributes["error.type"]).toBe("TypeError");
+  });
+
+  it("attaches to the active OpenTelemetry context", async () => {
+    await tracer.startActiveSpan("http request", async (parent) => {
+      await track({ model: "gpt-4o", provider: "openai", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+      parent.end();
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const parent = spans.find((s) => s.name === "http request")!;
+    const call = spans.find((s) => s.name === "chat gpt-4o")!;
+    expect(call.spanContext().traceId).toBe(parent.spanContext().traceId);
+    expect(call.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+  });
+
+  it("stops emitting spans once uninstalled", async () => {
+    const otherExporter = new InMemorySpanExporter();
+    const otherProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(otherExporter)] });
+    const remove = instrumentOpenTelemetry({ tracer: otherProvider.getTracer("other") });
+
+    await track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+    remove();
+    await track({ model: "gpt-4o", inputTokens: 1, outputTokens: 1, latencyMs: 1 });
+
+    expect(otherExporter.getFinishedSpans()).toHaveLength(1);
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+  });
+});
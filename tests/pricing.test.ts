@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { computeCost, getModelPricing, MODEL_PRICING } from "../src/pricing";
+
+describe("getModelPricing", () => {
+  it("finds exact catalog entries", () => {
+    expect(getModelPricing("gpt-4o")).toEqual(MODEL_PRICING["gpt-4o"]);
+    expect(getModelPricing("gpt-4o-mini")).toEqual(MODEL_PRICING["gpt-4o-mini"]);
+  });
+
+  it("resolves dated and versioned aliases", () => {
+    expect(getModelPricing("claude-sonnet-4-20250514")).toEqual(MODEL_PRICING["claude-sonnet-4"]);
+    expect(getModelPricing("gpt-4o-2024-08-06")).toEqual(MODEL_PRICING["gpt-4o"]);
+    expect(getModelPricing("claude-3-5-haiku-latest")).toEqual(MODEL_PRICING["claude-3-5-haiku"]);
+    expect(getModelPricing("gemini-1.5-pro-002")).toEqual(MODEL_PRICING["gemini-1.5-pro"]);
+    expect(getModelPricing("models/gemini-2.0-flash")).toEqual(MODEL_PRICING["gemini-2.0-flash"]);
+  });
+
+  it("falls back to the longest base model of a snapshot", () => {
+    expect(getModelPricing("gemini-2.5-flash-preview-05-20")).toEqual(MODEL_PRICING["gemini-2.5-flash"]);
+    expect(getModelPricing("gpt-4-0613")).toEqual(MODEL_PRICING["gpt-4"]);
+    expect(getModelPricing("gemini-2.5-flash-lite-preview-06-17")).toEqual(MODEL_PRICING["gemini-2.5-flash-lite"]);
+  });
+
+  it("resolves Bedrock model IDs, inference profiles and ARNs", () => {
+    expect(getModelPricing("anthropic.claude-3-5-sonnet-20241022-v2:0")).toEqual(MODEL_PRICING["claude-3-5-sonnet"]);
+    expect(getModelPricing("us.anthropic.claude-sonnet-4-20250514-v1:0")).toEqual(MODEL_PRICING["claude-sonnet-4"]);
+    expect(getModelPricing("amazon.nova-lite-v1:0")).toEqual(MODEL_PRICING["nova-lite"]);
+    expect(getModelPricing("mistral.mistral-large-2407-v1:0")).toEqual(MODEL_PRICING["mistral-large"]);
+    expect(
+      getModelPricing("arn:aws:bedrock:us-east-1:123456789012:inference-profile/eu.amazon.nova-pro-v1:0")
+    ).toEqual(MODEL_PRICING["nova-pro"]);
+  });
+
+  it("resolves Mistral and Cohere aliases", () => {
+    expect(getModelPricing("mistral-small-latest")).toEqual(MODEL_PRICING["mistral-small"]);
+    expect(getModelPricing("command-r-plus-08-2024")).toEqual(MODEL_PRICING["command-r-plus"]);
+    expect(getModelPricing("command-r-08-2024")).toEqual(MODEL_PRICING["command-r"]);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(getModelPricing("llama-3-70b")).toBeUndefined();
+  });
+
+  it("does not price model variants as their base model", () => {
+    expect(getModelPricing("o3-pro")).toBeUndefined();
+    expect(getModelPricing("gpt-5-pro")).toBeUndefined();
+    expect(getModelPricing("gpt-5-pro-2025-10-06")).toBeUndefined();
+  });
+
+  it("prefers overrides over the catalog", () => {
+    const custom = { input: 1, output: 1 };
+    expect(getModelPricing("gpt-4o-2024-08-06", { "gpt-4o": custom })).toBe(custom);
+  });
+});
+
+describe("computeCost", () => {
+  it("prices input and output tokens", () => {
+    expect(
+      computeCost({ model: "gpt-4o", provider: "openai", inputTokens: 1_000_000, outputTokens: 1_000_000 })
+    ).toBe(12.5);
+  });
+
+  it("treats OpenAI cached tokens as part of the prompt", () => {
+    expect(
+      computeCost({
+        model: "gpt-4o",
+        provider: "openai",
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        cachedTokens: 400_000,
+      })
+    ).toBe(2.5 * 0.6 + 1.25 * 0.4);
+  });
+
+  it("adds Anthropic cache reads and writes on top of input tokens", () => {
+    expect(
+      computeCost({
+        model: "claude-sonnet-4-20250514",
+        provider: "anthropic",
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        cachedTokens: 1_000_000,
+        cacheWriteTokens: 1_000_000,
+      })
+    ).toBe(3 + 0.3 + 3.75);
+  });
+
+  it("adds Bedrock cache reads on top of input tokens", () => {
+    expect(
+      computeCost({
+        model: "anthropic.claude-3-5-haiku-20241022-v1:0",
+        provider: "bedrock",
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        cachedTokens: 1_000_000,
+      })
+    ).toBe(0.8 + 0.08);
+  });
+
+  it("applies the batch discount", () => {
+    expect(computeCost({ model: "gpt-4o", inputTokens: 1_000_000, outputTokens: 1_000_000, batch: true })).toBe(6.25);
+  });
+
+  it("returns null for unknown models", () => {
+    expect(computeCost({ model: "mystery", inputTokens: 10, outputTokens: 10 })).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { resolveSampleRate, sampled } from "../src/sampling";
+
+describe("resolveSampleRate", () => {
+  const call = { featureTag: "chat", model: "gpt-4o", environment: "production" };
+
+  it("keeps everything without sampling options", () => {
+    expect(resolveSampleRate(undefined, call)).toBe(1);
+    expect(resolveSampleRate({}, call)).toBe(1);
+  });
+
+  it("prefers feature, then model, then environment, then the default rate", () => {
+    const options = {
+      rate: 0.5,
+      features: { chat: 0.1 },
+      models: { "gpt-4o": 0.2 },
+      environments: { production: 0.3 },
+    };
+
+    expect(resolveSampleRate(options, call)).toBe(0.1);
+    expect(resolveSampleRate(options, { ...call, featureTag: "search" })).toBe(0.2);
+    expect(resolveSampleRate(options, { ...call, featureTag: "search", model: "gpt-4.1" })).toBe(0.3);
+    expect(resolveSampleRate(options, { featureTag: "search", model: "gpt-4.1", environment: "staging" })).toBe(0.5);
+  });
+
+  it("clamps rates to between 0 and 1", () => {
+    expect(resolveSampleRate({ rate: 3 }, call)).toBe(1);
+    expect(resolveSampleRate({ rate: -1 }, call)).toBe(0);
+    expect(resolveSampleRate({ rate: NaN }, call)).toBe(1);
+  });
+});
+
+describe("sampled", () => {
+  it("keeps a call when the random draw falls below the rate", () => {
+    expect(sampled(0.25, () => 0.2)).toBe(true);
+    expect(sampled(0.25, () => 0.25)).toBe(false);
+  });
+
+  it("never draws for rates of 0 and 1", () => {
+    const random = () => {
+      throw new Error("unexpected draw");
+    };
+    expect(sampled(1, random)).toBe(true);
+    expect(sampled(0, random)).toBe(false);
+  });
+});
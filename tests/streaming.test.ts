@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { observeStream, StreamStats } from "../src/streaming";
+
+async function* source(chunks: string[], failAfter?: number) {
+  for (let i = 0; i < chunks.length; i++) {
+    if (i === failAfter) throw new Error("connection reset");
+    yield chunks[i];
+  }
+}
+
+describe("observeStream", () => {
+  it("reports completed streams with chunk count and time to first token", async () => {
+    const ended: StreamStats[] = [];
+    const stream = observeStream(source(["", "a", "b"]), Date.now(), {
+      isContent: (chunk) => chunk.length > 0,
+      onEnd: (stats) => ended.push(stats),
+    });
+
+    const received: string[] = [];
+    for await (const chunk of stream) received.push(chunk);
+
+    expect(received).toEqual(["", "a", "b"]);
+    expect(ended).toHaveLength(1);
+    expect(ended[0]).toMatchObject({ status: "completed", chunkCount: 3 });
+    expect(ended[0].timeToFirstTokenMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports aborted streams when the consumer stops early", async () => {
+    const ended: StreamStats[] = [];
+    const stream = observeStream(source(["a", "b", "c"]), Date.now(), {
+      onEnd: (stats) => ended.push(stats),
+    });
+
+    for await (const _ of stream) break;
+
+    expect(ended).toHaveLength(1);
+    expect(ended[0]).toMatchObject({ status: "aborted", chunkCount: 1 });
+  });
+
+  it("reports errored streams and rethrows", async () => {
+    const ended: StreamStats[] = [];
+    const stream = observeStream(source(["a", "b", "c"], 2), Date.now(), {
+      onEnd: (stats) => ended.push(stats),
+    });
+
+    await expect(async () => {
+      for await (const _ of stream) {
+      }
+    }).rejects.toThrow("connection reset");
+
+    expect(ended[0]).toMatchObject({ status: "errored", chunkCount: 2 });
+    expect((ended[0].error as Error).message).toBe("connection reset");
+  });
+
+  it("leaves time to first token empty when no content arrives", async () => {
+    const ended: StreamStats[] = [];
+    const stream = observeStream(source(["meta"]), Date.now(), {
+      isContent: () => false,
+      onEnd: (stats) => ended.push(stats),
+    });
+
+    for await (const _ of stream) {
+    }
+
+    expect(ended[0].timeToFirstTokenMs).toBeNull();
+  });
+
+  it("never lets a throwing hook break the stream", async () => {
+    const stream = observeStream(source(["a", "b"]), Date.now(), {
+      onChunk: () => {
+        throw new Error("bad hook");
+      },
+      onEnd: () => {
+        throw new Error("bad hook");
+      },
+    });
+
+    const received: string[] = [];
+    for await (const chunk of stream) received.push(chunk);
+    expect(received).toEqual(["a", "b"]);
+  });
+});
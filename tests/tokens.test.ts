@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { approximateTokens, countTextTokens } from "../src/tokens";
+
+describe("approximateTokens", () => {
+  it("counts about four characters per token, rounding up", () => {
+    expect(approximateTokens("")).toBe(0);
+    expect(approximateTokens("abc")).toBe(1);
+    expect(approximateTokens("abcdefghi")).toBe(3);
+  });
+});
+
+describe("countTextTokens", () => {
+  it("uses the tokenizer with the model name", () => {
+    const calls: string[] = [];
+    const count = countTextTokens((text, model) => (calls.push(model), text.split(" ").length), "a b c", "gpt-4o");
+
+    expect(count).toBe(3);
+    expect(calls).toEqual(["gpt-4o"]);
+  });
+
+  it("falls back to the approximation when the tokenizer fails", () => {
+    const throwing = () => {
+      throw new Error("unknown model");
+    };
+
+    expect(countTextTokens(throwing, "abcdefgh", "custom")).toBe(2);
+    expect(countTextTokens(() => NaN, "abcdefgh", "custom")).toBe(2);
+    expect(countTextTokens(undefined, "abcdefgh", "custom")).toBe(2);
+  });
+});